@@ -0,0 +1,40 @@
+// ============================================
+// ROLE MATCHER CONFIG
+// ============================================
+// Writes HTML_web_applications/role-matcher-config.js with a Trigger.dev
+// public token the Role Matcher page uses to start its tasks:
+// - Scoped to parse-job-description and match-candidates-to-job only
+// - Multiple use, so the page works for every recruiter until it expires
+//
+// Run with the project's secret key (never shipped to the page):
+//   TRIGGER_SECRET_KEY=tr_prod_... npm run role-matcher:config
+// Optional: ROLE_MATCHER_TOKEN_EXPIRY (default "90d")
+
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { auth } from "@trigger.dev/sdk";
+
+const TASK_IDS = ["parse-job-description", "match-candidates-to-job"];
+const OUTPUT_PATH = join(__dirname, "..", "HTML_web_applications", "role-matcher-config.js");
+
+async function main(): Promise<void> {
+  if (!process.env.TRIGGER_SECRET_KEY) {
+    throw new Error("TRIGGER_SECRET_KEY is required to create the Role Matcher token");
+  }
+
+  const expirationTime = process.env.ROLE_MATCHER_TOKEN_EXPIRY || "90d";
+  const token = await auth.createTriggerPublicToken(TASK_IDS, { multipleUse: true, expirationTime });
+
+  writeFileSync(
+    OUTPUT_PATH,
+    `// Generated by scripts/createRoleMatcherConfig.ts - do not commit\n` +
+      `window.ROLE_MATCHER_CONFIG = ${JSON.stringify({ TRIGGER_PUBLIC_TOKEN: token }, null, 2)};\n`
+  );
+
+  console.log(`✅ Wrote ${OUTPUT_PATH} (token expires in ${expirationTime})`);
+}
+
+main().catch((error) => {
+  console.error("❌ Failed to create Role Matcher config:", error?.message ?? error);
+  process.exit(1);
+});
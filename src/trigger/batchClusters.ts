@@ -0,0 +1,210 @@
+// ============================================
+// IN-BATCH DUPLICATE CLUSTERS
+// ============================================
+// Groups files in one upload that belong to the same candidate, so the
+// second copy never creates a second candidate or GHL contact:
+// - Identical files by SHA-256 of the content
+// - Same person by quick-parse email / phone
+// Later files are attached to the first as extra source files.
+// Seeded from rows already written for the batch, so recovery runs agree.
+
+import { logger } from "@trigger.dev/sdk";
+import { createHash } from "crypto";
+import { Buffer } from "buffer";
+import { ENV, isValidEmail, normalizePhone } from "./config";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SourceFile {
+  path: string;
+  name: string;
+  content_hash: string | null;
+}
+
+export interface BatchCluster {
+  candidateId: string | null; // Written candidate...
+  holdQueueId: string | null; // ...or the hold-queue item it's waiting in
+  primaryFile: string;
+  files: string[];
+}
+
+export interface BatchClusterIndex {
+  findByHash(contentHash: string): BatchCluster | null;
+  findByIdentity(identity: { email?: string | null; phone?: string | null }): BatchCluster | null;
+  register(
+    cluster: Omit<BatchCluster, "files">,
+    keys: { contentHash?: string | null; email?: string | null; phone?: string | null }
+  ): BatchCluster;
+  addKeys(
+    cluster: BatchCluster,
+    keys: { contentHash?: string | null; email?: string | null; phone?: string | null }
+  ): void;
+  size(): number;
+}
+
+// ============================================
+// KEYS
+// ============================================
+
+export function hashFileContent(fileBuffer: ArrayBuffer): string {
+  return createHash("sha256").update(Buffer.from(fileBuffer)).digest("hex");
+}
+
+function identityKeys(identity: { email?: string | null; phone?: string | null }): string[] {
+  const keys: string[] = [];
+  if (identity.email && isValidEmail(identity.email)) {
+    keys.push(`email:${identity.email.trim().toLowerCase()}`);
+  }
+  const phone = normalizePhone(identity.phone);
+  if (phone) keys.push(`phone:${phone}`);
+  return keys;
+}
+
+// ============================================
+// INDEX
+// ============================================
+
+export function createBatchClusterIndex(): BatchClusterIndex {
+  const byHash = new Map<string, BatchCluster>();
+  const byIdentity = new Map<string, BatchCluster>();
+  const clusters: BatchCluster[] = [];
+
+  function addKeys(
+    cluster: BatchCluster,
+    keys: { contentHash?: string | null; email?: string | null; phone?: string | null }
+  ): void {
+    if (keys.contentHash && !byHash.has(keys.contentHash)) byHash.set(keys.contentHash, cluster);
+    for (const key of identityKeys(keys)) {
+      if (!byIdentity.has(key)) byIdentity.set(key, cluster);
+    }
+  }
+
+  return {
+    findByHash(contentHash) {
+      return byHash.get(contentHash) || null;
+    },
+
+    findByIdentity(identity) {
+      for (const key of identityKeys(identity)) {
+        const cluster = byIdentity.get(key);
+        if (cluster) return cluster;
+      }
+      return null;
+    },
+
+    register(cluster, keys) {
+      const registered: BatchCluster = { ...cluster, files: [cluster.primaryFile] };
+      clusters.push(registered);
+      addKeys(registered, keys);
+      return registered;
+    },
+
+    addKeys,
+
+    size() {
+      return clusters.length;
+    },
+  };
+}
+
+/**
+ * Index pre-filled with candidates and hold-queue items already written for
+ * this batch (a recovered batch must not re-create them)
+ */
+export async function loadBatchClusterIndex(batchId: string): Promise<BatchClusterIndex> {
+  const index = createBatchClusterIndex();
+  const headers = {
+    Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+    apikey: ENV.SUPABASE_SERVICE_KEY,
+  };
+
+  const candidatesResponse = await fetch(
+    `${ENV.SUPABASE_URL}/rest/v1/candidates?batch_id=eq.${batchId}&select=id,email,phone,cv_file_path,source_files`,
+    { headers }
+  );
+  if (candidatesResponse.ok) {
+    for (const row of await candidatesResponse.json()) {
+      seedCluster(index, { candidateId: row.id, holdQueueId: null }, row.cv_file_path, row.source_files, row);
+    }
+  }
+
+  const holdResponse = await fetch(
+    `${ENV.SUPABASE_URL}/rest/v1/hold_queue?batch_id=eq.${batchId}&select=id,cv_file_path,extraction_data,source_files`,
+    { headers }
+  );
+  if (holdResponse.ok) {
+    for (const row of await holdResponse.json()) {
+      seedCluster(index, { candidateId: null, holdQueueId: row.id }, row.cv_file_path, row.source_files, row.extraction_data || {});
+    }
+  }
+
+  if (index.size() > 0) {
+    logger.info("♻️ Loaded in-batch clusters from earlier run", { batchId, clusters: index.size() });
+  }
+
+  return index;
+}
+
+function seedCluster(
+  index: BatchClusterIndex,
+  target: { candidateId: string | null; holdQueueId: string | null },
+  primaryFile: string,
+  sourceFiles: any,
+  identity: { email?: string | null; phone?: string | null }
+): void {
+  const files: SourceFile[] = Array.isArray(sourceFiles) ? sourceFiles : [];
+  const cluster = index.register({ ...target, primaryFile }, { email: identity.email, phone: identity.phone });
+
+  for (const file of files) {
+    index.addKeys(cluster, { contentHash: file.content_hash });
+    if (file.path !== primaryFile) cluster.files.push(file.path);
+  }
+}
+
+// ============================================
+// ATTACH
+// ============================================
+
+/**
+ * Append a source file to the cluster's candidate (or hold-queue item)
+ */
+export async function attachFileToCluster(cluster: BatchCluster, file: SourceFile): Promise<void> {
+  const table = cluster.candidateId ? "candidates" : "hold_queue";
+  const id = cluster.candidateId || cluster.holdQueueId;
+  const headers = {
+    Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+    apikey: ENV.SUPABASE_SERVICE_KEY,
+  };
+
+  const current = await fetch(`${ENV.SUPABASE_URL}/rest/v1/${table}?id=eq.${id}&select=source_files&limit=1`, {
+    headers,
+  });
+  if (!current.ok) {
+    throw new Error(`Failed to read ${table} source files: ${current.status}`);
+  }
+  const rows = await current.json();
+  const sourceFiles: SourceFile[] = Array.isArray(rows?.[0]?.source_files) ? rows[0].source_files : [];
+
+  if (!sourceFiles.some((f) => f.path === file.path)) {
+    sourceFiles.push(file);
+  }
+
+  const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/${table}?id=eq.${id}`, {
+    method: "PATCH",
+    headers: {
+      ...headers,
+      "Content-Type": "application/json",
+      Prefer: "return=minimal",
+    },
+    body: JSON.stringify({ source_files: sourceFiles }),
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`Failed to attach source file: ${t.slice(0, 800)}`);
+  }
+
+  if (!cluster.files.includes(file.path)) cluster.files.push(file.path);
+}
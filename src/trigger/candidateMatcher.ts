@@ -0,0 +1,427 @@
+// ============================================
+// CANDIDATE MATCHER
+// ============================================
+// Scores stored candidates against job requirements on
+// experience and skills, and writes the recruiter-facing
+// reasons, shortfalls and interview advice shown in the Role Matcher
+
+import { MATCHING_CONFIG } from "./config";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface JobRequirements {
+  title: string | null;
+  required_skills: string[];
+  preferred_skills: string[];
+  min_years_experience: number | null;
+  keywords: string[]; // Sector / domain terms (e.g. "fintech", "b2b saas")
+}
+
+export interface MatchableCandidate {
+  id: string;
+  full_name: string | null;
+  address: string | null;
+  professional_summary: string | null;
+  cv_summary: string | null;
+  work_history: any[] | null;
+  skills: string[] | null;
+  certifications: any[] | null;
+}
+
+export interface CandidateMatch {
+  candidate_id: string;
+  name: string;
+  experience_score: number; // 0.0 to 10.0
+  experience_reason: string;
+  skill_score: number; // 0.0 to 10.0
+  skill_reason: string;
+  overall_score: number; // 0.0 to 10.0
+  years_experience: number;
+  matched_skills: string[];
+  missing_required_skills: string[];
+  missing_preferred_skills: string[];
+  not_met: string;
+  advice: string;
+}
+
+// ============================================
+// TEXT NORMALISATION
+// ============================================
+
+/**
+ * Lowercase and collapse text so skills can be compared as whole words.
+ * Keeps "+", "#" and "." so C++, C# and Node.js survive, but drops the
+ * full stop ending a sentence ("...with SQL." still contains "sql").
+ */
+function normalizeText(text: unknown): string {
+  if (typeof text !== "string" || !text) return "";
+  const tokens = text
+    .toLowerCase()
+    .replace(/[^a-z0-9+#.]+/g, " ")
+    .split(" ")
+    .map((token) => token.replace(/\.+$/, ""))
+    .filter(Boolean);
+  return ` ${tokens.join(" ")} `;
+}
+
+function containsTerm(haystack: string, term: string): boolean {
+  const needle = normalizeText(term);
+  if (needle.trim().length === 0) return false;
+  return haystack.includes(needle);
+}
+
+function tokenize(text: string | null | undefined): string[] {
+  const stopWords = new Set(["and", "or", "of", "the", "a", "an", "to", "in", "for", "with", "senior", "junior"]);
+  return normalizeText(text)
+    .trim()
+    .split(" ")
+    .filter((t) => t.length > 1 && !stopWords.has(t));
+}
+
+function firstName(fullName: string | null): string {
+  return asText(fullName).trim().split(/\s+/)[0] || "The candidate";
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Stored CV JSON predates the schema, so lists and strings aren't guaranteed
+function asArray<T = any>(value: unknown): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  return "";
+}
+
+// ============================================
+// EXPERIENCE
+// ============================================
+
+/**
+ * Parse a CV date ("2019", "03/2019", "March 2019", "Present") to a fractional year
+ */
+function parseYear(raw: unknown, isEnd: boolean): number | null {
+  const value = asText(raw);
+  if (!value) return isEnd ? currentFractionalYear() : null;
+  if (/present|current|now|date/i.test(value)) return currentFractionalYear();
+
+  const year = parseInt(value.match(/\b(19|20)\d{2}\b/)?.[0] || "0");
+  if (!year) return null;
+
+  const months = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+  const lower = value.toLowerCase();
+  let month = months.findIndex((m) => lower.includes(m));
+  if (month === -1) {
+    const numeric = value.match(/\b(0?[1-9]|1[0-2])[\/\-.](19|20)\d{2}\b/);
+    month = numeric ? parseInt(numeric[1]) - 1 : isEnd ? 11 : 0;
+  }
+
+  return year + month / 12;
+}
+
+function currentFractionalYear(): number {
+  const now = new Date();
+  return now.getFullYear() + now.getMonth() / 12;
+}
+
+/**
+ * Total years of experience, counting overlapping roles once
+ */
+export function calculateYearsExperience(workHistory: any[] | null): number {
+  if (!Array.isArray(workHistory)) return 0;
+
+  const ranges = workHistory
+    .map((job) => ({
+      start: parseYear(job?.start_date, false),
+      end: parseYear(job?.end_date, true),
+    }))
+    .filter((r): r is { start: number; end: number } => r.start !== null && r.end !== null && r.end >= r.start)
+    .sort((a, b) => a.start - b.start);
+
+  let total = 0;
+  let cursor = -Infinity;
+  for (const range of ranges) {
+    const start = Math.max(range.start, cursor);
+    if (range.end > start) {
+      total += range.end - start;
+      cursor = range.end;
+    }
+  }
+
+  return round1(total);
+}
+
+function titleSimilarity(jobTitle: string | null, candidateTitle: string | null): number {
+  const wanted = tokenize(jobTitle);
+  const have = new Set(tokenize(candidateTitle));
+  if (wanted.length === 0 || have.size === 0) return 0;
+  return wanted.filter((t) => have.has(t)).length / wanted.length;
+}
+
+function scoreExperience(
+  candidate: MatchableCandidate,
+  requirements: JobRequirements,
+  cvText: string
+): { score: number; years: number; bestTitle: string | null; bestTitleMatch: number; keywordHits: string[] } {
+  const workHistory = asArray(candidate.work_history);
+  const years = calculateYearsExperience(workHistory);
+
+  // Years component (0-5)
+  const targetYears = requirements.min_years_experience || MATCHING_CONFIG.DEFAULT_TARGET_YEARS;
+  const yearsComponent = Math.min(1, years / targetYears) * 5;
+
+  // Relevance component (0-5): best title match, recent roles weighted higher
+  let bestTitle: string | null = null;
+  let bestTitleMatch = 0;
+  workHistory.slice(0, 5).forEach((job, index) => {
+    const recencyWeight = 1 - index * 0.1;
+    const similarity = titleSimilarity(requirements.title, job?.job_title) * recencyWeight;
+    if (similarity > bestTitleMatch) {
+      bestTitleMatch = similarity;
+      bestTitle = job?.job_title || null;
+    }
+  });
+
+  const keywordHits = requirements.keywords.filter((k) => containsTerm(cvText, k));
+  const keywordRatio = requirements.keywords.length > 0 ? keywordHits.length / requirements.keywords.length : 0;
+
+  const relevanceComponent = requirements.keywords.length > 0
+    ? bestTitleMatch * 3 + keywordRatio * 2
+    : bestTitleMatch * 5;
+
+  return {
+    score: round1(Math.min(10, yearsComponent + relevanceComponent)),
+    years,
+    bestTitle,
+    bestTitleMatch,
+    keywordHits,
+  };
+}
+
+// ============================================
+// SKILLS
+// ============================================
+
+function scoreSkills(
+  candidate: MatchableCandidate,
+  requirements: JobRequirements,
+  cvText: string
+): { score: number; matched: string[]; missingRequired: string[]; missingPreferred: string[] } {
+  const matchedRequired = requirements.required_skills.filter((s) => containsTerm(cvText, s));
+  const matchedPreferred = requirements.preferred_skills.filter((s) => containsTerm(cvText, s));
+
+  const totalWeight =
+    requirements.required_skills.length * MATCHING_CONFIG.REQUIRED_SKILL_WEIGHT +
+    requirements.preferred_skills.length * MATCHING_CONFIG.PREFERRED_SKILL_WEIGHT;
+
+  const matchedWeight =
+    matchedRequired.length * MATCHING_CONFIG.REQUIRED_SKILL_WEIGHT +
+    matchedPreferred.length * MATCHING_CONFIG.PREFERRED_SKILL_WEIGHT;
+
+  // No stated requirements - fall back to how well-evidenced the candidate's skills are
+  const score = totalWeight > 0
+    ? (matchedWeight / totalWeight) * 10
+    : Math.min(10, asArray(candidate.skills).length / 2);
+
+  return {
+    score: round1(score),
+    matched: [...matchedRequired, ...matchedPreferred],
+    missingRequired: requirements.required_skills.filter((s) => !matchedRequired.includes(s)),
+    missingPreferred: requirements.preferred_skills.filter((s) => !matchedPreferred.includes(s)),
+  };
+}
+
+/**
+ * Flatten everything a skill could be evidenced in into one searchable string
+ */
+function buildSearchableText(candidate: MatchableCandidate): string {
+  const certifications = asArray(candidate.certifications)
+    .map((c: any) => (typeof c === "string" ? c : asText(c?.name)))
+    .join(" ");
+
+  const workHistory = asArray(candidate.work_history)
+    .map((job: any) =>
+      [job?.job_title, job?.company_name, job?.duties_responsibilities, job?.achievements]
+        .flatMap((value) => (Array.isArray(value) ? value.map(asText) : [asText(value)]))
+        .filter(Boolean)
+        .join(" ")
+    )
+    .join(" ");
+
+  return normalizeText(
+    [
+      asArray(candidate.skills).map(asText).join(" "),
+      certifications,
+      workHistory,
+      asText(candidate.professional_summary),
+      asText(candidate.cv_summary),
+    ]
+      .filter(Boolean)
+      .join(" ")
+  );
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Score a single candidate against job requirements
+ */
+export function scoreCandidateAgainstJob(
+  candidate: MatchableCandidate,
+  requirements: JobRequirements
+): CandidateMatch {
+  const cvText = buildSearchableText(candidate);
+  const experience = scoreExperience(candidate, requirements, cvText);
+  const skills = scoreSkills(candidate, requirements, cvText);
+
+  const overall = round1(
+    experience.score * MATCHING_CONFIG.EXPERIENCE_WEIGHT + skills.score * MATCHING_CONFIG.SKILLS_WEIGHT
+  );
+
+  const name = firstName(candidate.full_name);
+  const workHistory = asArray(candidate.work_history);
+  const recentJob = workHistory[0];
+
+  // Experience reason
+  const experienceParts: string[] = [];
+  experienceParts.push(
+    experience.years > 0
+      ? `${name} has around ${Math.round(experience.years)} years' experience across ${workHistory.length} role(s).`
+      : `${name}'s CV does not give dated work history, so total experience could not be calculated.`
+  );
+  if (recentJob?.job_title) {
+    experienceParts.push(
+      `Most recent role is ${recentJob.job_title}${recentJob.company_name ? ` at ${recentJob.company_name}` : ""}.`
+    );
+  }
+  if (requirements.title && experience.bestTitle && experience.bestTitleMatch >= 0.5) {
+    experienceParts.push(`Their ${experience.bestTitle} experience lines up closely with the ${requirements.title} brief.`);
+  } else if (requirements.title) {
+    experienceParts.push(`No previous job title closely matches ${requirements.title}, so this would be more of a step across.`);
+  }
+  if (experience.keywordHits.length > 0) {
+    experienceParts.push(`CV shows exposure to ${joinList(experience.keywordHits)}.`);
+  }
+
+  // Skills reason
+  const skillParts: string[] = [];
+  const requiredCount = requirements.required_skills.length;
+  if (requiredCount > 0) {
+    skillParts.push(
+      `Evidences ${requiredCount - skills.missingRequired.length} of ${requiredCount} must-have skills from the job description.`
+    );
+  }
+  if (skills.matched.length > 0) {
+    skillParts.push(`Matched on ${joinList(skills.matched)}.`);
+  } else {
+    skillParts.push("None of the skills listed in the job description appear on the CV.");
+  }
+  if (skills.missingPreferred.length === 0 && requirements.preferred_skills.length > 0) {
+    skillParts.push("Also covers all of the nice-to-have skills.");
+  }
+
+  // Shortfalls
+  const shortfalls: string[] = [];
+  if (skills.missingRequired.length > 0) {
+    shortfalls.push(`No evidence on the CV of ${joinList(skills.missingRequired)}.`);
+  }
+  if (requirements.min_years_experience && experience.years < requirements.min_years_experience) {
+    shortfalls.push(
+      `Has around ${Math.round(experience.years)} years' experience against the ${requirements.min_years_experience}+ years asked for.`
+    );
+  }
+  if (skills.missingPreferred.length > 0) {
+    shortfalls.push(`Nice-to-haves not evidenced: ${joinList(skills.missingPreferred)}.`);
+  }
+
+  // Advice
+  const advice: string[] = [];
+  if (skills.missingRequired.length > 0) {
+    advice.push(
+      `Ask ${name} whether they have used ${joinList(skills.missingRequired)} in practice but left it off the CV. If not, they should be upfront in interview and walk through a concrete plan to close the gap in the first 90 days.`
+    );
+  }
+  if (requirements.min_years_experience && experience.years < requirements.min_years_experience) {
+    advice.push(
+      `They should lead with the scale and complexity of their recent work rather than time served, so the hiring manager sees headroom rather than risk.`
+    );
+  }
+  if (advice.length === 0) {
+    advice.push(
+      `Strong fit on paper. Prepare ${name} with one or two STAR examples that tie their ${joinList(skills.matched.slice(0, 2)) || "core"} experience to measurable outcomes.`
+    );
+  }
+
+  return {
+    candidate_id: candidate.id,
+    name: candidate.full_name || "Unknown",
+    experience_score: experience.score,
+    experience_reason: experienceParts.join(" "),
+    skill_score: skills.score,
+    skill_reason: skillParts.join(" "),
+    overall_score: overall,
+    years_experience: experience.years,
+    matched_skills: skills.matched,
+    missing_required_skills: skills.missingRequired,
+    missing_preferred_skills: skills.missingPreferred,
+    not_met: shortfalls.length > 0 ? shortfalls.join(" ") : "No significant shortfalls against the job description.",
+    advice: advice.join(" "),
+  };
+}
+
+/**
+ * Score and rank candidates, best overall match first
+ */
+export function rankCandidates(
+  candidates: MatchableCandidate[],
+  requirements: JobRequirements
+): CandidateMatch[] {
+  return candidates
+    .map((c) => scoreCandidateAgainstJob(c, requirements))
+    .sort((a, b) => b.overall_score - a.overall_score || b.skill_score - a.skill_score);
+}
+
+// ============================================
+// DISTANCE
+// ============================================
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export function haversineKm(
+  a: { lat: number; lon: number },
+  b: { lat: number; lon: number }
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/**
+ * Pull the most geocodable part out of a free-text CV address.
+ * UK postcodes are far more precise than town names, so prefer them.
+ */
+export function extractLocationQuery(address: string | null): string | null {
+  if (typeof address !== "string" || !address.trim()) return null;
+
+  const postcode = address.match(/\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/i);
+  if (postcode) return postcode[0].toUpperCase();
+
+  return address.trim();
+}
@@ -0,0 +1,219 @@
+// ============================================
+// CANDIDATE MERGE + VERSION HISTORY
+// ============================================
+// Folds a newly parsed CV into an existing candidate:
+// - Per-field strategy from MERGE_CONFIG (newest non-null, union, keep existing)
+// - Lists de-duplicated by entry identity (work history = company + title + start)
+// - Before/after snapshot in candidate_versions so a merge can be reverted
+
+import { logger } from "@trigger.dev/sdk";
+import { ENV, MERGE_CONFIG, MergeStrategy } from "./config";
+import { ParsedCV, getEmptyParsedCV, getListItemKey } from "./parsedCVSchema";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface FieldChange {
+  field: string;
+  strategy: MergeStrategy;
+}
+
+export interface MergeResult {
+  data: ParsedCV;
+  changes: FieldChange[];
+}
+
+export interface CandidateVersionInput {
+  candidateId: string;
+  source: "hold_queue_update" | "revert";
+  previousData: Record<string, any>;
+  newData: Record<string, any>;
+  changes: FieldChange[];
+  holdQueueId?: string | null;
+  revertedVersionId?: string | null;
+}
+
+// Candidate columns captured in a version snapshot (ParsedCV, source file
+// and the parse that produced them)
+const VERSIONED_FIELDS = [
+  ...Object.keys(getEmptyParsedCV()),
+  "cv_raw_text",
+  "cv_file_path",
+  "batch_id",
+  "parse_model",
+  "parse_validation",
+  "parse_chunking",
+];
+
+// ============================================
+// MERGE POLICY
+// ============================================
+
+function hasValue(value: any): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === "string") return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+function getStrategy(field: string, isList: boolean): MergeStrategy {
+  return (
+    MERGE_CONFIG.FIELD_STRATEGIES[field] ||
+    (isList ? MERGE_CONFIG.DEFAULT_LIST_STRATEGY : MERGE_CONFIG.DEFAULT_SCALAR_STRATEGY)
+  );
+}
+
+/**
+ * Existing items first, then new ones. A new item matching an existing
+ * one updates it - new non-null properties win.
+ */
+function unionList(field: keyof ParsedCV, existing: any[], incoming: any[]): any[] {
+  const merged = existing.map((item) => (item && typeof item === "object" ? { ...item } : item));
+
+  for (const item of incoming) {
+    const key = getListItemKey(field, item);
+    const index = merged.findIndex((m) => getListItemKey(field, m) === key);
+
+    if (index === -1) {
+      merged.push(item);
+    } else if (item && typeof item === "object" && merged[index] && typeof merged[index] === "object") {
+      for (const [k, v] of Object.entries(item)) {
+        if (hasValue(v)) merged[index][k] = v;
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Merge a newly parsed CV into an existing candidate row using the
+ * per-field strategies in MERGE_CONFIG
+ */
+export function mergeCandidateData(existing: any, incoming: ParsedCV): MergeResult {
+  const merged = getEmptyParsedCV() as any;
+  const changes: FieldChange[] = [];
+
+  for (const field of Object.keys(merged) as Array<keyof ParsedCV>) {
+    const isList = Array.isArray(merged[field]);
+    const strategy = getStrategy(field, isList);
+    const oldValue = isList && !Array.isArray(existing?.[field]) ? [] : existing?.[field];
+    const newValue = (incoming as any)[field];
+    let value: any;
+
+    if (strategy === "keep_existing") {
+      value = hasValue(oldValue) ? oldValue : newValue;
+    } else if (strategy === "union" && isList) {
+      value = unionList(field, oldValue, Array.isArray(newValue) ? newValue : []);
+    } else {
+      value = hasValue(newValue) ? newValue : oldValue;
+    }
+
+    merged[field] = value ?? (isList ? [] : null);
+
+    if (JSON.stringify(merged[field]) !== JSON.stringify(oldValue ?? (isList ? [] : null))) {
+      changes.push({ field, strategy });
+    }
+  }
+
+  merged.cv_raw_text = incoming.cv_raw_text ?? existing?.cv_raw_text ?? null;
+
+  return { data: merged, changes };
+}
+
+/**
+ * The versioned columns of a candidate row
+ */
+export function snapshotCandidate(candidate: any): Record<string, any> {
+  const snapshot: Record<string, any> = {};
+  for (const field of VERSIONED_FIELDS) {
+    snapshot[field] = candidate?.[field] ?? null;
+  }
+  return snapshot;
+}
+
+// ============================================
+// VERSION HISTORY
+// ============================================
+
+export async function writeCandidateVersion(input: CandidateVersionInput): Promise<string | null> {
+  if (!MERGE_CONFIG.ENABLE_VERSION_SNAPSHOTS) return null;
+
+  const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/candidate_versions`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+      apikey: ENV.SUPABASE_SERVICE_KEY,
+      "Content-Type": "application/json",
+      Prefer: "return=representation",
+    },
+    body: JSON.stringify({
+      candidate_id: input.candidateId,
+      source: input.source,
+      previous_data: input.previousData,
+      new_data: input.newData,
+      changed_fields: input.changes,
+      hold_queue_id: input.holdQueueId ?? null,
+      reverted_version_id: input.revertedVersionId ?? null,
+    }),
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`Failed to write candidate version: ${t.slice(0, 800)}`);
+  }
+
+  const result = await response.json();
+  const versionId = result?.[0]?.id ?? null;
+
+  logger.info("🗂️ Candidate version saved", {
+    candidateId: input.candidateId,
+    versionId,
+    source: input.source,
+    changedFields: input.changes.map((c) => c.field),
+  });
+
+  return versionId;
+}
+
+export async function fetchCandidateVersion(versionId: string): Promise<any | null> {
+  const response = await fetch(
+    `${ENV.SUPABASE_URL}/rest/v1/candidate_versions?id=eq.${encodeURIComponent(versionId)}&select=*&limit=1`,
+    {
+      headers: {
+        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+        apikey: ENV.SUPABASE_SERVICE_KEY,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch candidate version: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data[0] || null;
+}
+
+/**
+ * Newest version recorded for a candidate
+ */
+export async function fetchLatestCandidateVersion(candidateId: string): Promise<any | null> {
+  const response = await fetch(
+    `${ENV.SUPABASE_URL}/rest/v1/candidate_versions?candidate_id=eq.${encodeURIComponent(candidateId)}&select=id,created_at&order=created_at.desc&limit=1`,
+    {
+      headers: {
+        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+        apikey: ENV.SUPABASE_SERVICE_KEY,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch latest candidate version: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data[0] || null;
+}
@@ -0,0 +1,1157 @@
+// ============================================
+// CANDIDATE PIPELINE - SHARED STEPS
+// ============================================
+// One copy of the candidate pipeline used by both processCVBatch and
+// processHoldQueueItem, as composable steps:
+// - Parse (quick contact parse, full 51-field parse)
+// - Dedupe (Supabase + GHL lookups)
+// - Persist (candidate insert/update)
+// - Sync (GHL contact, file attachments, custom fields)
+
+import { logger } from "@trigger.dev/sdk";
+import { randomUUID } from "crypto";
+import {
+  ENV,
+  PROCESSING_CONFIG,
+  SUPABASE_CONFIG,
+  GHL_CONFIG,
+  CandidateStatus,
+  SupportingDocumentType,
+  getRetryDelay,
+  isRetryableStatus,
+  isValidEmail,
+  normalizePhone,
+  truncateForLog,
+} from "./config";
+import { trackGHLCall } from "./costTracker";
+import {
+  DEFAULT_GHL_FIELD_MAPPING,
+  GHLFieldMappingEntry,
+  GHLSyncValues,
+  buildMappedGHLCustomFields,
+  splitName,
+} from "./ghlTransformers";
+import { getClientFieldMapping, getLocationFieldDefinitions, resolveCustomFieldValues } from "./ghlFieldMapping";
+import { ImportActivityInput, postImportActivity } from "./ghlContactActivity";
+import type { BundleDocument } from "./documentBundles";
+import type { SourceFile } from "./batchClusters";
+import { LLMCallInfo, LLMProvider } from "./llmProvider";
+import { ChunkingReport, parseCVInChunks } from "./chunkedParse";
+import {
+  ParseValidationReport,
+  ParsedCV,
+  getEmptyParsedCV,
+  getUnparseableReport,
+  validateParsedCV,
+} from "./parsedCVSchema";
+
+// ============================================
+// TYPES
+// ============================================
+
+// A candidates row (select=*) - the parsed CV plus pipeline bookkeeping
+export interface CandidateRecord extends ParsedCV {
+  id: string;
+  client_id: string | null;
+  ghl_contact_id: string | null;
+  cv_file_path: string | null;
+  batch_id: string | null;
+  status: CandidateStatus;
+  parse_model: string | null;
+  parse_validation: ParseValidationReport | null;
+  parse_chunking: ChunkingReport | null;
+  source_files: SourceFile[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GHLSyncInput {
+  candidateId: string;
+  data: ParsedCV;
+  cvFilePath: string | null;
+  fileName: string;
+  batchId?: string;
+  clientId?: string | null; // Picks the client's GHL field mapping
+  correlationId: string;
+  existingContactId?: string | null; // Skip the GHL search when already known
+  createNewContact?: boolean; // Reviewer chose "create new" - skip the GHL search, never match
+  supportingDocuments?: BundleDocument[]; // Cover letter, references... from the CV's bundle
+  // Set on imports: posts the import note + follow-up task
+  importActivity?: Pick<ImportActivityInput, "classification" | "parseValidation" | "parseChunking" | "colleague">;
+}
+
+export interface GHLContactMatch {
+  id: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  matched_on: Array<"email" | "phone">;
+}
+
+export interface GHLContactLookup {
+  status: "none" | "match" | "ambiguous";
+  contactId: string | null; // Set only for a single verified match
+  matches: GHLContactMatch[];
+}
+
+export interface GHLSyncResult {
+  ghlContactId: string;
+  created: boolean;
+  cvFileUrl: string | null;
+  coverLetterUrl: string | null;
+  otherDocsUrl: string | null;
+  documents: DocumentAttachmentResult[];
+}
+
+export type CandidateDocumentKind = "cv" | SupportingDocumentType;
+
+export interface DocumentAttachmentResult {
+  kind: CandidateDocumentKind;
+  success: boolean;
+  // custom_field = attached to the contact's file field; media_library = URL written to the field
+  method: "custom_field" | "media_library" | null;
+  fileUrl: string | null;
+  storagePath: string;
+  error?: string;
+}
+
+// ============================================
+// HELPER
+// ============================================
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ============================================
+// LLM - QUICK PARSE (contact info only)
+// ============================================
+
+export async function quickParse(
+  llm: LLMProvider,
+  rawText: string
+): Promise<{ data: Pick<ParsedCV, "full_name" | "email" | "phone">; call: LLMCallInfo; parsed: boolean }> {
+  const sampleText = rawText.substring(0, PROCESSING_CONFIG.MAX_TEXT_LENGTH_FOR_PARSE);
+
+  const prompt = `Extract ONLY the following fields from this CV/resume. Return ONLY valid JSON in this exact format:
+
+{
+  "full_name": "string or null",
+  "email": "string or null",
+  "phone": "string or null"
+}
+
+CV Text:
+${sampleText}
+
+Return ONLY the JSON object, no other text.`;
+
+  const { text: cleaned, model, usage } = await llm.generateJson({ operation: "quick_parse", prompt });
+  const call = { model, usage };
+
+  try {
+    const { data } = validateParsedCV(JSON.parse(cleaned));
+    return { data: { full_name: data.full_name, email: data.email, phone: data.phone }, call, parsed: true };
+  } catch {
+    logger.warn("Failed to parse Gemini quick parse output", {
+      model,
+      outputPreview: truncateForLog(cleaned, 500),
+    });
+    return { data: { full_name: null, email: null, phone: null }, call, parsed: false };
+  }
+}
+
+// ============================================
+// LLM - FULL PARSE (all 51 fields)
+// ============================================
+
+/**
+ * Full parse of any length of CV - long CVs are parsed section-chunk by
+ * section-chunk and merged (one model call per chunk)
+ */
+export async function fullParse(
+  llm: LLMProvider,
+  rawText: string
+): Promise<{
+  data: ParsedCV;
+  calls: LLMCallInfo[];
+  validation: ParseValidationReport;
+  chunking: ChunkingReport;
+}> {
+  const { data, validation, results, chunking } = await parseCVInChunks(rawText, (chunkText, index, count) =>
+    fullParseChunk(llm, chunkText, index, count)
+  );
+
+  return { data, calls: results.map((r) => r.call), validation, chunking };
+}
+
+async function fullParseChunk(
+  llm: LLMProvider,
+  chunkText: string,
+  chunkIndex: number,
+  chunkCount: number
+): Promise<{ data: ParsedCV; call: LLMCallInfo; validation: ParseValidationReport }> {
+  const partNote =
+    chunkCount > 1
+      ? `\nThis is part ${chunkIndex + 1} of ${chunkCount} of a long CV. Extract only what appears in this part - use null or [] for anything not in it.\n`
+      : "";
+
+  const prompt = `Extract ALL structured data from this CV/resume. Return ONLY valid JSON in this exact format:
+
+{
+  "full_name": "string or null",
+  "email": "string or null",
+  "phone": "string or null",
+  "address": "string or null",
+  "linkedin_url": "string or null",
+  "date_of_birth": "YYYY-MM-DD or null",
+  "nationality": "string or null",
+  "visa_work_permit": "string or null",
+  "professional_summary": "string or null",
+  "future_job_aspirations": "string or null",
+  "work_history": [
+    {
+      "job_title": "string",
+      "company_name": "string",
+      "company_location": "string or null",
+      "start_date": "string",
+      "end_date": "string or Present",
+      "employment_type": "string or null",
+      "duties_responsibilities": "string or null",
+      "achievements": "string or null",
+      "reason_for_leaving": "string or null"
+    }
+  ],
+  "education": [
+    {
+      "qualification_name": "string",
+      "institution_name": "string",
+      "start_date": "string or null",
+      "end_date": "string or null",
+      "grade_classification": "string or null",
+      "honours_awards": "string or null",
+      "dissertation_thesis": "string or null",
+      "extracurricular": "string or null"
+    }
+  ],
+  "skills": ["string"],
+  "certifications": [
+    {
+      "name": "string",
+      "issuing_organisation": "string or null",
+      "date_obtained": "string or null",
+      "expiry_date": "string or null",
+      "certification_id": "string or null"
+    }
+  ],
+  "driving_licence": "string or null",
+  "languages": [
+    {
+      "language": "string",
+      "proficiency": "string or null",
+      "reading": "string or null",
+      "writing": "string or null",
+      "speaking": "string or null",
+      "certifications": "string or null"
+    }
+  ],
+  "training_courses": ["string"],
+  "professional_memberships": ["string"],
+  "awards_honours": ["string"],
+  "volunteering": ["string"],
+  "interests_hobbies": ["string"],
+  "candidate_references": ["string"],
+  "military_service": "string or null",
+  "salary_expectation": "string or null",
+  "notice_period": "string or null",
+  "availability_start_date": "YYYY-MM-DD or null",
+  "relocation_willingness": "string or null",
+  "remote_work_preference": "string or null",
+  "cv_summary": "string or null"
+}
+
+${partNote}
+CV Text:
+${chunkText}
+
+Return ONLY the JSON object, no other text.`;
+
+  const { text: cleaned, model, usage } = await llm.generateJson({ operation: "full_parse", prompt });
+  const call = { model, usage };
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(cleaned);
+  } catch {
+    logger.error("Failed to parse Gemini full parse output", {
+      model,
+      chunkIndex,
+      outputPreview: truncateForLog(cleaned, 1000),
+    });
+    return { data: getEmptyParsedCV(), call, validation: getUnparseableReport() };
+  }
+
+  // Repair/drop malformed fields before they reach Supabase or the GHL transformers
+  const { data, report } = validateParsedCV(parsed);
+  if (report.issues.length > 0) {
+    logger.warn("⚠️ Full parse output needed repair", {
+      model,
+      chunkIndex,
+      valid: report.valid,
+      issues: report.issues.slice(0, 20),
+    });
+  }
+
+  return { data, call, validation: report };
+}
+
+// ============================================
+// DUPLICATE DETECTION
+// ============================================
+
+export async function findExistingCandidate(
+  email: string | null,
+  phone: string | null
+): Promise<{ id: string; updated_at: string } | null> {
+  if (email && isValidEmail(email)) {
+    const response = await fetch(
+      `${ENV.SUPABASE_URL}/rest/v1/candidates?email=eq.${encodeURIComponent(email)}&select=id,updated_at&order=updated_at.desc&limit=1`,
+      {
+        headers: {
+          Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+          apikey: ENV.SUPABASE_SERVICE_KEY,
+        },
+      }
+    );
+
+    if (response.ok) {
+      const data = await response.json();
+      if (data.length > 0) {
+        return data[0];
+      }
+    }
+  }
+
+  if (phone) {
+    const normalized = normalizePhone(phone);
+    if (normalized) {
+      const response = await fetch(
+        `${ENV.SUPABASE_URL}/rest/v1/candidates?phone_normalized=eq.${encodeURIComponent(normalized)}&select=id,updated_at&order=updated_at.desc&limit=1`,
+        {
+          headers: {
+            Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+            apikey: ENV.SUPABASE_SERVICE_KEY,
+          },
+        }
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        if (data.length > 0) {
+          return data[0];
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Contacts GHL returns for one exact field (filter search, falling back to
+ * the duplicate-search endpoint). Unverified - callers check equality.
+ */
+async function searchGHLContacts(
+  field: "email" | "phone",
+  value: string,
+  accessToken: string
+): Promise<any[]> {
+  const searchResponse = await fetch(`${GHL_CONFIG.BASE_URL}/contacts/search`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+      Version: GHL_CONFIG.API_VERSION,
+    },
+    body: JSON.stringify({
+      locationId: ENV.GHL_LOCATION_ID,
+      pageLimit: GHL_CONFIG.CONTACT_SEARCH_PAGE_LIMIT,
+      filters: [{ field, operator: "eq", value }],
+    }),
+  });
+
+  if (searchResponse.ok) {
+    const data = await searchResponse.json();
+    return Array.isArray(data?.contacts) ? data.contacts : [];
+  }
+
+  logger.warn("GHL contact search failed - trying duplicate search", {
+    field,
+    status: searchResponse.status,
+  });
+
+  const param = field === "email" ? "email" : "number";
+  const duplicateResponse = await fetch(
+    `${GHL_CONFIG.BASE_URL}/contacts/search/duplicate?locationId=${ENV.GHL_LOCATION_ID}&${param}=${encodeURIComponent(value)}`,
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Version: GHL_CONFIG.API_VERSION,
+      },
+    }
+  );
+
+  if (!duplicateResponse.ok) {
+    const t = await duplicateResponse.text();
+    throw new Error(`GHL duplicate search failed: ${duplicateResponse.status} - ${t.slice(0, 300)}`);
+  }
+
+  const data = await duplicateResponse.json();
+  return data?.contact ? [data.contact] : [];
+}
+
+/**
+ * Look up the GHL contact for a candidate by exact email / phone.
+ * Every hit is verified (case-insensitive email, normalizePhone) and more
+ * than one distinct verified contact is reported as ambiguous, not picked.
+ */
+export async function findExistingGHLContact(
+  email: string | null,
+  phone: string | null,
+  accessToken: string
+): Promise<GHLContactLookup> {
+  const targetEmail = email && isValidEmail(email) ? email.trim().toLowerCase() : null;
+  const targetPhone = phone ? normalizePhone(phone) : null;
+  const matches = new Map<string, GHLContactMatch>();
+
+  const addMatch = (contact: any, matchedOn: "email" | "phone") => {
+    const existing = matches.get(contact.id);
+    if (existing) {
+      if (!existing.matched_on.includes(matchedOn)) existing.matched_on.push(matchedOn);
+      return;
+    }
+    matches.set(contact.id, {
+      id: contact.id,
+      name: contact.contactName || [contact.firstName, contact.lastName].filter(Boolean).join(" ") || null,
+      email: contact.email || null,
+      phone: contact.phone || null,
+      matched_on: [matchedOn],
+    });
+  };
+
+  if (targetEmail) {
+    for (const contact of await searchGHLContacts("email", targetEmail, accessToken)) {
+      if (contact?.id && String(contact.email || "").trim().toLowerCase() === targetEmail) {
+        addMatch(contact, "email");
+      }
+    }
+  }
+
+  if (targetPhone) {
+    for (const contact of await searchGHLContacts("phone", `+${targetPhone}`, accessToken)) {
+      if (contact?.id && normalizePhone(contact.phone) === targetPhone) {
+        addMatch(contact, "phone");
+      }
+    }
+  }
+
+  const verified = [...matches.values()];
+
+  if (verified.length > 1) {
+    logger.warn("⚠️ Ambiguous GHL contact match", {
+      matches: verified.map((m) => ({ id: m.id, matched_on: m.matched_on })),
+    });
+    return { status: "ambiguous", contactId: null, matches: verified };
+  }
+
+  return verified.length === 1
+    ? { status: "match", contactId: verified[0].id, matches: verified }
+    : { status: "none", contactId: null, matches: [] };
+}
+
+// ============================================
+// GHL OPERATIONS
+// ============================================
+
+export async function createGHLContact(data: ParsedCV, accessToken: string): Promise<string> {
+  const { firstName, lastName } = splitName(data.full_name);
+
+  const email = data.email && isValidEmail(data.email) ? data.email.trim() : undefined;
+  const phone = data.phone ? normalizePhone(data.phone) ?? undefined : undefined;
+
+  const basePayload: any = {
+    firstName: firstName || "Unknown",
+    lastName: lastName || "",
+    locationId: ENV.GHL_LOCATION_ID,
+    tags: GHL_CONFIG.DEFAULT_TAGS,
+  };
+
+  const variants: any[] = [
+    { ...basePayload, ...(email ? { email } : {}), ...(phone ? { phone } : {}) },
+    { ...basePayload, ...(email ? { email } : {}) },
+    { ...basePayload, ...(phone ? { phone } : {}) },
+    { ...basePayload },
+  ];
+
+  const url = `${GHL_CONFIG.BASE_URL}/contacts/`;
+  const maxAttempts = GHL_CONFIG.MAX_RETRIES;
+
+  for (const payload of variants) {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            "Content-Type": "application/json",
+            Version: GHL_CONFIG.API_VERSION,
+          },
+          body: JSON.stringify(payload),
+        });
+
+        const bodyText = await response.text();
+
+        if (response.ok) {
+          let result: any;
+          try {
+            result = JSON.parse(bodyText);
+          } catch {
+            throw new Error(`GHL returned non-JSON: ${bodyText.slice(0, 400)}`);
+          }
+
+          const id = result?.contact?.id;
+          if (!id) {
+            throw new Error(`GHL succeeded but missing contact.id: ${bodyText.slice(0, 800)}`);
+          }
+
+          logger.info("GHL contact created successfully", { contactId: id });
+          return id;
+        }
+
+        const status = response.status;
+        const retryable = isRetryableStatus(status, GHL_CONFIG.RETRYABLE_STATUS_CODES);
+
+        if (!retryable) break;
+        if (attempt === maxAttempts) break;
+
+        const waitMs = getRetryDelay(attempt, GHL_CONFIG);
+        await delay(waitMs);
+      } catch (error: any) {
+        if (attempt === maxAttempts) {
+          throw error;
+        }
+        const waitMs = getRetryDelay(attempt, GHL_CONFIG);
+        await delay(waitMs);
+      }
+    }
+  }
+
+  throw new Error("GHL contact creation failed after trying payload variants");
+}
+
+export async function updateGHLContact(
+  contactId: string,
+  data: ParsedCV,
+  candidateId: string | undefined,
+  cvFileUrl: string | null | undefined,
+  coverLetterUrl: string | null | undefined,
+  otherDocsUrl: string | null | undefined,
+  accessToken: string,
+  fieldMapping: GHLFieldMappingEntry[] = DEFAULT_GHL_FIELD_MAPPING
+): Promise<void> {
+  // Field ids + values in each field's format (checkbox, options, number...).
+  // Fields without a value are left out so existing GHL data is kept.
+  const customFields = await resolveCustomFieldValues(
+    buildMappedGHLCustomFields(fieldMapping, data, {
+      candidate_id: candidateId,
+      cv_file_url: cvFileUrl,
+      cover_letter_url: coverLetterUrl,
+      other_docs_url: otherDocsUrl,
+    })
+  );
+  if (customFields.length === 0) return;
+
+  const response = await fetch(`${GHL_CONFIG.BASE_URL}/contacts/${contactId}`, {
+    method: "PUT",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+      Version: GHL_CONFIG.API_VERSION,
+    },
+    body: JSON.stringify({ customFields }),
+  });
+
+  if (!response.ok) {
+    const txt = await response.text();
+    throw new Error(`GHL contact update failed: ${txt.slice(0, 800)}`);
+  }
+}
+
+/**
+ * Update only the mapped fields fed by the given sources - unlike
+ * updateGHLContact, the contact's other fields are left as they are
+ */
+export async function updateGHLContactFields(
+  contactId: string,
+  sources: string[],
+  data: Partial<ParsedCV>,
+  syncValues: GHLSyncValues,
+  accessToken: string,
+  fieldMapping: GHLFieldMappingEntry[] = DEFAULT_GHL_FIELD_MAPPING
+): Promise<number> {
+  const customFields = await resolveCustomFieldValues(
+    buildMappedGHLCustomFields(
+      fieldMapping.filter((entry) => entry.source && sources.includes(entry.source)),
+      data,
+      syncValues
+    ).filter((field) => field.value)
+  );
+  if (customFields.length === 0) return 0;
+
+  const response = await fetch(`${GHL_CONFIG.BASE_URL}/contacts/${contactId}`, {
+    method: "PUT",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+      Version: GHL_CONFIG.API_VERSION,
+    },
+    body: JSON.stringify({ customFields }),
+  });
+
+  if (!response.ok) {
+    const txt = await response.text();
+    throw new Error(`GHL contact update failed: ${txt.slice(0, 800)}`);
+  }
+  return customFields.length;
+}
+
+// ============================================
+// GHL FILE ATTACHMENTS
+// ============================================
+// Files go into the contact's FILE_UPLOAD custom field (mapped from
+// $cv_file_url etc.) so they sit on the contact. Without such a field
+// they fall back to the location media library + a URL in the field.
+
+export function guessUploadMimeType(filename: string): string {
+  const ext = filename.split(".").pop()?.toLowerCase();
+  if (ext === "pdf") return "application/pdf";
+  if (ext === "docx")
+    return "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+  if (ext === "doc") return "application/msword";
+  if (ext === "txt") return "text/plain";
+  if (ext === "rtf") return "application/rtf";
+  if (ext === "odt") return "application/vnd.oasis.opendocument.text";
+  if (ext === "jpg" || ext === "jpeg") return "image/jpeg";
+  if (ext === "png") return "image/png";
+  return "application/octet-stream";
+}
+
+export function encodeStoragePath(path: string): string {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+/**
+ * Sync value a document type fills in the field mapping - everything that
+ * isn't the CV or cover letter shares the "other documents" field
+ */
+function documentSyncSource(kind: CandidateDocumentKind): "$cv_file_url" | "$cover_letter_url" | "$other_docs_url" {
+  if (kind === "cv") return "$cv_file_url";
+  if (kind === "cover_letter") return "$cover_letter_url";
+  return "$other_docs_url";
+}
+
+export async function downloadStorageFile(path: string): Promise<ArrayBuffer | null> {
+  const response = await fetch(
+    `${ENV.SUPABASE_URL}/storage/v1/object/${SUPABASE_CONFIG.STORAGE_BUCKET}/${encodeStoragePath(path)}`,
+    {
+      headers: {
+        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+        apikey: ENV.SUPABASE_SERVICE_KEY,
+      },
+    }
+  );
+
+  if (!response.ok) return null;
+  return await response.arrayBuffer();
+}
+
+/**
+ * The contact's FILE_UPLOAD custom field for a document kind, if the
+ * mapping targets one that exists on the location
+ */
+async function findFileUploadFieldId(
+  kind: CandidateDocumentKind,
+  fieldMapping: GHLFieldMappingEntry[]
+): Promise<string | null> {
+  const entry = fieldMapping.find((e) => e.source === documentSyncSource(kind));
+  if (!entry) return null;
+
+  try {
+    const definitions = await getLocationFieldDefinitions();
+    const field = entry.ghl_field_id
+      ? definitions.byId.get(entry.ghl_field_id)
+      : definitions.byKey.get((entry.ghl_key || "").replace(/^contact\./, ""));
+    return field?.dataType === "FILE_UPLOAD" ? field.id : null;
+  } catch (error: any) {
+    logger.warn("GHL custom field definitions unavailable - using media library", { error: error.message });
+    return null;
+  }
+}
+
+function buildUploadBlob(fileBuffer: ArrayBuffer, mimeType: string): any {
+  const BlobCtor = (globalThis as any).Blob;
+  if (!BlobCtor || !(globalThis as any).FormData) {
+    throw new Error("Blob/FormData not available in this runtime");
+  }
+  return new BlobCtor([fileBuffer], { type: mimeType });
+}
+
+/**
+ * Upload straight into a contact's file custom field (attached to the contact)
+ */
+async function uploadToContactField(
+  contactId: string,
+  fieldId: string,
+  fileBuffer: ArrayBuffer,
+  fileName: string,
+  mimeType: string,
+  accessToken: string
+): Promise<string | null> {
+  const formData = new (globalThis as any).FormData();
+  // GHL expects "<custom field id>_<file id>" as the form key
+  formData.append(`${fieldId}_${randomUUID()}`, buildUploadBlob(fileBuffer, mimeType), fileName);
+
+  const response = await fetch(
+    `${GHL_CONFIG.BASE_URL}/forms/upload-custom-files?contactId=${contactId}&locationId=${ENV.GHL_LOCATION_ID}`,
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Version: GHL_CONFIG.API_VERSION,
+      },
+      body: formData,
+    }
+  );
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`GHL custom field file upload failed: ${response.status} - ${t.slice(0, 800)}`);
+  }
+
+  const result = await response.json().catch(() => null);
+  const uploaded = result?.[fieldId] || result?.meta?.[fieldId] || result;
+  return uploaded?.url || uploaded?.fileUrl || null;
+}
+
+/**
+ * Location media library upload - not linked to the contact, so the URL
+ * has to be written into the custom field afterwards
+ */
+async function uploadToMediaLibrary(
+  fileBuffer: ArrayBuffer,
+  fileName: string,
+  mimeType: string,
+  accessToken: string
+): Promise<string | null> {
+  const formData = new (globalThis as any).FormData();
+  formData.append("file", buildUploadBlob(fileBuffer, mimeType), fileName);
+  formData.append("name", fileName);
+
+  const response = await fetch(`${GHL_CONFIG.BASE_URL}/medias/upload-file`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Version: GHL_CONFIG.API_VERSION,
+    },
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`GHL media upload failed: ${response.status} - ${t.slice(0, 800)}`);
+  }
+
+  const result = await response.json();
+  return result?.url || result?.fileUrl || result?.publicUrl || null;
+}
+
+/**
+ * Attach one stored file to the GHL contact and record it in candidate_documents
+ */
+export async function attachDocumentToGHL(args: {
+  contactId: string;
+  candidateId: string;
+  kind: CandidateDocumentKind;
+  storagePath: string;
+  fileName: string; // Original filename - GHL shows the file under this name
+  mimeType?: string;
+  fileBuffer: ArrayBuffer;
+  fieldMapping: GHLFieldMappingEntry[];
+  accessToken: string;
+}): Promise<DocumentAttachmentResult> {
+  const { contactId, candidateId, kind, storagePath, fileName, fileBuffer, fieldMapping, accessToken } = args;
+  const mimeType = args.mimeType || guessUploadMimeType(fileName);
+
+  try {
+    const fieldId = await findFileUploadFieldId(kind, fieldMapping);
+    const method: DocumentAttachmentResult["method"] = fieldId ? "custom_field" : "media_library";
+    const fileUrl = fieldId
+      ? await uploadToContactField(contactId, fieldId, fileBuffer, fileName, mimeType, accessToken)
+      : await uploadToMediaLibrary(fileBuffer, fileName, mimeType, accessToken);
+
+    await recordCandidateDocument({
+      candidate_id: candidateId,
+      document_type: kind,
+      storage_path: storagePath,
+      original_name: fileName,
+      mime_type: mimeType,
+      ghl_contact_id: contactId,
+      ghl_custom_field_id: fieldId,
+      ghl_file_url: fileUrl,
+      upload_method: method,
+    });
+
+    return { kind, success: true, method, fileUrl, storagePath };
+  } catch (error: any) {
+    logger.warn("⚠️ Failed to attach document to GHL contact", {
+      contactId,
+      kind,
+      storagePath,
+      error: error?.message ?? String(error),
+    });
+    return { kind, success: false, method: null, fileUrl: null, storagePath, error: error?.message ?? String(error) };
+  }
+}
+
+/**
+ * Attach the CV plus every supporting document in its bundle
+ */
+export async function attachCandidateDocuments(args: {
+  contactId: string;
+  candidateId: string;
+  cvFilePath: string;
+  fileName: string;
+  supportingDocuments: BundleDocument[];
+  fieldMapping: GHLFieldMappingEntry[];
+  accessToken: string;
+  batchId?: string;
+}): Promise<DocumentAttachmentResult[]> {
+  const { cvFilePath, fileName, supportingDocuments, batchId } = args;
+  const results: DocumentAttachmentResult[] = [];
+
+  const cvBuffer = await downloadStorageFile(cvFilePath);
+  if (!cvBuffer) {
+    results.push({
+      kind: "cv",
+      success: false,
+      method: null,
+      fileUrl: null,
+      storagePath: cvFilePath,
+      error: "Failed to download CV from storage",
+    });
+  } else {
+    results.push(await attachDocumentToGHL({ ...args, kind: "cv", storagePath: cvFilePath, fileName, fileBuffer: cvBuffer }));
+    await trackGHLCall("upload_file", batchId);
+  }
+
+  for (const doc of supportingDocuments) {
+    const buffer = await downloadStorageFile(doc.path);
+    if (!buffer) {
+      results.push({
+        kind: doc.type,
+        success: false,
+        method: null,
+        fileUrl: null,
+        storagePath: doc.path,
+        error: "Failed to download document from storage",
+      });
+      continue;
+    }
+
+    results.push(
+      await attachDocumentToGHL({
+        ...args,
+        kind: doc.type,
+        storagePath: doc.path,
+        fileName: doc.name,
+        mimeType: doc.mime_type,
+        fileBuffer: buffer,
+      })
+    );
+    await trackGHLCall("upload_file", batchId);
+  }
+
+  return results;
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+export async function writeCandidate(candidateData: any): Promise<string> {
+  const maxAttempts = SUPABASE_CONFIG.MAX_RETRIES;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/candidates`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+          apikey: ENV.SUPABASE_SERVICE_KEY,
+          "Content-Type": "application/json",
+          Prefer: "return=representation",
+        },
+        body: JSON.stringify(candidateData),
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        const id = result?.[0]?.id;
+        if (!id) throw new Error("Candidate insert succeeded but no id returned");
+        return id;
+      }
+
+      const errorText = await response.text();
+
+      if (attempt === maxAttempts) {
+        throw new Error(`Failed to write candidate: ${errorText.slice(0, 800)}`);
+      }
+
+      logger.warn("Retrying candidate insert", { attempt });
+      await delay(getRetryDelay(attempt, SUPABASE_CONFIG));
+    } catch (error: any) {
+      if (attempt === maxAttempts) {
+        throw error;
+      }
+      logger.warn("Candidate insert exception", {
+        attempt,
+        error: error.message,
+      });
+      await delay(getRetryDelay(attempt, SUPABASE_CONFIG));
+    }
+  }
+
+  throw new Error("Failed to write candidate after retries");
+}
+
+export async function updateCandidateGHL(
+  candidateId: string,
+  ghlContactId: string | null,
+  status: string
+): Promise<void> {
+  const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/candidates?id=eq.${candidateId}`, {
+    method: "PATCH",
+    headers: {
+      Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+      apikey: ENV.SUPABASE_SERVICE_KEY,
+      "Content-Type": "application/json",
+      Prefer: "return=minimal",
+    },
+    body: JSON.stringify({
+      ghl_contact_id: ghlContactId,
+      status: status,
+    }),
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`Failed to update candidate GHL/status: ${t.slice(0, 800)}`);
+  }
+}
+
+export async function updateCandidate(candidateId: string, updateData: any): Promise<void> {
+  const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/candidates?id=eq.${candidateId}`, {
+    method: "PATCH",
+    headers: {
+      Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+      apikey: ENV.SUPABASE_SERVICE_KEY,
+      "Content-Type": "application/json",
+      Prefer: "return=minimal",
+    },
+    body: JSON.stringify(updateData),
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`Failed to update candidate: ${t.slice(0, 800)}`);
+  }
+}
+
+/**
+ * Record a file attached to a GHL contact (one row per candidate + stored file)
+ */
+export async function recordCandidateDocument(row: Record<string, any>): Promise<void> {
+  const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/candidate_documents?on_conflict=candidate_id,storage_path`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+      apikey: ENV.SUPABASE_SERVICE_KEY,
+      "Content-Type": "application/json",
+      Prefer: "resolution=merge-duplicates,return=minimal",
+    },
+    body: JSON.stringify({ ...row, uploaded_at: new Date().toISOString() }),
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`Failed to record candidate document: ${t.slice(0, 800)}`);
+  }
+}
+
+export async function fetchCandidateById(candidateId: string): Promise<CandidateRecord | null> {
+  const response = await fetch(
+    `${ENV.SUPABASE_URL}/rest/v1/candidates?id=eq.${encodeURIComponent(candidateId)}&select=*&limit=1`,
+    {
+      headers: {
+        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+        apikey: ENV.SUPABASE_SERVICE_KEY,
+      },
+    }
+  );
+
+  // A non-UUID id (e.g. a GHL contact id) is a 400 from PostgREST - treat as not found
+  if (!response.ok) return null;
+
+  const data = await response.json();
+  return data[0] || null;
+}
+
+export async function findCandidateByGHLContactId(ghlContactId: string): Promise<CandidateRecord | null> {
+  const response = await fetch(
+    `${ENV.SUPABASE_URL}/rest/v1/candidates?ghl_contact_id=eq.${encodeURIComponent(ghlContactId)}&select=*&order=updated_at.desc&limit=1`,
+    {
+      headers: {
+        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+        apikey: ENV.SUPABASE_SERVICE_KEY,
+      },
+    }
+  );
+
+  if (!response.ok) return null;
+
+  const data = await response.json();
+  return data[0] || null;
+}
+
+// ============================================
+// GHL SYNC STEP
+// ============================================
+
+/**
+ * Find or create the GHL contact, attach the CV and any cover letter /
+ * other documents, then write every custom field. Throws if the contact
+ * can't be created or updated, or if several GHL contacts match (the error
+ * carries `ghlMatches`) - uploads failing only log a warning.
+ */
+export async function syncCandidateToGHL(input: GHLSyncInput): Promise<GHLSyncResult> {
+  const { candidateId, data, cvFilePath, fileName, batchId, correlationId } = input;
+  const accessToken = ENV.GHL_PRIVATE_KEY;
+
+  let ghlContactId: string;
+  let created = false;
+
+  if (input.existingContactId) {
+    ghlContactId = input.existingContactId;
+    logger.info("📝 Updating known GHL contact", { correlationId, ghlContactId });
+  } else if (input.createNewContact) {
+    ghlContactId = await createGHLContact(data, accessToken);
+    created = true;
+    await trackGHLCall("create_contact", batchId);
+    logger.info("✅ Created new GHL contact (duplicate ignored)", { correlationId, ghlContactId });
+  } else {
+    const lookup = await findExistingGHLContact(data.email, data.phone, accessToken);
+    await trackGHLCall("search_contact", batchId);
+
+    if (lookup.status === "ambiguous") {
+      // Never guess which contact the CV belongs to
+      const ambiguous: any = new Error(
+        `Ambiguous GHL match: ${lookup.matches.length} contacts share this email/phone`
+      );
+      ambiguous.ghlMatches = lookup.matches;
+      throw ambiguous;
+    }
+
+    if (lookup.contactId) {
+      ghlContactId = lookup.contactId;
+      logger.info("📝 Updating existing GHL contact", { correlationId, ghlContactId });
+    } else {
+      ghlContactId = await createGHLContact(data, accessToken);
+      created = true;
+      await trackGHLCall("create_contact", batchId);
+      logger.info("✅ Created new GHL contact", { correlationId, ghlContactId });
+    }
+  }
+
+  const fieldMapping = await getClientFieldMapping(input.clientId);
+  let documents: DocumentAttachmentResult[] = [];
+
+  if (cvFilePath) {
+    // Attach the CV + its supporting documents to the contact
+    documents = await attachCandidateDocuments({
+      contactId: ghlContactId,
+      candidateId,
+      cvFilePath,
+      fileName,
+      supportingDocuments: input.supportingDocuments || [],
+      fieldMapping,
+      accessToken,
+      batchId,
+    });
+
+    const cvResult = documents.find((d) => d.kind === "cv");
+    if (!cvResult?.success) {
+      logger.warn("⚠️ CV file upload failed", {
+        correlationId,
+        ghlContactId,
+        error: cvResult?.error,
+      });
+    } else {
+      logger.info("✅ CV file attached to GHL contact", {
+        correlationId,
+        ghlContactId,
+        method: cvResult.method,
+        fileUrl: cvResult.fileUrl,
+      });
+    }
+  }
+
+  // One URL per mapped field: the first document synced to it.
+  // Files in the contact's file fields are already set - only media library URLs get written
+  const firstFor = (source: ReturnType<typeof documentSyncSource>) =>
+    documents.find((d) => d.success && documentSyncSource(d.kind) === source);
+  const fieldUrl = (source: ReturnType<typeof documentSyncSource>) => {
+    const doc = firstFor(source);
+    return doc?.method === "media_library" ? doc.fileUrl : null;
+  };
+  const cvFileUrl = firstFor("$cv_file_url")?.fileUrl || null;
+  const coverLetterUrl = firstFor("$cover_letter_url")?.fileUrl || null;
+  const otherDocsUrl = firstFor("$other_docs_url")?.fileUrl || null;
+
+  // Update GHL contact with all fields + file URLs
+  await updateGHLContact(
+    ghlContactId,
+    data,
+    candidateId,
+    fieldUrl("$cv_file_url"),
+    fieldUrl("$cover_letter_url"),
+    fieldUrl("$other_docs_url"),
+    accessToken,
+    fieldMapping
+  );
+  await trackGHLCall("update_contact", batchId);
+
+  logger.info("✅ GHL contact updated with full data", {
+    correlationId,
+    ghlContactId,
+    documentsAttached: documents.filter((d) => d.success).map((d) => `${d.kind}:${d.method}`),
+  });
+
+  if (input.importActivity) {
+    await postImportActivity(
+      { ...input.importActivity, candidateId, ghlContactId, batchId, fileName, correlationId },
+      accessToken
+    );
+  }
+
+  return { ghlContactId, created, cvFileUrl, coverLetterUrl, otherDocsUrl, documents };
+}
@@ -0,0 +1,251 @@
+// ============================================
+// CHUNKED CV PARSE
+// ============================================
+// Long CVs (senior candidates, academic CVs) don't fit in one parse:
+// - Split the text on section headings into parse-sized chunks
+// - Parse each chunk separately
+// - Merge the results, de-duplicating work history / education /
+//   certifications, and record which chunks supplied each field
+
+import { logger } from "@trigger.dev/sdk";
+import { PROCESSING_CONFIG } from "./config";
+import {
+  FieldValidationStatus,
+  ParseValidationReport,
+  ParsedCV,
+  getEmptyParsedCV,
+  getListItemKey,
+} from "./parsedCVSchema";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CVChunk {
+  index: number;
+  text: string;
+  sections: string[]; // Headings included in this chunk ("header" = text before the first heading)
+}
+
+export interface ChunkingReport {
+  chunk_count: number;
+  text_length: number;
+  truncated: boolean; // true when MAX_PARSE_CHUNKS cut off the end of the CV
+  chunks: Array<{ index: number; length: number; sections: string[] }>;
+  field_sources: Record<string, number[]>; // field -> chunk indexes that contributed
+}
+
+interface Section {
+  heading: string;
+  text: string;
+}
+
+// Headings seen on UK CVs - matched against whole, short lines only
+const SECTION_HEADING_REGEX =
+  /^(?:(?:personal |professional |career |executive )?(?:profile|summary|statement)|about me|objective|(?:work |employment |professional |career |relevant )?(?:history|experience)|employment|career history|education(?: (?:and|&) training)?|academic (?:background|qualifications)|qualifications|certifications?|(?:professional )?(?:certificates|accreditations)|(?:key |technical |core )?(?:skills|competencies)|training(?: (?:and|&) development)?|courses|languages|interests|hobbies(?: (?:and|&) interests)?|references|referees|volunteering|voluntary work|awards|achievements|(?:professional )?memberships|projects|publications|additional information)$/i;
+
+// ============================================
+// SPLITTING
+// ============================================
+
+function isHeadingLine(line: string): boolean {
+  const trimmed = line.trim().replace(/[:\-–|]+$/, "").trim();
+  if (!trimmed || trimmed.length > 50) return false;
+  return SECTION_HEADING_REGEX.test(trimmed);
+}
+
+/**
+ * Split CV text into sections on recognised headings
+ */
+function splitIntoSections(text: string): Section[] {
+  const sections: Section[] = [];
+  let current: Section = { heading: "header", text: "" };
+
+  for (const line of text.split("\n")) {
+    if (isHeadingLine(line)) {
+      if (current.text.trim()) sections.push(current);
+      current = { heading: line.trim().replace(/[:\-–|]+$/, "").trim(), text: line + "\n" };
+    } else {
+      current.text += line + "\n";
+    }
+  }
+  if (current.text.trim()) sections.push(current);
+
+  return sections;
+}
+
+/**
+ * Break a section that is itself longer than a chunk on paragraph, then line, boundaries
+ */
+function splitOversizedSection(section: Section, maxLength: number): Section[] {
+  const continuation = `${section.heading.toUpperCase()} (continued)\n`;
+  const pieces: Section[] = [];
+  let buffer = "";
+
+  const units = section.text.split(/\n(?=\s*\n)/).flatMap((paragraph) =>
+    paragraph.length > maxLength ? paragraph.split("\n").map((l) => l + "\n") : [paragraph + "\n"]
+  );
+
+  for (const unit of units) {
+    const piece = unit.length > maxLength ? unit.slice(0, maxLength - continuation.length) : unit;
+    if (buffer && buffer.length + piece.length > maxLength) {
+      pieces.push({ heading: section.heading, text: buffer });
+      buffer = continuation;
+    }
+    buffer += piece;
+  }
+  if (buffer.trim()) pieces.push({ heading: section.heading, text: buffer });
+
+  return pieces;
+}
+
+/**
+ * Pack sections into chunks no longer than maxLength, keeping sections whole where possible
+ */
+export function chunkCVText(text: string, maxLength: number): CVChunk[] {
+  if (text.length <= maxLength) {
+    return [{ index: 0, text, sections: ["header"] }];
+  }
+
+  const sections = splitIntoSections(text).flatMap((s) =>
+    s.text.length > maxLength ? splitOversizedSection(s, maxLength) : [s]
+  );
+
+  const chunks: CVChunk[] = [];
+  let current: CVChunk = { index: 0, text: "", sections: [] };
+
+  for (const section of sections) {
+    if (current.text && current.text.length + section.text.length > maxLength) {
+      chunks.push(current);
+      current = { index: chunks.length, text: "", sections: [] };
+    }
+    current.text += section.text;
+    if (!current.sections.includes(section.heading)) current.sections.push(section.heading);
+  }
+  if (current.text.trim()) chunks.push(current);
+
+  return chunks;
+}
+
+// ============================================
+// MERGING
+// ============================================
+
+/**
+ * Merge per-chunk parse results. Scalars come from the first chunk that has
+ * them; lists are concatenated with duplicates removed (an entry cut across
+ * a chunk boundary has its empty fields filled from the other half).
+ */
+export function mergeParsedChunks(results: ParsedCV[]): {
+  data: ParsedCV;
+  field_sources: Record<string, number[]>;
+} {
+  const merged = getEmptyParsedCV() as any;
+  const fieldSources: Record<string, number[]> = {};
+
+  const addSource = (field: string, index: number) => {
+    fieldSources[field] = fieldSources[field] || [];
+    if (!fieldSources[field].includes(index)) fieldSources[field].push(index);
+  };
+
+  results.forEach((result, index) => {
+    for (const field of Object.keys(merged) as Array<keyof ParsedCV>) {
+      const value = (result as any)[field];
+
+      if (Array.isArray(merged[field])) {
+        if (!Array.isArray(value)) continue;
+
+        for (const item of value) {
+          const key = getListItemKey(field, item);
+          const existing = merged[field].find((m: any) => getListItemKey(field, m) === key);
+
+          if (!existing) {
+            merged[field].push(item);
+            addSource(field, index);
+          } else if (existing && typeof existing === "object" && item && typeof item === "object") {
+            for (const [k, v] of Object.entries(item)) {
+              if ((existing[k] === null || existing[k] === undefined) && v !== null && v !== undefined) {
+                existing[k] = v;
+                addSource(field, index);
+              }
+            }
+          }
+        }
+      } else if (merged[field] === null && value !== null && value !== undefined) {
+        merged[field] = value;
+        addSource(field, index);
+      }
+    }
+  });
+
+  return { data: merged, field_sources: fieldSources };
+}
+
+/**
+ * Combine chunk validation reports: a field is as good as its best chunk
+ */
+function mergeValidationReports(reports: ParseValidationReport[]): ParseValidationReport {
+  const rank: Record<FieldValidationStatus, number> = { ok: 3, coerced: 2, dropped: 1, missing: 0 };
+  const merged: ParseValidationReport = { valid: true, fields: {}, issues: [], unknown_fields: [] };
+
+  reports.forEach((report, index) => {
+    if (!report.valid) merged.valid = false;
+    for (const [field, status] of Object.entries(report.fields)) {
+      const current = merged.fields[field];
+      if (!current || rank[status] > rank[current]) merged.fields[field] = status;
+    }
+    merged.issues.push(...report.issues.map((issue) => (reports.length > 1 ? `chunk ${index}: ${issue}` : issue)));
+    for (const field of report.unknown_fields) {
+      if (!merged.unknown_fields.includes(field)) merged.unknown_fields.push(field);
+    }
+  });
+
+  return merged;
+}
+
+// ============================================
+// ORCHESTRATION
+// ============================================
+
+/**
+ * Parse a CV of any length. Short CVs are a single chunk, so this is
+ * also the normal path; parseChunk does the actual model call.
+ */
+export async function parseCVInChunks<T extends { data: ParsedCV; validation: ParseValidationReport }>(
+  rawText: string,
+  parseChunk: (chunkText: string, chunkIndex: number, chunkCount: number) => Promise<T>
+): Promise<{ data: ParsedCV; validation: ParseValidationReport; results: T[]; chunking: ChunkingReport }> {
+  const maxLength = PROCESSING_CONFIG.MAX_TEXT_LENGTH_FOR_PARSE;
+  const allChunks = chunkCVText(rawText, maxLength);
+  const chunkLimit = PROCESSING_CONFIG.ENABLE_CHUNKED_PARSE ? PROCESSING_CONFIG.MAX_PARSE_CHUNKS : 1;
+  const chunks = allChunks.slice(0, chunkLimit);
+
+  if (allChunks.length > 1) {
+    logger.info("✂️ Long CV - parsing in chunks", {
+      textLength: rawText.length,
+      chunks: allChunks.length,
+      parsing: chunks.length,
+    });
+  }
+
+  const results: T[] = [];
+  for (const chunk of chunks) {
+    // A single chunk keeps the original behaviour of cutting at maxLength
+    results.push(await parseChunk(chunk.text.substring(0, maxLength), chunk.index, chunks.length));
+  }
+
+  const { data, field_sources } = mergeParsedChunks(results.map((r) => r.data));
+
+  return {
+    data,
+    validation: mergeValidationReports(results.map((r) => r.validation)),
+    results,
+    chunking: {
+      chunk_count: chunks.length,
+      text_length: rawText.length,
+      truncated: chunks.length < allChunks.length,
+      chunks: chunks.map((c) => ({ index: c.index, length: c.text.length, sections: c.sections })),
+      field_sources,
+    },
+  };
+}
@@ -13,7 +13,10 @@ export const ENV = {
   GEMINI_API_KEY: process.env.GEMINI_API_KEY!,
   GHL_PRIVATE_KEY: process.env.GHL_PRIVATE_INTEGRATION_KEY!,
   GHL_LOCATION_ID: process.env.GHL_LOCATION_ID!,
+  GHL_OPPORTUNITY_PIPELINE_ID: process.env.GHL_OPPORTUNITY_PIPELINE_ID, // Default pipeline for job opportunities
   CLIENT_ID: process.env.CLIENT_ID, // Optional: Set default client UUID for testing
+  LLM_PROVIDER: process.env.LLM_PROVIDER || "gemini", // "mock" runs the pipeline offline
+  LLM_FIXTURES_PATH: process.env.LLM_FIXTURES_PATH, // JSON fixtures for the mock provider
 } as const;
 
 // ============================================
@@ -39,6 +42,8 @@ export const GEMINI_CONFIG = {
   TOKENS_FULL_PARSE: 3000,
   TOKENS_CLASSIFICATION: 800,
   TOKENS_SUMMARIZATION: 500,
+  TOKENS_JOB_PARSE: 1500,
+  TOKENS_COVER_LETTER_PARSE: 1000,
   
   // Cost per 1M tokens (update these based on current pricing)
   COST_PER_1M_INPUT_TOKENS: 0.15, // $0.15 per 1M input tokens
@@ -46,6 +51,7 @@ export const GEMINI_CONFIG = {
   
   // Retry configuration
   MAX_RETRIES: 6,
+  FAILOVER_AFTER_ATTEMPTS: 3, // Primary model attempts before switching to FALLBACK_MODEL
   INITIAL_RETRY_DELAY_MS: 1200,
   MAX_RETRY_DELAY_MS: 20000,
   RETRY_JITTER_MS: 400,
@@ -78,6 +84,29 @@ export const GHL_CONFIG = {
   // Contact creation
   DEFAULT_TAGS: ["cv-imported"],
   
+  // Duplicate lookup (exact email / phone filter search)
+  CONTACT_SEARCH_PAGE_LIMIT: 10,
+  
+  // Custom field definitions (key -> id + type), fetched once per run
+  RESOLVE_CUSTOM_FIELD_IDS: true, // false = send {key, value} as-is
+  CUSTOM_FIELD_CACHE_TTL_MS: 10 * 60 * 1000,
+  
+  // Job shortlists (tag = prefix + slugified job ref / colleague name)
+  SHORTLIST_TAG_PREFIX: "shortlist-",
+  COLLEAGUE_TAG_PREFIX: "recruiter-",
+  
+  // Job opportunities (one per candidate per job, in the job's pipeline -
+  // jobs.ghl_pipeline_id / ghl_pipeline_stage_id, else the defaults below)
+  ENABLE_JOB_OPPORTUNITIES: true,
+  OPPORTUNITY_STAGE_NAME: "CV Received", // Used when the job names no stage
+  OPPORTUNITY_SCORE_FIELD_KEY: "match_score", // Opportunity custom field for the 0-10 score
+  
+  // Import note + follow-up task for the batch's colleague on every synced contact
+  ENABLE_IMPORT_NOTES: true,
+  ENABLE_FOLLOW_UP_TASKS: true,
+  FOLLOW_UP_TASK_TITLE: "Review imported CV",
+  FOLLOW_UP_TASK_DUE_HOURS: 24, // Due this long after import
+  
   // Retry on these status codes
   RETRYABLE_STATUS_CODES: [429, 500, 503],
 } as const;
@@ -151,9 +180,20 @@ export const PROCESSING_CONFIG = {
   DELAY_AFTER_GHL_CALL_MS: 300,
   
   // Text extraction
-  MAX_TEXT_LENGTH_FOR_PARSE: 8000, // Characters to send to Gemini
+  MAX_TEXT_LENGTH_FOR_PARSE: 8000, // Characters to send to Gemini (per chunk)
   MIN_TEXT_LENGTH_REQUIRED: 50, // Minimum viable CV text
   
+  // Chunked parsing (CVs longer than MAX_TEXT_LENGTH_FOR_PARSE)
+  ENABLE_CHUNKED_PARSE: true, // false = truncate to the first chunk
+  MAX_PARSE_CHUNKS: 4, // Full parse calls per CV (cost guard)
+  
+  // Merged documents (several CVs in one PDF) - split into one virtual file per CV
+  ENABLE_MULTI_CV_SPLIT: true,
+  MIN_CV_SEGMENT_LENGTH: 400, // A CV shorter than this isn't split off on its own
+  SPLIT_HEADER_LINES: 12, // Lines read for a name / contact block at a boundary
+  MAX_CV_SEGMENTS: 50,
+  SPLIT_CV_FOLDER: "split-cvs", // {client}/split-cvs/{batch}/ - outside the batch folder so bundling never sees it
+  
   // Phone number validation
   MIN_PHONE_DIGITS: 10,
   MAX_PHONE_DIGITS: 15,
@@ -174,9 +214,159 @@ export const PROCESSING_CONFIG = {
   CONTINUE_ON_FILE_ERROR: true, // Don't fail entire batch on single file error
 } as const;
 
+// ============================================
+// TEXT EXTRACTION
+// ============================================
+export const EXTRACTION_CONFIG = {
+  // Read PDF text layers / DOCX XML locally before paying for Gemini OCR
+  ENABLE_LOCAL_EXTRACTION: true,
+  
+  // Quality gate - below these the local result is treated as a scan
+  MIN_LOCAL_TEXT_LENGTH: 50, // Non-whitespace characters
+  MIN_PRINTABLE_RATIO: 0.95,
+  MIN_LETTER_RATIO: 0.5,
+
+  // Form XObjects drawn inside forms - deeper nesting is ignored
+  MAX_PDF_FORM_DEPTH: 8,
+} as const;
+
+// ============================================
+// DOCUMENT BUNDLES (CV + supporting documents)
+// ============================================
+// Each candidate in a batch = one CV (batch root) + any supporting documents
+// (subfolders), grouped by manifest.json, filename, or classifier pairing
+export const DOCUMENT_BUNDLE_CONFIG = {
+  MANIFEST_FILE_NAME: "manifest.json",
+  
+  // Subfolder name -> document type
+  FOLDER_TYPES: {
+    cover_letters: "cover_letter",
+    cover_letter: "cover_letter",
+    coverletter: "cover_letter",
+    application: "application_form",
+    applications: "application_form",
+    forms: "application_form",
+    references: "reference",
+    certificates: "certificate",
+    right_to_work: "right_to_work",
+    other_docs: "other",
+    other_documents: "other",
+  } as Record<string, SupportingDocumentType>,
+  
+  // Documents no filename matched: pair by the candidate's name/email in the text
+  ENABLE_CLASSIFIER_PAIRING: true,
+  MAX_DOCUMENTS_PER_CANDIDATE: 10,
+  
+  // Batch root files classified as letters: pair to the CV instead of rejecting
+  PAIR_CLASSIFIED_COVER_LETTERS: true,
+  // Fill an empty future_job_aspirations from the paired letter (1 Gemini call)
+  ASPIRATIONS_FROM_COVER_LETTER: true,
+} as const;
+
+// ============================================
+// RESULT CACHE (re-uploaded files)
+// ============================================
+// Extraction / classification / parse results keyed by SHA-256 of the file
+export const RESULT_CACHE_CONFIG = {
+  ENABLE_RESULT_CACHE: true,
+  
+  // Bump when prompts or the ParsedCV schema change - older entries are ignored
+  CACHE_VERSION: 1,
+} as const;
+
+// ============================================
+// DUPLICATE MATCHING (fuzzy)
+// ============================================
+export const DUPLICATE_CONFIG = {
+  ENABLE_FUZZY_MATCHING: true,
+  
+  // Feature weights - summed and capped at 1.0
+  WEIGHTS: {
+    email: 0.6,
+    phone: 0.5,
+    linkedin_url: 0.6,
+    name: 0.3, // Scaled by name similarity
+    date_of_birth: 0.3,
+    postcode: 0.15,
+    work_history: 0.25, // Scaled by share of employers in common
+  },
+  MIN_NAME_SIMILARITY: 0.85,
+  MIN_WORK_HISTORY_OVERLAP: 0.5,
+  
+  // Score thresholds
+  REPORT_THRESHOLD: 0.3, // Listed on the hold-queue item for reviewers
+  HOLD_THRESHOLD: 0.6, // Full-parsed CV held for review as a possible duplicate
+  
+  // Lookup limits
+  MAX_CANDIDATES_SCANNED: 50,
+  MAX_DUPLICATES_LISTED: 5,
+} as const;
+
+// ============================================
+// CANDIDATE MERGE (updating an existing candidate)
+// ============================================
+// Strategies per ParsedCV field:
+// - newest_non_null: new CV wins unless it has nothing for the field
+// - union: combine lists, de-duplicated (work history by company + title + start)
+// - keep_existing: only fill the field if we had nothing
+export const MERGE_CONFIG = {
+  DEFAULT_SCALAR_STRATEGY: "newest_non_null" as MergeStrategy,
+  DEFAULT_LIST_STRATEGY: "union" as MergeStrategy,
+  
+  // Overrides of the defaults above
+  FIELD_STRATEGIES: {
+    date_of_birth: "keep_existing",
+    nationality: "keep_existing",
+    candidate_references: "newest_non_null",
+  } as Record<string, MergeStrategy>,
+  
+  // Snapshot every merge to candidate_versions (needed for revert)
+  ENABLE_VERSION_SNAPSHOTS: true,
+} as const;
+
+// ============================================
+// CANDIDATE MATCHING CONFIGURATION
+// ============================================
+export const MATCHING_CONFIG = {
+  // Role Matcher request limits
+  MIN_CANDIDATES_RETURNED: 5, // ICO-style guidance: never shortlist fewer than 5
+  MAX_CANDIDATES_RETURNED: 50,
+  DEFAULT_RADIUS_KM: 50,
+  
+  // Candidate pool
+  MAX_CANDIDATES_SCANNED: 2000,
+  
+  // Score weighting (experience + skills = overall)
+  EXPERIENCE_WEIGHT: 0.5,
+  SKILLS_WEIGHT: 0.5,
+  REQUIRED_SKILL_WEIGHT: 2,
+  PREFERRED_SKILL_WEIGHT: 1,
+  
+  // Years of experience treated as "fully experienced" when the JD gives no minimum
+  DEFAULT_TARGET_YEARS: 5,
+  
+  // Job description text sent to Gemini for requirement extraction
+  MAX_JD_TEXT_LENGTH: 8000,
+  
+  // Batch auto-shortlist (batches uploaded against a job_id)
+  SHORTLIST_MAX_SIZE: 10,
+  SHORTLIST_MIN_SCORE: 5.0, // Overall score out of 10
+} as const;
+
+// Geocoding (OpenStreetMap Nominatim - free, 1 request/second)
+export const GEOCODING_CONFIG = {
+  BASE_URL: "https://nominatim.openstreetmap.org",
+  USER_AGENT: "Hexona-CV-Processor/1.0",
+  DELAY_BETWEEN_REQUESTS_MS: 1100,
+  MAX_LOOKUPS_PER_RUN: 100,
+  TIMEOUT_MS: 10000,
+} as const;
+
 // ============================================
 // GHL FIELD MAPPING CONFIGURATION
 // ============================================
+// Drives DEFAULT_GHL_FIELD_MAPPING - clients with their own GHL field names
+// store a mapping in ghl_field_mappings instead (see ghlFieldMapping.ts)
 export const GHL_FIELD_MAPPING = {
   // Which fields to sync (true = sync, false = skip)
   SYNC_FIELDS: {
@@ -443,4 +633,13 @@ export type CostWarningLevel = "ok" | "warning" | "critical" | "exceeded";
 export type DocumentType = "cv" | "resume" | "invoice" | "letter" | "contract" | "form" | "other";
 export type ProcessingStatus = "pending" | "processing" | "complete" | "failed" | "awaiting_input";
 export type CandidateStatus = "pending_ghl_sync" | "complete" | "ghl_sync_failed";
-export type HoldQueueStatus = "pending" | "ready_for_processing" | "complete" | "skipped";
\ No newline at end of file
+export type HoldQueueStatus = "pending" | "ready_for_processing" | "update_existing" | "complete" | "skipped";
+export type MergeStrategy = "newest_non_null" | "union" | "keep_existing";
+
+export type SupportingDocumentType =
+  | "cover_letter"
+  | "application_form"
+  | "reference"
+  | "certificate"
+  | "right_to_work"
+  | "other";
\ No newline at end of file
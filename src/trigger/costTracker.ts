@@ -14,6 +14,7 @@ import {
   wouldExceedCostLimit,
   wouldExceedAPILimit,
 } from "./config";
+import { LLMCallInfo } from "./llmProvider";
 
 // ============================================
 // TYPES
@@ -26,8 +27,13 @@ interface APIUsageRecord {
   operation_type: string;
   calls_count: number;
   tokens_used?: number;
+  input_tokens?: number;
+  output_tokens?: number;
+  tokens_estimated?: boolean; // true when Gemini returned no usageMetadata
   cost_usd: number;
   batch_id?: string;
+  model?: string; // Gemini model that served the call (primary or fallback)
+  cache_hit?: boolean; // Result reused from file_result_cache - no call made
   created_at?: string;
 }
 
@@ -243,26 +249,60 @@ export function estimateTokens(text: string): number {
 // ============================================
 
 /**
- * Track Gemini text extraction call
+ * Record one Gemini call. Uses the token counts Gemini reported in
+ * usageMetadata; the fixed estimates only apply when they're missing.
  */
-export async function trackTextExtraction(batchId: string, textLength: number): Promise<void> {
-  const inputTokens = GEMINI_CONFIG.TOKENS_TEXT_EXTRACTION;
-  const outputTokens = estimateTokens(textLength.toString());
+async function recordGeminiCall(
+  operationType: string,
+  batchId: string | undefined,
+  estimate: { inputTokens: number; outputTokens: number },
+  call?: LLMCallInfo
+): Promise<{ tokens: number; cost: number; estimated: boolean }> {
+  const usage = call?.usage;
+  const inputTokens = usage ? usage.input_tokens : estimate.inputTokens;
+  const outputTokens = usage ? usage.output_tokens : estimate.outputTokens;
   const cost = calculateGeminiCost(inputTokens, outputTokens);
 
   await recordAPIUsage({
     date: new Date().toISOString().split("T")[0],
     api_name: "gemini",
-    operation_type: "text_extraction",
+    operation_type: operationType,
     calls_count: 1,
     tokens_used: inputTokens + outputTokens,
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    tokens_estimated: !usage,
     cost_usd: cost,
     batch_id: batchId,
+    model: call?.model,
   });
 
+  return { tokens: inputTokens + outputTokens, cost, estimated: !usage };
+}
+
+/**
+ * Track Gemini text extraction call
+ */
+export async function trackTextExtraction(
+  batchId: string | undefined,
+  textLength: number,
+  call?: LLMCallInfo
+): Promise<void> {
+  const { tokens, cost, estimated } = await recordGeminiCall(
+    "text_extraction",
+    batchId,
+    {
+      inputTokens: GEMINI_CONFIG.TOKENS_TEXT_EXTRACTION,
+      outputTokens: Math.ceil(textLength / 4), // Output is the extracted text itself
+    },
+    call
+  );
+
   logger.info("Tracked text extraction", {
     batchId,
-    tokens: inputTokens + outputTokens,
+    model: call?.model,
+    tokens,
+    estimated,
     cost: formatCost(cost),
   });
 }
@@ -270,57 +310,79 @@ export async function trackTextExtraction(batchId: string, textLength: number):
 /**
  * Track Gemini quick parse call
  */
-export async function trackQuickParse(batchId: string): Promise<void> {
-  const inputTokens = GEMINI_CONFIG.TOKENS_QUICK_PARSE;
-  const outputTokens = 100; // Small JSON output
-  const cost = calculateGeminiCost(inputTokens, outputTokens);
-
-  await recordAPIUsage({
-    date: new Date().toISOString().split("T")[0],
-    api_name: "gemini",
-    operation_type: "quick_parse",
-    calls_count: 1,
-    tokens_used: inputTokens + outputTokens,
-    cost_usd: cost,
-    batch_id: batchId,
-  });
+export async function trackQuickParse(batchId: string, call?: LLMCallInfo): Promise<void> {
+  await recordGeminiCall(
+    "quick_parse",
+    batchId,
+    { inputTokens: GEMINI_CONFIG.TOKENS_QUICK_PARSE, outputTokens: 100 }, // Small JSON output
+    call
+  );
 }
 
 /**
  * Track Gemini full parse call
  */
-export async function trackFullParse(batchId: string): Promise<void> {
-  const inputTokens = GEMINI_CONFIG.TOKENS_FULL_PARSE;
-  const outputTokens = 500; // Large JSON output
-  const cost = calculateGeminiCost(inputTokens, outputTokens);
-
-  await recordAPIUsage({
-    date: new Date().toISOString().split("T")[0],
-    api_name: "gemini",
-    operation_type: "full_parse",
-    calls_count: 1,
-    tokens_used: inputTokens + outputTokens,
-    cost_usd: cost,
-    batch_id: batchId,
-  });
+export async function trackFullParse(batchId: string, call?: LLMCallInfo): Promise<void> {
+  await recordGeminiCall(
+    "full_parse",
+    batchId,
+    { inputTokens: GEMINI_CONFIG.TOKENS_FULL_PARSE, outputTokens: 500 }, // Large JSON output
+    call
+  );
 }
 
 /**
  * Track Gemini classification call
  */
-export async function trackClassification(batchId: string): Promise<void> {
-  const inputTokens = GEMINI_CONFIG.TOKENS_CLASSIFICATION;
-  const outputTokens = 50; // Small JSON output
-  const cost = calculateGeminiCost(inputTokens, outputTokens);
+export async function trackClassification(batchId: string, call?: LLMCallInfo): Promise<void> {
+  await recordGeminiCall(
+    "document_classification",
+    batchId,
+    { inputTokens: GEMINI_CONFIG.TOKENS_CLASSIFICATION, outputTokens: 50 }, // Small JSON output
+    call
+  );
+}
+
+/**
+ * Track Gemini job description parse call
+ */
+export async function trackJobParse(batchId?: string, call?: LLMCallInfo): Promise<void> {
+  await recordGeminiCall(
+    "job_parse",
+    batchId,
+    { inputTokens: GEMINI_CONFIG.TOKENS_JOB_PARSE, outputTokens: 300 }, // Medium JSON output
+    call
+  );
+}
 
+/**
+ * Track Gemini cover letter parse call (aspirations from a paired letter)
+ */
+export async function trackCoverLetterParse(batchId?: string, call?: LLMCallInfo): Promise<void> {
+  await recordGeminiCall(
+    "cover_letter_parse",
+    batchId,
+    { inputTokens: GEMINI_CONFIG.TOKENS_COVER_LETTER_PARSE, outputTokens: 100 }, // Small JSON output
+    call
+  );
+}
+
+/**
+ * Track a Gemini step served from the file result cache (zero cost, no call)
+ */
+export async function trackCacheHit(
+  operation: "text_extraction" | "document_classification" | "quick_parse" | "full_parse",
+  batchId: string
+): Promise<void> {
   await recordAPIUsage({
     date: new Date().toISOString().split("T")[0],
     api_name: "gemini",
-    operation_type: "document_classification",
-    calls_count: 1,
-    tokens_used: inputTokens + outputTokens,
-    cost_usd: cost,
+    operation_type: operation,
+    calls_count: 0,
+    tokens_used: 0,
+    cost_usd: 0,
     batch_id: batchId,
+    cache_hit: true,
   });
 }
 
@@ -328,7 +390,17 @@ export async function trackClassification(batchId: string): Promise<void> {
  * Track GHL API call
  */
 export async function trackGHLCall(
-  operation: "create_contact" | "update_contact" | "search_contact" | "upload_file",
+  operation:
+    | "create_contact"
+    | "update_contact"
+    | "search_contact"
+    | "upload_file"
+    | "add_tags"
+    | "create_opportunity"
+    | "update_opportunity"
+    | "search_opportunity"
+    | "create_note"
+    | "create_task",
   batchId?: string
 ): Promise<void> {
   await recordAPIUsage({
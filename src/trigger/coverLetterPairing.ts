@@ -0,0 +1,276 @@
+// ============================================
+// COVER LETTER PAIRING
+// ============================================
+// A batch often holds a CV and a cover letter from the same person side by
+// side. Letters the classifier labels "letter" are held back instead of
+// rejected, and once every CV in the batch has been read:
+// - Paired to a CV by email, then full name found in the letter,
+//   then filename stem ("Jane_Smith_CV.pdf" / "Jane_Smith_Letter.pdf")
+// - Stored as the candidate's cover letter (GHL + candidate_documents), or
+//   added to the hold-queue item's documents when the CV is waiting there
+// - Used to fill an empty future_job_aspirations
+// Letters nothing matches are rejected as before.
+
+import { logger } from "@trigger.dev/sdk";
+import { DOCUMENT_BUNDLE_CONFIG, ENV, truncateForLog } from "./config";
+import { trackCoverLetterParse, trackGHLCall } from "./costTracker";
+import { ClassificationResult } from "./documentClassifier";
+import { LLMProvider } from "./llmProvider";
+import { ParsedCV } from "./parsedCVSchema";
+import { BundleDocument, nameStem } from "./documentBundles";
+import { getClientFieldMapping } from "./ghlFieldMapping";
+import {
+  attachDocumentToGHL,
+  downloadStorageFile,
+  guessUploadMimeType,
+  recordCandidateDocument,
+  updateCandidate,
+  updateGHLContactFields,
+} from "./candidatePipeline";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface PendingCoverLetter {
+  file: { name: string; path: string };
+  rawText: string;
+  classification: ClassificationResult;
+  correlationId: string;
+}
+
+/**
+ * A CV from this batch a letter can belong to
+ */
+export interface CoverLetterTarget {
+  candidateId: string | null; // Written candidate...
+  holdQueueId: string | null; // ...or the hold-queue item it's waiting in
+  fullName: string | null;
+  email: string | null;
+  cvFileName: string;
+  ghlContactId: string | null;
+  data: ParsedCV | null; // Full parse, when the candidate was written this run
+}
+
+export interface CoverLetterPairing {
+  letter: PendingCoverLetter;
+  target: CoverLetterTarget;
+  matched_on: "email" | "name" | "filename";
+}
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+
+// ============================================
+// MATCHING
+// ============================================
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * The single CV a letter belongs to, or null when none (or several) match
+ */
+export function findCoverLetterOwner(
+  letter: PendingCoverLetter,
+  targets: CoverLetterTarget[]
+): Omit<CoverLetterPairing, "letter"> | null {
+  const text = normalizeText(letter.rawText);
+  const emails = new Set((letter.rawText.match(EMAIL_PATTERN) || []).map((e) => e.toLowerCase()));
+
+  const byEmail = targets.filter((t) => t.email && emails.has(t.email.trim().toLowerCase()));
+  if (byEmail.length === 1) return { target: byEmail[0], matched_on: "email" };
+  if (byEmail.length > 1) return null;
+
+  // A first name on its own is too common to go on
+  const byName = targets.filter((t) => {
+    const name = t.fullName ? normalizeText(t.fullName.trim()) : "";
+    return name.includes(" ") && text.includes(name);
+  });
+  if (byName.length === 1) return { target: byName[0], matched_on: "name" };
+  if (byName.length > 1) return null;
+
+  const stem = nameStem(letter.file.name);
+  const byStem = stem ? targets.filter((t) => nameStem(t.cvFileName) === stem) : [];
+  if (byStem.length === 1) return { target: byStem[0], matched_on: "filename" };
+
+  return null;
+}
+
+/**
+ * Pair each held-back letter to a CV from the batch
+ */
+export function pairCoverLetters(
+  letters: PendingCoverLetter[],
+  targets: CoverLetterTarget[]
+): { paired: CoverLetterPairing[]; unpaired: PendingCoverLetter[] } {
+  const paired: CoverLetterPairing[] = [];
+  const unpaired: PendingCoverLetter[] = [];
+
+  for (const letter of letters) {
+    const owner = findCoverLetterOwner(letter, targets);
+    if (owner) paired.push({ letter, ...owner });
+    else unpaired.push(letter);
+  }
+
+  return { paired, unpaired };
+}
+
+// ============================================
+// STORE
+// ============================================
+
+/**
+ * Store a paired letter as the candidate's cover letter. Throws on failure -
+ * the caller rejects the letter as it would have before pairing.
+ */
+export async function storePairedCoverLetter(args: {
+  pairing: CoverLetterPairing;
+  batchId: string;
+  clientId: string;
+  llm: LLMProvider;
+  accessToken: string;
+}): Promise<void> {
+  const { pairing, batchId, clientId, llm, accessToken } = args;
+  const { letter, target } = pairing;
+
+  const document: BundleDocument = {
+    path: letter.file.path,
+    name: letter.file.name,
+    type: "cover_letter",
+    mime_type: guessUploadMimeType(letter.file.name),
+  };
+
+  // CV waiting for review - the letter goes to GHL with it once approved
+  if (!target.candidateId) {
+    if (!target.holdQueueId) throw new Error("Cover letter target has no candidate or hold-queue item");
+    await appendHoldQueueDocument(target.holdQueueId, document);
+    return;
+  }
+
+  const aspirations =
+    DOCUMENT_BUNDLE_CONFIG.ASPIRATIONS_FROM_COVER_LETTER && target.data && !target.data.future_job_aspirations
+      ? await extractAspirations(letter.rawText, llm, batchId)
+      : null;
+  if (aspirations) {
+    await updateCandidate(target.candidateId, { future_job_aspirations: aspirations });
+    target.data!.future_job_aspirations = aspirations;
+  }
+
+  if (!target.ghlContactId) {
+    // GHL sync failed for this candidate - keep the record so it can be attached later
+    await recordCandidateDocument({
+      candidate_id: target.candidateId,
+      document_type: "cover_letter",
+      storage_path: document.path,
+      original_name: document.name,
+      mime_type: document.mime_type,
+      ghl_contact_id: null,
+      ghl_custom_field_id: null,
+      ghl_file_url: null,
+      upload_method: null,
+    });
+    return;
+  }
+
+  const fileBuffer = await downloadStorageFile(document.path);
+  if (!fileBuffer) throw new Error("Failed to download cover letter from storage");
+
+  const fieldMapping = await getClientFieldMapping(clientId);
+  const attached = await attachDocumentToGHL({
+    contactId: target.ghlContactId,
+    candidateId: target.candidateId,
+    kind: "cover_letter",
+    storagePath: document.path,
+    fileName: document.name,
+    mimeType: document.mime_type,
+    fileBuffer,
+    fieldMapping,
+    accessToken,
+  });
+  await trackGHLCall("upload_file", batchId);
+  if (!attached.success) throw new Error(attached.error || "Cover letter upload failed");
+
+  // Files in the contact's file field are already set - only media library URLs get written
+  const sources = [
+    ...(attached.method === "media_library" ? ["$cover_letter_url"] : []),
+    ...(aspirations ? ["future_job_aspirations"] : []),
+  ];
+  if (sources.length > 0) {
+    await updateGHLContactFields(
+      target.ghlContactId,
+      sources,
+      target.data || {},
+      { cover_letter_url: attached.fileUrl },
+      accessToken,
+      fieldMapping
+    );
+    await trackGHLCall("update_contact", batchId);
+  }
+}
+
+// ============================================
+// LLM - ASPIRATIONS
+// ============================================
+
+async function extractAspirations(rawText: string, llm: LLMProvider, batchId: string): Promise<string | null> {
+  const prompt = `This is a job applicant's cover letter. Summarise what they say they want next in their career
+(roles, direction, sector, ambitions) in 1-3 sentences, in the third person. Return ONLY valid JSON:
+
+{
+  "future_job_aspirations": "string or null (null if the letter doesn't say)"
+}
+
+Cover letter:
+${rawText.substring(0, 8000)}
+
+Return ONLY the JSON object, no other text.`;
+
+  try {
+    const { text: output, model, usage } = await llm.generateJson({ operation: "cover_letter_parse", prompt });
+    await trackCoverLetterParse(batchId, { model, usage });
+
+    try {
+      const value = JSON.parse(output)?.future_job_aspirations;
+      return typeof value === "string" && value.trim() ? value.trim() : null;
+    } catch {
+      logger.warn("Failed to parse cover letter output", { model, outputPreview: truncateForLog(output, 500) });
+      return null;
+    }
+  } catch (error: any) {
+    // Aspirations are a bonus - the letter is still stored
+    logger.warn("Cover letter aspirations extraction failed", { batchId, error: error.message });
+    return null;
+  }
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+async function appendHoldQueueDocument(holdQueueId: string, document: BundleDocument): Promise<void> {
+  const url = `${ENV.SUPABASE_URL}/rest/v1/hold_queue?id=eq.${holdQueueId}`;
+  const headers = {
+    Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+    apikey: ENV.SUPABASE_SERVICE_KEY,
+  };
+
+  const existingResponse = await fetch(`${url}&select=supporting_documents&limit=1`, { headers });
+  if (!existingResponse.ok) {
+    throw new Error(`Failed to fetch hold_queue documents: ${existingResponse.status}`);
+  }
+  const rows = await existingResponse.json();
+  const documents: BundleDocument[] = rows[0]?.supporting_documents || [];
+  if (documents.some((d) => d.path === document.path)) return;
+
+  const response = await fetch(url, {
+    method: "PATCH",
+    headers: { ...headers, "Content-Type": "application/json", Prefer: "return=minimal" },
+    body: JSON.stringify({ supporting_documents: [...documents, document] }),
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`Failed to add document to hold_queue: ${t.slice(0, 800)}`);
+  }
+}
@@ -0,0 +1,164 @@
+// ============================================
+// MULTI-CV SPLITTING
+// ============================================
+// Agencies sometimes merge a shortlist into one PDF. Runs after text
+// extraction and cuts the text into one segment per candidate, at:
+// - Page breaks (\f) where a new name header / contact block starts
+// - In unpaged text (DOCX, TXT), a name header with a new contact block
+// A boundary needs contact details the current CV doesn't have plus CV
+// sections after it, so a references page never starts a "new CV".
+// Each segment is stored as its own text file, so a candidate's record,
+// GHL upload and hold-queue item never carry anyone else's CV.
+
+import { PROCESSING_CONFIG, normalizePhone } from "./config";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CVSegment {
+  index: number; // 0-based position in the document
+  text: string;
+  start_page: number | null; // 1-based; null for unpaged text
+  end_page: number | null;
+}
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{8,}\d/g;
+
+// Headings that open a CV, not a person's name
+const TITLE_LINES = /^(curriculum vitae|resume|résumé|cv|personal (details|information|profile)|profile|contact( details)?)$/i;
+
+// At least one of these has to follow a boundary
+const CV_SECTION_HEADINGS =
+  /\b(experience|employment|work history|career history|education|qualifications|skills|profile|summary|training)\b/i;
+
+const REFERENCE_HEADINGS = /\b(references?|referees?)\b/i;
+
+// ============================================
+// SPLIT
+// ============================================
+
+/**
+ * One segment per CV, or a single segment when the text holds one CV
+ */
+export function splitMultiCVText(rawText: string): CVSegment[] {
+  const single: CVSegment[] = [{ index: 0, text: rawText, start_page: null, end_page: null }];
+  if (!PROCESSING_CONFIG.ENABLE_MULTI_CV_SPLIT || !rawText) return single;
+
+  const paged = rawText.includes("\f");
+  const units = paged ? rawText.split(/\f/) : rawText.split("\n");
+  const separator = paged ? "\n\f\n" : "\n";
+
+  // [start, end) unit ranges
+  const ranges: Array<[number, number]> = [];
+  let start = 0;
+  let contacts = contactsIn(units[0]);
+  let length = units[0].length;
+
+  for (let k = 1; k < units.length; k++) {
+    if (length >= PROCESSING_CONFIG.MIN_CV_SEGMENT_LENGTH && startsNewCV(units, k, paged, contacts)) {
+      ranges.push([start, k]);
+      start = k;
+      contacts = new Set();
+      length = 0;
+    }
+    for (const c of contactsIn(units[k])) contacts.add(c);
+    length += units[k].length;
+  }
+
+  // A short tail is the end of the last CV, not a CV of its own
+  if (ranges.length > 0 && length < PROCESSING_CONFIG.MIN_CV_SEGMENT_LENGTH) {
+    start = ranges.pop()![0];
+  }
+  ranges.push([start, units.length]);
+
+  if (ranges.length < 2 || ranges.length > PROCESSING_CONFIG.MAX_CV_SEGMENTS) return single;
+
+  return ranges.map(([from, to], index) => ({
+    index,
+    text: units.slice(from, to).join(separator).trim(),
+    start_page: paged ? from + 1 : null,
+    end_page: paged ? to : null,
+  }));
+}
+
+/**
+ * Does the unit at k open another candidate's CV?
+ */
+function startsNewCV(units: string[], k: number, paged: boolean, currentContacts: Set<string>): boolean {
+  const headerLines = (paged ? units[k].split("\n") : units.slice(k, k + PROCESSING_CONFIG.SPLIT_HEADER_LINES))
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .slice(0, PROCESSING_CONFIG.SPLIT_HEADER_LINES);
+  if (headerLines.length === 0) return false;
+
+  // Unpaged text can only break at a name line
+  const nameHeader = paged ? headerLines.slice(0, 3).some(looksLikeName) : looksLikeName(headerLines[0]);
+  if (!paged && !nameHeader) return false;
+
+  // A referee's name + contact details, under the previous CV's references heading
+  const before = (paged ? units[k - 1].split("\n") : units.slice(0, k)).map((l) => l.trim()).filter(Boolean).slice(-5);
+  const header = headerLines.join("\n");
+  if (REFERENCE_HEADINGS.test(header) || REFERENCE_HEADINGS.test(before.join("\n"))) return false;
+
+  const headerContacts = contactsIn(header);
+  const newContacts = [...headerContacts].filter((c) => !currentContacts.has(c));
+  if (newContacts.length === 0) return false;
+
+  // The name nearest the contact block is the header ("BSc Physics" / "Bob Jones" / email)
+  if (!paged) {
+    const contactLine = headerLines.findIndex((l) => contactsIn(l).size > 0);
+    if (headerLines.slice(1, contactLine).some(looksLikeName)) return false;
+  }
+
+  // Name header, or the same kind of contact block the previous CV opened with
+  if (!nameHeader && currentContacts.size === 0) return false;
+
+  const following = (paged ? units.slice(k, k + 2) : units.slice(k, k + 60)).join("\n");
+  return CV_SECTION_HEADINGS.test(following);
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function contactsIn(text: string): Set<string> {
+  const contacts = new Set<string>();
+  for (const email of text.match(EMAIL_PATTERN) || []) contacts.add(email.toLowerCase());
+  for (const phone of text.match(PHONE_PATTERN) || []) {
+    const normalized = normalizePhone(phone);
+    if (normalized) contacts.add(normalized);
+  }
+  return contacts;
+}
+
+function looksLikeName(line: string): boolean {
+  if (line.length > 40 || TITLE_LINES.test(line)) return false;
+  const words = line.split(/\s+/);
+  return (
+    words.length >= 2 &&
+    words.length <= 4 &&
+    words.every((w) => /^[A-Z][A-Za-z'’.-]*$/.test(w) || /^[A-Z][A-Z'’.-]+$/.test(w))
+  );
+}
+
+/**
+ * Storage path for a segment's own file: "{client}/split-cvs/{batch}/Shortlist_cv2.txt"
+ */
+export function segmentFilePath(clientId: string, batchId: string, fileName: string, index: number): string {
+  const base = fileName.replace(/\.[a-z0-9]+$/i, "");
+  return `${clientId}/${PROCESSING_CONFIG.SPLIT_CV_FOLDER}/${batchId}/${base}_cv${index + 1}.txt`;
+}
+
+/**
+ * file_processing_status path for a segment ("<file>#segment-2")
+ */
+export function segmentStatusPath(filePath: string, index: number): string {
+  return `${filePath}#segment-${index}`;
+}
+
+export function parseSegmentStatusPath(statusPath: string): { filePath: string; index: number } | null {
+  const match = statusPath.match(/^(.*)#segment-(\d+)$/);
+  return match ? { filePath: match[1], index: parseInt(match[2], 10) } : null;
+}
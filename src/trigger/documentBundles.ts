@@ -0,0 +1,373 @@
+// ============================================
+// DOCUMENT BUNDLES
+// ============================================
+// A batch holds one bundle per candidate: a CV plus any number of typed
+// supporting documents (cover letter, application form, references...):
+// - manifest.json in the batch folder says exactly which files go together
+// - Without one, CVs are the batch root files and documents come from
+//   subfolders, paired to a CV by filename (or a folder named after it)
+// - Documents nothing matched are paired by classifier: the candidate's
+//   name / email found in the document text
+// Documents keep their real filename and MIME type all the way to GHL.
+
+import { logger } from "@trigger.dev/sdk";
+import { Buffer } from "buffer";
+import {
+  DOCUMENT_BUNDLE_CONFIG,
+  ENV,
+  SUPABASE_CONFIG,
+  SupportingDocumentType,
+  VALIDATION_RULES,
+  isValidEmail,
+} from "./config";
+import { trackTextExtraction } from "./costTracker";
+import { classifyDocument } from "./documentClassifier";
+import { extractText } from "./textExtraction";
+import { LLMProvider } from "./llmProvider";
+import { ParsedCV } from "./parsedCVSchema";
+import { downloadStorageFile, guessUploadMimeType } from "./candidatePipeline";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface BundleDocument {
+  path: string;
+  name: string; // Original filename
+  type: SupportingDocumentType;
+  mime_type: string;
+}
+
+export interface CandidateBundle {
+  cv: { name: string; path: string };
+  documents: BundleDocument[];
+  source: "manifest" | "folder";
+}
+
+export interface BatchBundles {
+  bundles: CandidateBundle[];
+  unpaired: BundleDocument[]; // Left for classifier pairing
+}
+
+export interface UnpairedDocumentPool {
+  /** Documents whose text names this candidate (removed from the pool) */
+  claimForCandidate(
+    identity: Pick<ParsedCV, "full_name" | "email">,
+    llm: LLMProvider,
+    batchId: string
+  ): Promise<BundleDocument[]>;
+  remaining(): BundleDocument[];
+}
+
+interface ManifestBundle {
+  cv: string;
+  documents?: Array<{ file: string; type?: string }>;
+}
+
+interface StorageEntry {
+  name: string;
+  path: string;
+  isFolder: boolean;
+}
+
+const SUPPORTING_DOCUMENT_TYPES: SupportingDocumentType[] = [
+  "cover_letter",
+  "application_form",
+  "reference",
+  "certificate",
+  "right_to_work",
+  "other",
+];
+
+// Filename words -> document type, checked in order
+const FILENAME_TYPE_HINTS: Array<[RegExp, SupportingDocumentType]> = [
+  [/cover[\s_-]*letter|\bcover\b|covering|\bletter\b|motivation/i, "cover_letter"],
+  [/application|form/i, "application_form"],
+  [/reference|referee/i, "reference"],
+  [/certificate|\bcert\b|qualification|diploma/i, "certificate"],
+  [/right[\s_-]*to[\s_-]*work|passport|visa|\bbrp\b|share[\s_-]*code/i, "right_to_work"],
+];
+
+// Bits of a document name that aren't part of the candidate's name
+const STEM_NOISE =
+  /[\s_-]*\b(cover[\s_-]*letter|covering[\s_-]*letter|motivation[\s_-]*letter|cover|letter|motivation|application[\s_-]*form|application|form|references?|referee|certificates?|cert|right[\s_-]*to[\s_-]*work|passport|visa|cv|resume|curriculum[\s_-]*vitae)\b/gi;
+
+// ============================================
+// LOAD
+// ============================================
+
+/**
+ * Group the batch's files into one bundle per CV
+ */
+export async function loadBatchBundles(batchId: string, clientId: string): Promise<BatchBundles> {
+  const prefix = `${clientId}/${batchId}/`;
+  const rootEntries = await listStorageEntries(prefix);
+
+  const manifestEntry = rootEntries.find(
+    (e) => !e.isFolder && e.name.toLowerCase() === DOCUMENT_BUNDLE_CONFIG.MANIFEST_FILE_NAME
+  );
+  const manifest = manifestEntry ? await readManifest(manifestEntry.path) : null;
+
+  const rootFiles = rootEntries.filter((e) => !e.isFolder && isCVFile(e.name));
+  const folderFiles = await listFolderFiles(rootEntries.filter((e) => e.isFolder));
+
+  const result = manifest
+    ? bundlesFromManifest(manifest, prefix, rootFiles)
+    : bundlesFromFolders(rootFiles, folderFiles, prefix);
+
+  logger.info("📦 Batch documents grouped", {
+    batchId,
+    source: manifest ? "manifest" : "folder",
+    candidates: result.bundles.length,
+    supportingDocuments: result.bundles.reduce((sum, b) => sum + b.documents.length, 0),
+    unpaired: result.unpaired.length,
+  });
+
+  return result;
+}
+
+function bundlesFromManifest(manifest: ManifestBundle[], prefix: string, rootFiles: StorageEntry[]): BatchBundles {
+  const bundles: CandidateBundle[] = [];
+  const claimed = new Set<string>();
+
+  for (const entry of manifest) {
+    if (!entry?.cv || typeof entry.cv !== "string") continue;
+    const cvPath = prefix + entry.cv.replace(/^\/+/, "");
+    claimed.add(cvPath);
+
+    const documents: BundleDocument[] = [];
+    for (const doc of entry.documents || []) {
+      if (!doc?.file || typeof doc.file !== "string") continue;
+      const path = prefix + doc.file.replace(/^\/+/, "");
+      claimed.add(path);
+      documents.push(toBundleDocument(path, normalizeDocumentType(doc.type) || guessDocumentType(path)));
+    }
+
+    bundles.push({
+      cv: { name: fileNameOf(cvPath), path: cvPath },
+      documents: documents.slice(0, DOCUMENT_BUNDLE_CONFIG.MAX_DOCUMENTS_PER_CANDIDATE),
+      source: "manifest",
+    });
+  }
+
+  // Root files the manifest doesn't mention are still CVs on their own
+  for (const file of rootFiles) {
+    if (claimed.has(file.path)) continue;
+    bundles.push({ cv: { name: file.name, path: file.path }, documents: [], source: "manifest" });
+  }
+
+  return { bundles, unpaired: [] };
+}
+
+function bundlesFromFolders(rootFiles: StorageEntry[], folderFiles: StorageEntry[], prefix: string): BatchBundles {
+  const bundles: CandidateBundle[] = rootFiles.map((file) => ({
+    cv: { name: file.name, path: file.path },
+    documents: [],
+    source: "folder",
+  }));
+  const byStem = new Map<string, CandidateBundle>();
+  for (const bundle of bundles) {
+    const stem = nameStem(bundle.cv.name);
+    if (stem && !byStem.has(stem)) byStem.set(stem, bundle);
+  }
+
+  const unpaired: BundleDocument[] = [];
+  for (const file of folderFiles) {
+    const folders = file.path.slice(prefix.length).split("/").slice(0, -1);
+    const typeFolder = folders.map(folderDocumentType).find(Boolean) || null;
+    const doc = toBundleDocument(file.path, typeFolder || guessDocumentType(file.name));
+
+    // Paired by a folder named after the CV (jane_smith/references.pdf), else by filename
+    const owner =
+      folders.map((f) => byStem.get(nameStem(f))).find(Boolean) || byStem.get(nameStem(file.name)) || null;
+
+    if (owner && owner.documents.length < DOCUMENT_BUNDLE_CONFIG.MAX_DOCUMENTS_PER_CANDIDATE) {
+      owner.documents.push(doc);
+    } else {
+      unpaired.push(doc);
+    }
+  }
+
+  return { bundles, unpaired };
+}
+
+// ============================================
+// CLASSIFIER PAIRING
+// ============================================
+
+/**
+ * Pool of documents no manifest or filename paired. Each is extracted and
+ * classified once, on the first CV that asks.
+ */
+export function createUnpairedDocumentPool(documents: BundleDocument[]): UnpairedDocumentPool {
+  let pending = [...documents];
+  let analysed: Array<{ doc: BundleDocument; text: string }> | null = null;
+
+  async function analyse(llm: LLMProvider, batchId: string) {
+    analysed = [];
+    for (const doc of pending) {
+      try {
+        const buffer = await downloadStorageFile(doc.path);
+        if (!buffer) continue;
+
+        const extraction = await extractText(buffer, doc.name, llm);
+        if (extraction.call) {
+          await trackTextExtraction(batchId, extraction.text?.length || 0, extraction.call);
+        }
+        if (!extraction.text) continue;
+
+        // Only a folder/filename-less document needs the classifier to name its type
+        if (doc.type === "other" && !folderDocumentType(doc.path.split("/").slice(-2, -1)[0] || "")) {
+          const classification = await classifyDocument(extraction.text, doc.name, batchId, llm);
+          doc.type = classifiedDocumentType(classification.document_type);
+        }
+        analysed.push({ doc, text: extraction.text.toLowerCase() });
+      } catch (error: any) {
+        logger.warn("Failed to read unpaired document", { path: doc.path, error: error.message });
+      }
+    }
+  }
+
+  return {
+    async claimForCandidate(identity, llm, batchId) {
+      if (!DOCUMENT_BUNDLE_CONFIG.ENABLE_CLASSIFIER_PAIRING || pending.length === 0) return [];
+      if (!analysed) await analyse(llm, batchId);
+
+      const email = identity.email && isValidEmail(identity.email) ? identity.email.trim().toLowerCase() : null;
+      const name = identity.full_name ? identity.full_name.trim().toLowerCase().replace(/\s+/g, " ") : null;
+      if (!email && !(name && name.includes(" "))) return []; // A first name alone is too weak
+
+      const claimed = analysed!
+        .filter(({ doc, text }) => pending.includes(doc) && ((email && text.includes(email)) || (name && text.replace(/\s+/g, " ").includes(name))))
+        .map(({ doc }) => doc)
+        .slice(0, DOCUMENT_BUNDLE_CONFIG.MAX_DOCUMENTS_PER_CANDIDATE);
+
+      pending = pending.filter((doc) => !claimed.includes(doc));
+      return claimed;
+    },
+    remaining() {
+      return [...pending];
+    },
+  };
+}
+
+function classifiedDocumentType(documentType: string): SupportingDocumentType {
+  if (documentType === "letter") return "cover_letter";
+  if (documentType === "form") return "application_form";
+  return "other";
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function isCVFile(name: string): boolean {
+  return VALIDATION_RULES.ALLOWED_EXTENSIONS.some((ext) => name.toLowerCase().endsWith(ext));
+}
+
+function fileNameOf(path: string): string {
+  return path.split("/").pop() || path;
+}
+
+function toBundleDocument(path: string, type: SupportingDocumentType): BundleDocument {
+  const name = fileNameOf(path);
+  return { path, name, type, mime_type: guessUploadMimeType(name) };
+}
+
+function normalizeDocumentType(type: string | undefined): SupportingDocumentType | null {
+  const normalized = (type || "").trim().toLowerCase().replace(/[\s-]+/g, "_");
+  return SUPPORTING_DOCUMENT_TYPES.includes(normalized as SupportingDocumentType)
+    ? (normalized as SupportingDocumentType)
+    : null;
+}
+
+function folderDocumentType(folder: string): SupportingDocumentType | null {
+  const normalized = folder.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  return DOCUMENT_BUNDLE_CONFIG.FOLDER_TYPES[normalized] || null;
+}
+
+function guessDocumentType(fileName: string): SupportingDocumentType {
+  const base = fileNameOf(fileName).replace(/[_-]+/g, " ");
+  return FILENAME_TYPE_HINTS.find(([pattern]) => pattern.test(base))?.[1] || "other";
+}
+
+/**
+ * Candidate part of a file/folder name: "Jane_Smith_Cover_Letter.pdf" -> "jane smith"
+ */
+export function nameStem(name: string): string {
+  return name
+    .replace(/\.[a-z0-9]+$/i, "")
+    .replace(/[_-]+/g, " ")
+    .replace(STEM_NOISE, " ")
+    .replace(/[^a-z0-9]+/gi, " ")
+    .trim()
+    .toLowerCase();
+}
+
+// ============================================
+// STORAGE OPERATIONS
+// ============================================
+
+async function listStorageEntries(prefix: string): Promise<StorageEntry[]> {
+  const response = await fetch(
+    `${ENV.SUPABASE_URL}/storage/v1/object/list/${SUPABASE_CONFIG.STORAGE_BUCKET}?prefix=${encodeURIComponent(prefix)}`,
+    {
+      headers: {
+        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+        apikey: ENV.SUPABASE_SERVICE_KEY,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to list batch files: ${response.status}`);
+  }
+
+  const entries: any[] = await response.json();
+  return entries
+    .filter((e) => e?.name && e.name !== ".emptyFolderPlaceholder")
+    .map((e) => {
+      const relative = e.name.startsWith(prefix) ? e.name.slice(prefix.length) : e.name;
+      return {
+        name: fileNameOf(relative),
+        path: prefix + relative,
+        // Folders come back without an id / metadata
+        isFolder: !e.id && !e.metadata,
+      };
+    });
+}
+
+/**
+ * Files in the batch's subfolders (and one level below, for per-candidate folders)
+ */
+async function listFolderFiles(folders: StorageEntry[], depth = 0): Promise<StorageEntry[]> {
+  const files: StorageEntry[] = [];
+
+  for (const folder of folders) {
+    const entries = await listStorageEntries(`${folder.path}/`);
+    files.push(...entries.filter((e) => !e.isFolder));
+    if (depth < 1) {
+      files.push(...(await listFolderFiles(entries.filter((e) => e.isFolder), depth + 1)));
+    }
+  }
+
+  return files;
+}
+
+async function readManifest(path: string): Promise<ManifestBundle[] | null> {
+  const buffer = await downloadStorageFile(path);
+  if (!buffer) {
+    logger.warn("⚠️ Batch manifest could not be downloaded - grouping by folder", { path });
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(Buffer.from(buffer).toString("utf-8"));
+    const bundles = Array.isArray(parsed) ? parsed : parsed?.bundles;
+    if (!Array.isArray(bundles)) throw new Error("manifest has no bundles array");
+    return bundles;
+  } catch (error: any) {
+    logger.warn("⚠️ Invalid batch manifest - grouping by folder", { path, error: error.message });
+    return null;
+  }
+}
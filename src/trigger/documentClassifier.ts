@@ -5,15 +5,9 @@
 // of invoices, letters, and other non-CV documents
 
 import { logger } from "@trigger.dev/sdk";
-import {
-  ENV,
-  CLASSIFICATION_CONFIG,
-  GEMINI_CONFIG,
-  getRetryDelay,
-  isRetryableStatus,
-  truncateForLog,
-} from "./config";
+import { CLASSIFICATION_CONFIG, truncateForLog } from "./config";
 import { trackClassification } from "./costTracker";
+import { LLMProvider, getLLMProvider } from "./llmProvider";
 
 // ============================================
 // TYPES
@@ -26,8 +20,12 @@ export interface ClassificationResult {
   should_process: boolean;
   key_indicators: string[];
   rejection_reason?: string;
+  model?: string; // Set when the LLM classified the document
 }
 
+// key_indicators of the fail-safe results below
+const FALLBACK_INDICATORS = ["classification_error", "classification_failed", "invalid_classification"];
+
 // ============================================
 // HELPER: DELAY
 // ============================================
@@ -36,91 +34,6 @@ function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-// ============================================
-// GEMINI API CALL WITH RETRY
-// ============================================
-
-async function geminiGenerateText(args: {
-  parts: any[];
-  responseMimeType?: string;
-  temperature?: number;
-}): Promise<string> {
-  const url = `${GEMINI_CONFIG.BASE_URL}/models/${GEMINI_CONFIG.MODEL}:generateContent?key=${ENV.GEMINI_API_KEY}`;
-  const maxAttempts = GEMINI_CONFIG.MAX_RETRIES;
-
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    try {
-      const response = await fetch(url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          contents: [{ parts: args.parts }],
-          generationConfig: {
-            temperature: args.temperature ?? 0,
-            ...(args.responseMimeType ? { responseMimeType: args.responseMimeType } : {}),
-          },
-        }),
-      });
-
-      const bodyText = await response.text();
-
-      if (response.ok) {
-        let data: any;
-        try {
-          data = JSON.parse(bodyText);
-        } catch {
-          throw new Error("Gemini returned non-JSON envelope");
-        }
-
-        const text = data?.candidates?.[0]?.content?.parts?.[0]?.text ?? "";
-        return typeof text === "string" ? text : "";
-      }
-
-      const status = response.status;
-      const retryable = isRetryableStatus(status, GEMINI_CONFIG.RETRYABLE_STATUS_CODES);
-
-      logger.warn("Gemini classification request failed", {
-        attempt,
-        status,
-        retryable,
-        bodyPreview: bodyText.slice(0, 500),
-      });
-
-      if (!retryable || attempt === maxAttempts) {
-        throw new Error(`Gemini request failed (status ${status}): ${bodyText.slice(0, 500)}`);
-      }
-
-      const waitMs = getRetryDelay(attempt, GEMINI_CONFIG);
-      logger.info("Retrying Gemini classification", { attempt, waitMs });
-      await delay(waitMs);
-    } catch (error: any) {
-      if (attempt === maxAttempts) {
-        throw error;
-      }
-      logger.warn("Gemini classification exception", {
-        attempt,
-        error: error.message,
-      });
-      const waitMs = getRetryDelay(attempt, GEMINI_CONFIG);
-      await delay(waitMs);
-    }
-  }
-
-  throw new Error("Gemini request failed after retries");
-}
-
-// ============================================
-// JSON CLEANING
-// ============================================
-
-function stripJsonFences(s: string): string {
-  let t = (s || "").trim();
-  if (t.startsWith("```")) {
-    t = t.replace(/^```[a-zA-Z]*\n?/, "").replace(/```$/, "").trim();
-  }
-  return t;
-}
-
 // ============================================
 // CLASSIFICATION
 // ============================================
@@ -131,7 +44,8 @@ function stripJsonFences(s: string): string {
 export async function classifyDocument(
   rawText: string,
   fileName: string,
-  batchId?: string
+  batchId?: string,
+  llm: LLMProvider = getLLMProvider()
 ): Promise<ClassificationResult> {
   // Validation
   if (!rawText || rawText.trim().length < 50) {
@@ -177,26 +91,24 @@ ${sampleText}
 
 Return ONLY the JSON object, no other text.`;
 
-    const output = await geminiGenerateText({
-      parts: [{ text: prompt }],
-      responseMimeType: "application/json",
+    const { text: output, model, usage } = await llm.generateJson({
+      operation: "classification",
+      prompt,
       temperature: 0,
     });
 
     // Track cost
     if (batchId) {
-      await trackClassification(batchId);
+      await trackClassification(batchId, { model, usage });
     }
 
-    const cleaned = stripJsonFences(output);
-
     let classification: any;
     try {
-      classification = JSON.parse(cleaned);
+      classification = JSON.parse(output);
     } catch (parseError) {
       logger.error("Failed to parse Gemini classification output", {
         fileName,
-        outputPreview: truncateForLog(cleaned, 500),
+        outputPreview: truncateForLog(output, 500),
       });
 
       // Fallback: try to extract type from text
@@ -257,6 +169,7 @@ Return ONLY the JSON object, no other text.`;
       key_indicators: Array.isArray(classification.key_indicators)
         ? classification.key_indicators
         : [],
+      model,
     };
 
     // Add rejection reason if not processing
@@ -273,6 +186,7 @@ Return ONLY the JSON object, no other text.`;
       type: result.document_type,
       confidence: `${(result.confidence * 100).toFixed(1)}%`,
       shouldProcess: result.should_process,
+      model,
       reasoning: result.reasoning,
     });
 
@@ -295,13 +209,22 @@ Return ONLY the JSON object, no other text.`;
   }
 }
 
+/**
+ * Fail-safe result from an API error or unusable model output - not a real
+ * verdict on the document, so never cached or reused
+ */
+export function isFallbackClassification(result: ClassificationResult): boolean {
+  return result.key_indicators.some((k) => FALLBACK_INDICATORS.includes(k));
+}
+
 /**
  * Batch classify multiple documents
  * Returns array of results in same order as inputs
  */
 export async function classifyDocuments(
   documents: Array<{ rawText: string; fileName: string }>,
-  batchId?: string
+  batchId?: string,
+  llm: LLMProvider = getLLMProvider()
 ): Promise<ClassificationResult[]> {
   const results: ClassificationResult[] = [];
 
@@ -309,7 +232,7 @@ export async function classifyDocuments(
     const doc = documents[i];
 
     try {
-      const result = await classifyDocument(doc.rawText, doc.fileName, batchId);
+      const result = await classifyDocument(doc.rawText, doc.fileName, batchId, llm);
       results.push(result);
 
       // Small delay between classifications to manage rate limits
@@ -0,0 +1,279 @@
+// ============================================
+// FUZZY DUPLICATE MATCHER
+// ============================================
+// Finds existing candidates that are probably the same person even when
+// email/phone differ (new email, work vs personal address):
+// - Pull a shortlist from Supabase on any strong identifier or surname
+// - Score each on email, phone, name similarity, date_of_birth,
+//   linkedin_url, postcode (from address) and work-history overlap
+// - Return scored matches with the features that matched, for reviewers
+
+import { logger } from "@trigger.dev/sdk";
+import { DUPLICATE_CONFIG, ENV, isValidEmail, normalizePhone } from "./config";
+import { ParsedCV } from "./parsedCVSchema";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type DuplicateFeature =
+  | "email"
+  | "phone"
+  | "name"
+  | "date_of_birth"
+  | "linkedin_url"
+  | "postcode"
+  | "work_history";
+
+export interface DuplicateCandidateMatch {
+  candidate_id: string;
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+  score: number; // 0-1
+  matched_features: DuplicateFeature[];
+  updated_at?: string;
+}
+
+// Incoming CV - quick parse gives only name/email/phone, full parse everything
+export type DuplicateProbe = Partial<ParsedCV>;
+
+const CANDIDATE_SELECT =
+  "id,full_name,email,phone,linkedin_url,date_of_birth,address,work_history,updated_at";
+
+// Titles and suffixes ignored when comparing names
+const NAME_NOISE = new Set(["mr", "mrs", "ms", "miss", "dr", "prof", "sir", "jr", "sr", "ii", "iii"]);
+
+// ============================================
+// NORMALISATION
+// ============================================
+
+function nameTokens(name: string | null | undefined): string[] {
+  return (name || "")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z\s'-]/g, " ")
+    .replace(/['-]/g, "")
+    .split(/\s+/)
+    .filter((t) => t && !NAME_NOISE.has(t));
+}
+
+function normalizeLinkedIn(url: string | null | undefined): string | null {
+  const match = (url || "").toLowerCase().match(/linkedin\.com\/in\/([^/?#\s]+)/);
+  return match ? decodeURIComponent(match[1]).replace(/\/$/, "") : null;
+}
+
+/**
+ * UK postcode from a free-text address, normalised (e.g. "SW1A1AA")
+ */
+export function extractPostcode(address: string | null | undefined): string | null {
+  const match = (address || "").toUpperCase().match(/\b([A-Z]{1,2}\d[A-Z\d]?)\s*(\d[A-Z]{2})\b/);
+  return match ? `${match[1]}${match[2]}` : null;
+}
+
+function companyKeys(workHistory: any): Set<string> {
+  const keys = new Set<string>();
+  if (!Array.isArray(workHistory)) return keys;
+
+  for (const entry of workHistory) {
+    const company = String(entry?.company_name || "")
+      .toLowerCase()
+      .replace(/\b(ltd|limited|plc|llp|inc|group|uk)\b/g, "")
+      .replace(/[^a-z0-9]+/g, " ")
+      .trim();
+    if (company) keys.add(company);
+  }
+  return keys;
+}
+
+// ============================================
+// SIMILARITY
+// ============================================
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+function stringSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * 0-1 name similarity. Order-insensitive, and tolerant of a missing
+ * middle name ("Jane A Smith" vs "Jane Smith") and small typos.
+ */
+export function nameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const ta = nameTokens(a);
+  const tb = nameTokens(b);
+  if (ta.length === 0 || tb.length === 0) return 0;
+
+  const full = stringSimilarity([...ta].sort().join(" "), [...tb].sort().join(" "));
+
+  // First + last name only
+  const firstLast = (t: string[]) => (t.length > 1 ? `${t[0]} ${t[t.length - 1]}` : t[0]);
+  const outer = stringSimilarity(firstLast(ta), firstLast(tb));
+
+  return Math.max(full, outer);
+}
+
+function workHistoryOverlap(a: any, b: any): number {
+  const ka = companyKeys(a);
+  const kb = companyKeys(b);
+  if (ka.size === 0 || kb.size === 0) return 0;
+
+  let shared = 0;
+  for (const key of ka) {
+    if (kb.has(key)) shared++;
+  }
+  return shared / Math.min(ka.size, kb.size);
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+/**
+ * Score how likely an existing candidate row is the same person
+ */
+export function scoreDuplicate(
+  probe: DuplicateProbe,
+  existing: any
+): { score: number; matched_features: DuplicateFeature[] } {
+  const weights = DUPLICATE_CONFIG.WEIGHTS;
+  const matched: DuplicateFeature[] = [];
+  let score = 0;
+
+  const add = (feature: DuplicateFeature, weight: number) => {
+    matched.push(feature);
+    score += weight;
+  };
+
+  if (probe.email && existing.email && probe.email.trim().toLowerCase() === String(existing.email).trim().toLowerCase()) {
+    add("email", weights.email);
+  }
+
+  const probePhone = probe.phone ? normalizePhone(probe.phone) : null;
+  if (probePhone && existing.phone && probePhone === normalizePhone(existing.phone)) {
+    add("phone", weights.phone);
+  }
+
+  const nameScore = nameSimilarity(probe.full_name, existing.full_name);
+  if (nameScore >= DUPLICATE_CONFIG.MIN_NAME_SIMILARITY) {
+    add("name", weights.name * nameScore);
+  }
+
+  if (probe.date_of_birth && existing.date_of_birth && probe.date_of_birth === existing.date_of_birth) {
+    add("date_of_birth", weights.date_of_birth);
+  }
+
+  const probeLinkedIn = normalizeLinkedIn(probe.linkedin_url);
+  if (probeLinkedIn && probeLinkedIn === normalizeLinkedIn(existing.linkedin_url)) {
+    add("linkedin_url", weights.linkedin_url);
+  }
+
+  const probePostcode = extractPostcode(probe.address);
+  if (probePostcode && probePostcode === extractPostcode(existing.address)) {
+    add("postcode", weights.postcode);
+  }
+
+  const overlap = workHistoryOverlap(probe.work_history, existing.work_history);
+  if (overlap >= DUPLICATE_CONFIG.MIN_WORK_HISTORY_OVERLAP) {
+    add("work_history", weights.work_history * overlap);
+  }
+
+  return { score: Math.min(1, Math.round(score * 100) / 100), matched_features: matched };
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/["\\]/g, (c) => `\\${c}`)}"`;
+}
+
+/**
+ * Candidates sharing any identifier with the probe (or the same surname)
+ */
+async function fetchPotentialDuplicates(probe: DuplicateProbe): Promise<any[]> {
+  const filters: string[] = [];
+
+  if (probe.email && isValidEmail(probe.email)) {
+    filters.push(`email.ilike.${quoteFilterValue(probe.email.trim())}`);
+  }
+  const phone = probe.phone ? normalizePhone(probe.phone) : null;
+  if (phone) {
+    // Stored phones keep their formatting - compare on the generated normalised column
+    filters.push(`phone_normalized.eq.${quoteFilterValue(phone)}`);
+  }
+  const linkedIn = normalizeLinkedIn(probe.linkedin_url);
+  if (linkedIn) {
+    filters.push(`linkedin_url.ilike.${quoteFilterValue(`*${linkedIn}*`)}`);
+  }
+  if (probe.date_of_birth) {
+    filters.push(`date_of_birth.eq.${quoteFilterValue(probe.date_of_birth)}`);
+  }
+  const tokens = nameTokens(probe.full_name);
+  const surname = tokens.length > 1 ? tokens[tokens.length - 1] : null;
+  if (surname && surname.length >= 2) {
+    filters.push(`full_name.ilike.${quoteFilterValue(`*${surname}*`)}`);
+  }
+
+  if (filters.length === 0) return [];
+
+  const response = await fetch(
+    `${ENV.SUPABASE_URL}/rest/v1/candidates?select=${CANDIDATE_SELECT}&or=${encodeURIComponent(`(${filters.join(",")})`)}&order=updated_at.desc&limit=${DUPLICATE_CONFIG.MAX_CANDIDATES_SCANNED}`,
+    {
+      headers: {
+        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+        apikey: ENV.SUPABASE_SERVICE_KEY,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const t = await response.text();
+    logger.warn("Duplicate candidate lookup failed", { status: response.status, error: t.slice(0, 300) });
+    return [];
+  }
+
+  return await response.json();
+}
+
+/**
+ * Scored list of likely duplicates, best first (score >= REPORT_THRESHOLD)
+ */
+export async function findDuplicateCandidates(
+  probe: DuplicateProbe,
+  excludeCandidateId?: string
+): Promise<DuplicateCandidateMatch[]> {
+  if (!DUPLICATE_CONFIG.ENABLE_FUZZY_MATCHING) return [];
+
+  const rows = await fetchPotentialDuplicates(probe);
+
+  return rows
+    .filter((row) => row.id !== excludeCandidateId)
+    .map((row) => ({
+      candidate_id: row.id,
+      full_name: row.full_name ?? null,
+      email: row.email ?? null,
+      phone: row.phone ?? null,
+      updated_at: row.updated_at,
+      ...scoreDuplicate(probe, row),
+    }))
+    .filter((match) => match.score >= DUPLICATE_CONFIG.REPORT_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, DUPLICATE_CONFIG.MAX_DUPLICATES_LISTED);
+}
@@ -0,0 +1,255 @@
+// ============================================
+// GHL IMPORT NOTE + FOLLOW-UP TASK
+// ============================================
+// After a contact is synced, tell the recruiter what came in without
+// opening the CV:
+// - A note with the classification, parse quality and source batch
+// - A follow-up task for the batch's colleague, due FOLLOW_UP_TASK_DUE_HOURS later
+// Both are recorded in ghl_contact_activity so a re-run doesn't post twice.
+
+import { logger } from "@trigger.dev/sdk";
+import { ENV, GHL_CONFIG } from "./config";
+import { trackGHLCall } from "./costTracker";
+import { ClassificationResult } from "./documentClassifier";
+import { ChunkingReport } from "./chunkedParse";
+import { ParseValidationReport } from "./parsedCVSchema";
+import { findGHLUserId } from "./ghlOpportunities";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ImportActivityInput {
+  candidateId: string;
+  ghlContactId: string;
+  batchId?: string;
+  fileName: string;
+  correlationId: string;
+  classification?: ClassificationResult | null;
+  parseValidation?: ParseValidationReport | null;
+  parseChunking?: ChunkingReport | null;
+  colleague?: string | null; // Looked up on processing_batches when not given
+}
+
+type ActivityKind = "import_note" | "follow_up_task";
+
+// ============================================
+// NOTE / TASK CONTENT
+// ============================================
+
+/**
+ * One-paragraph summary of how well the CV parsed
+ */
+export function summarizeParseQuality(
+  validation?: ParseValidationReport | null,
+  chunking?: ChunkingReport | null
+): string {
+  if (!validation) return "Parse quality: not recorded";
+
+  const counts: Record<string, number> = { ok: 0, coerced: 0, dropped: 0, missing: 0 };
+  for (const status of Object.values(validation.fields)) {
+    counts[status] = (counts[status] || 0) + 1;
+  }
+
+  const lines = [
+    `Parse quality: ${counts.ok} fields ok, ${counts.coerced} corrected, ${counts.dropped} dropped, ${counts.missing} not found`,
+  ];
+  if (chunking && chunking.chunk_count > 1) {
+    lines.push(`Long CV parsed in ${chunking.chunk_count} parts${chunking.truncated ? " (end of CV not parsed)" : ""}`);
+  }
+  if (validation.issues.length > 0) {
+    lines.push(`Issues: ${validation.issues.slice(0, 5).join("; ")}${validation.issues.length > 5 ? "; ..." : ""}`);
+  }
+  return lines.join("\n");
+}
+
+function buildImportNote(input: ImportActivityInput): string {
+  const classification = input.classification
+    ? `Classification: ${input.classification.document_type} (${Math.round(input.classification.confidence * 100)}% confidence) - ${input.classification.reasoning}`
+    : "Classification: not recorded";
+
+  return [
+    "CV imported",
+    `Source file: ${input.fileName}`,
+    `Batch: ${input.batchId || "n/a"}`,
+    `Candidate record: ${input.candidateId}`,
+    classification,
+    summarizeParseQuality(input.parseValidation, input.parseChunking),
+  ].join("\n");
+}
+
+// ============================================
+// POST
+// ============================================
+
+/**
+ * Post the import note and follow-up task (whichever isn't already recorded).
+ * Non-critical: failures are logged, never thrown.
+ */
+export async function postImportActivity(input: ImportActivityInput, accessToken: string): Promise<void> {
+  const wanted: ActivityKind[] = [];
+  if (GHL_CONFIG.ENABLE_IMPORT_NOTES) wanted.push("import_note");
+  if (GHL_CONFIG.ENABLE_FOLLOW_UP_TASKS) wanted.push("follow_up_task");
+  if (wanted.length === 0) return;
+
+  try {
+    const done = await fetchRecordedActivity(input.candidateId, input.batchId);
+    const pending = wanted.filter((kind) => !done.has(kind));
+    if (pending.length === 0) return;
+
+    const colleague =
+      input.colleague !== undefined ? input.colleague : input.batchId ? await fetchBatchColleague(input.batchId) : null;
+    const userId = colleague ? await findGHLUserId(colleague, accessToken) : null;
+
+    for (const kind of pending) {
+      const ghlId =
+        kind === "import_note"
+          ? await createContactNote(input.ghlContactId, buildImportNote(input), userId, accessToken)
+          : await createContactTask(input, colleague, userId, accessToken);
+      await trackGHLCall(kind === "import_note" ? "create_note" : "create_task", input.batchId);
+      await recordActivity(input, kind, ghlId);
+    }
+
+    logger.info("🗒️ Import note / follow-up task posted", {
+      correlationId: input.correlationId,
+      ghlContactId: input.ghlContactId,
+      posted: pending,
+      colleague,
+      assigned: !!userId,
+    });
+  } catch (error: any) {
+    logger.warn("⚠️ Failed to post GHL import note / task", {
+      correlationId: input.correlationId,
+      ghlContactId: input.ghlContactId,
+      error: error.message,
+    });
+  }
+}
+
+// ============================================
+// GHL OPERATIONS
+// ============================================
+
+async function createContactNote(
+  contactId: string,
+  body: string,
+  userId: string | null,
+  accessToken: string
+): Promise<string | null> {
+  const response = await fetch(`${GHL_CONFIG.BASE_URL}/contacts/${contactId}/notes`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+      Version: GHL_CONFIG.API_VERSION,
+    },
+    body: JSON.stringify({ body, ...(userId ? { userId } : {}) }),
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`GHL note create failed: ${response.status} ${t.slice(0, 500)}`);
+  }
+
+  const json = await response.json();
+  return json?.note?.id || null;
+}
+
+async function createContactTask(
+  input: ImportActivityInput,
+  colleague: string | null,
+  userId: string | null,
+  accessToken: string
+): Promise<string | null> {
+  const dueDate = new Date(Date.now() + GHL_CONFIG.FOLLOW_UP_TASK_DUE_HOURS * 60 * 60 * 1000);
+
+  const response = await fetch(`${GHL_CONFIG.BASE_URL}/contacts/${input.ghlContactId}/tasks`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+      Version: GHL_CONFIG.API_VERSION,
+    },
+    body: JSON.stringify({
+      title: GHL_CONFIG.FOLLOW_UP_TASK_TITLE,
+      body: `New CV imported (${input.fileName}) - review and contact the candidate.${colleague && !userId ? ` Colleague: ${colleague}` : ""}`,
+      dueDate: dueDate.toISOString(),
+      completed: false,
+      ...(userId ? { assignedTo: userId } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`GHL task create failed: ${response.status} ${t.slice(0, 500)}`);
+  }
+
+  const json = await response.json();
+  return json?.task?.id || null;
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+async function fetchBatchColleague(batchId: string): Promise<string | null> {
+  const response = await fetch(
+    `${ENV.SUPABASE_URL}/rest/v1/processing_batches?id=eq.${batchId}&select=colleague&limit=1`,
+    {
+      headers: {
+        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+        apikey: ENV.SUPABASE_SERVICE_KEY,
+      },
+    }
+  );
+
+  if (!response.ok) return null;
+
+  const data = await response.json();
+  return data[0]?.colleague || null;
+}
+
+async function fetchRecordedActivity(candidateId: string, batchId?: string): Promise<Set<ActivityKind>> {
+  const batchFilter = batchId ? `batch_id=eq.${batchId}` : "batch_id=is.null";
+  const response = await fetch(
+    `${ENV.SUPABASE_URL}/rest/v1/ghl_contact_activity?candidate_id=eq.${candidateId}&${batchFilter}&select=kind`,
+    {
+      headers: {
+        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+        apikey: ENV.SUPABASE_SERVICE_KEY,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    // Can't tell what was posted - better to skip than to post twice
+    throw new Error(`Failed to fetch GHL contact activity: ${response.status}`);
+  }
+
+  const rows: Array<{ kind: ActivityKind }> = await response.json();
+  return new Set(rows.map((r) => r.kind));
+}
+
+async function recordActivity(input: ImportActivityInput, kind: ActivityKind, ghlId: string | null): Promise<void> {
+  const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/ghl_contact_activity`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+      apikey: ENV.SUPABASE_SERVICE_KEY,
+      "Content-Type": "application/json",
+      Prefer: "return=minimal",
+    },
+    body: JSON.stringify({
+      candidate_id: input.candidateId,
+      batch_id: input.batchId || null,
+      ghl_contact_id: input.ghlContactId,
+      kind,
+      ghl_id: ghlId,
+    }),
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`Failed to record GHL contact activity: ${t.slice(0, 500)}`);
+  }
+}
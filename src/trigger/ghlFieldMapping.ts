@@ -0,0 +1,423 @@
+// ============================================
+// PER-CLIENT GHL FIELD MAPPING
+// ============================================
+// GHL sub-accounts name their custom fields differently. Each client can
+// store its own mapping (ParsedCV path + formatter -> GHL field key or id)
+// in ghl_field_mappings; clients without one use DEFAULT_GHL_FIELD_MAPPING.
+// Mappings are checked against the location's real custom-field list.
+// Before a sync, field keys are resolved to ids and values coerced to the
+// field's type (checkbox, options, number, date) from that same list.
+
+import { logger } from "@trigger.dev/sdk";
+import { ENV, GHL_CONFIG } from "./config";
+import {
+  DEFAULT_GHL_FIELD_MAPPING,
+  GHLCustomFieldValue,
+  GHLFieldMappingEntry,
+  checkFieldMappingEntries,
+} from "./ghlTransformers";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface GHLLocationCustomField {
+  id: string;
+  name: string;
+  fieldKey: string; // "contact.cv_summary"
+  dataType: string; // TEXT, LARGE_TEXT, CHECKBOX, SINGLE_OPTIONS, NUMERICAL, DATE, ...
+  picklistOptions?: string[];
+}
+
+export interface GHLFieldDefinitions {
+  byKey: Map<string, GHLLocationCustomField>; // Key without the "contact." prefix
+  byId: Map<string, GHLLocationCustomField>;
+  fetchedAt: number;
+}
+
+export interface ResolvedCustomField {
+  id?: string;
+  key?: string;
+  value: string | number | string[];
+}
+
+export interface FieldMappingValidation {
+  valid: boolean;
+  issues: string[];
+  unknown_targets: string[]; // ghl_key / ghl_field_id not found on the location
+  location_id: string;
+  location_field_count: number;
+  checked_at: string;
+}
+
+export interface ClientFieldMapping {
+  client_id: string;
+  location_id: string | null;
+  mappings: GHLFieldMappingEntry[];
+  validation: FieldMappingValidation | null;
+}
+
+// Mappings already loaded in this run
+const mappingCache = new Map<string, GHLFieldMappingEntry[]>();
+
+// Location custom fields, per location id
+const definitionsCache = new Map<string, GHLFieldDefinitions>();
+
+// Unknown keys already warned about (once per run is enough)
+const warnedUnknownKeys = new Set<string>();
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "1", "on"]);
+
+// ============================================
+// STORAGE
+// ============================================
+
+export async function fetchClientFieldMapping(clientId: string): Promise<ClientFieldMapping | null> {
+  const response = await fetch(
+    `${ENV.SUPABASE_URL}/rest/v1/ghl_field_mappings?client_id=eq.${encodeURIComponent(clientId)}&select=*&limit=1`,
+    {
+      headers: {
+        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+        apikey: ENV.SUPABASE_SERVICE_KEY,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch GHL field mapping: ${response.status}`);
+  }
+
+  const rows = await response.json();
+  return rows[0] || null;
+}
+
+/**
+ * The mapping to sync a client's candidates with. Falls back to the
+ * default mapping when the client has none (or it can't be loaded).
+ */
+export async function getClientFieldMapping(clientId?: string | null): Promise<GHLFieldMappingEntry[]> {
+  if (!clientId) return DEFAULT_GHL_FIELD_MAPPING;
+
+  const cached = mappingCache.get(clientId);
+  if (cached) return cached;
+
+  let mapping = DEFAULT_GHL_FIELD_MAPPING;
+  try {
+    const stored = await fetchClientFieldMapping(clientId);
+
+    if (stored && Array.isArray(stored.mappings) && stored.mappings.length > 0) {
+      mapping = stored.mappings;
+      if (stored.validation && !stored.validation.valid) {
+        logger.warn("⚠️ Client GHL field mapping failed its last validation", {
+          clientId,
+          issues: stored.validation.issues.slice(0, 10),
+        });
+      }
+    }
+  } catch (error: any) {
+    logger.warn("Failed to load client GHL field mapping - using default", {
+      clientId,
+      error: error.message,
+    });
+  }
+
+  mappingCache.set(clientId, mapping);
+  return mapping;
+}
+
+async function saveFieldMappingValidation(clientId: string, validation: FieldMappingValidation): Promise<void> {
+  const response = await fetch(
+    `${ENV.SUPABASE_URL}/rest/v1/ghl_field_mappings?client_id=eq.${encodeURIComponent(clientId)}`,
+    {
+      method: "PATCH",
+      headers: {
+        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+        apikey: ENV.SUPABASE_SERVICE_KEY,
+        "Content-Type": "application/json",
+        Prefer: "return=minimal",
+      },
+      body: JSON.stringify({ validation, validated_at: validation.checked_at }),
+    }
+  );
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`Failed to save field mapping validation: ${t.slice(0, 800)}`);
+  }
+
+  mappingCache.delete(clientId);
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+export async function fetchLocationCustomFields(
+  locationId: string,
+  accessToken: string
+): Promise<GHLLocationCustomField[]> {
+  const response = await fetch(`${GHL_CONFIG.BASE_URL}/locations/${locationId}/customFields`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Version: GHL_CONFIG.API_VERSION,
+    },
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`GHL custom field list failed: ${response.status} ${t.slice(0, 300)}`);
+  }
+
+  const json = await response.json();
+  return Array.isArray(json?.customFields) ? json.customFields : [];
+}
+
+/**
+ * Check a mapping against the location's custom fields: every target must
+ * exist, and formatters / source paths must be known
+ */
+export async function validateFieldMapping(
+  mapping: GHLFieldMappingEntry[],
+  locationId: string,
+  accessToken: string
+): Promise<FieldMappingValidation> {
+  const locationFields = await fetchLocationCustomFields(locationId, accessToken);
+  const ids = new Set(locationFields.map((f) => f.id));
+  const keys = new Set(locationFields.map((f) => normalizeFieldKey(f.fieldKey || "")));
+
+  const issues = checkFieldMappingEntries(mapping);
+  const unknownTargets: string[] = [];
+
+  for (const entry of mapping) {
+    if (entry.ghl_field_id && !ids.has(entry.ghl_field_id)) {
+      unknownTargets.push(entry.ghl_field_id);
+    } else if (!entry.ghl_field_id && entry.ghl_key && !keys.has(normalizeFieldKey(entry.ghl_key))) {
+      unknownTargets.push(entry.ghl_key);
+    }
+  }
+  issues.push(...unknownTargets.map((target) => `${target}: no such custom field on location ${locationId}`));
+
+  return {
+    valid: issues.length === 0,
+    issues,
+    unknown_targets: unknownTargets,
+    location_id: locationId,
+    location_field_count: locationFields.length,
+    checked_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Validate a client's stored mapping (or the default) against the location
+ * contacts are synced to, and record the result. A mapping saved for
+ * another location is invalid.
+ */
+export async function validateClientFieldMapping(
+  clientId: string,
+  accessToken: string = ENV.GHL_PRIVATE_KEY
+): Promise<FieldMappingValidation> {
+  const stored = await fetchClientFieldMapping(clientId);
+  const mapping = stored?.mappings?.length ? stored.mappings : DEFAULT_GHL_FIELD_MAPPING;
+  const locationId = ENV.GHL_LOCATION_ID;
+
+  const validation = await validateFieldMapping(mapping, locationId, accessToken);
+
+  if (stored?.location_id && stored.location_id !== locationId) {
+    validation.issues.unshift(
+      `Mapping is for location ${stored.location_id}, but contacts sync to location ${locationId}`
+    );
+    validation.valid = false;
+  }
+
+  if (stored) {
+    await saveFieldMappingValidation(clientId, validation);
+  }
+
+  return validation;
+}
+
+// ============================================
+// FIELD DEFINITIONS (key -> id, type)
+// ============================================
+
+function normalizeFieldKey(key: string): string {
+  return key.replace(/^contact\./, "");
+}
+
+/**
+ * The location's custom fields, cached for CUSTOM_FIELD_CACHE_TTL_MS
+ */
+export async function getLocationFieldDefinitions(
+  locationId: string = ENV.GHL_LOCATION_ID,
+  accessToken: string = ENV.GHL_PRIVATE_KEY
+): Promise<GHLFieldDefinitions> {
+  const cached = definitionsCache.get(locationId);
+  if (cached && Date.now() - cached.fetchedAt < GHL_CONFIG.CUSTOM_FIELD_CACHE_TTL_MS) {
+    return cached;
+  }
+
+  const fields = await fetchLocationCustomFields(locationId, accessToken);
+  const definitions: GHLFieldDefinitions = {
+    byKey: new Map(fields.map((f) => [normalizeFieldKey(f.fieldKey || ""), f])),
+    byId: new Map(fields.map((f) => [f.id, f])),
+    fetchedAt: Date.now(),
+  };
+  definitionsCache.set(locationId, definitions);
+
+  logger.info("🗂️ Loaded GHL custom field definitions", { locationId, fields: fields.length });
+  return definitions;
+}
+
+/**
+ * Startup step for a sync run: load the field definitions and warn about
+ * mapped fields the location doesn't have. Never throws - the sync falls
+ * back to sending keys as-is.
+ */
+export async function prepareGHLFieldSync(clientId?: string | null): Promise<void> {
+  if (!GHL_CONFIG.RESOLVE_CUSTOM_FIELD_IDS) return;
+
+  try {
+    const mapping = await getClientFieldMapping(clientId);
+    const definitions = await getLocationFieldDefinitions();
+
+    const missing = mapping
+      .filter((entry) =>
+        entry.ghl_field_id
+          ? !definitions.byId.has(entry.ghl_field_id)
+          : entry.ghl_key && !definitions.byKey.has(normalizeFieldKey(entry.ghl_key))
+      )
+      .map((entry) => entry.ghl_field_id || entry.ghl_key!);
+
+    if (missing.length > 0) {
+      missing.forEach((target) => warnedUnknownKeys.add(target));
+      logger.warn("⚠️ Mapped GHL custom fields not found on location - they will be skipped", {
+        clientId,
+        locationId: ENV.GHL_LOCATION_ID,
+        missing,
+      });
+    }
+  } catch (error: any) {
+    logger.warn("Could not load GHL custom field definitions", { error: error.message });
+  }
+}
+
+// ============================================
+// COERCION
+// ============================================
+
+function matchOption(value: string, options: string[]): string | undefined {
+  const wanted = value.trim().toLowerCase();
+  return options.find((o) => o.trim().toLowerCase() === wanted);
+}
+
+/**
+ * Convert a formatted value to what GHL expects for the field type.
+ * Returns undefined when the value can't be represented (the field is skipped).
+ */
+export function coerceCustomFieldValue(
+  field: GHLLocationCustomField,
+  value: string
+): string | number | string[] | undefined {
+  const options = field.picklistOptions || [];
+
+  switch (field.dataType) {
+    case "CHECKBOX": {
+      if (!value) return [];
+      // "true" / "yes" means tick it: the option named so, or the only option
+      const direct = matchOption(value, options);
+      if (direct) return [direct];
+      if (TRUE_VALUES.has(value.trim().toLowerCase())) {
+        const truthy = options.find((o) => TRUE_VALUES.has(o.trim().toLowerCase()));
+        if (truthy) return [truthy];
+        if (options.length === 1) return [options[0]];
+      }
+      return undefined;
+    }
+
+    case "MULTIPLE_OPTIONS": {
+      const picked = value
+        .split(/[,;\n]/)
+        .map((v) => matchOption(v, options))
+        .filter((v): v is string => !!v);
+      return picked.length > 0 || !value ? picked : undefined;
+    }
+
+    case "SINGLE_OPTIONS":
+    case "RADIO": {
+      if (!value) return "";
+      return matchOption(value, options);
+    }
+
+    case "NUMERICAL":
+    case "MONETORY": {
+      if (!value) return "";
+      const number = Number(value.replace(/[^0-9.\-]/g, ""));
+      return value.match(/\d/) && Number.isFinite(number) ? number : undefined;
+    }
+
+    case "DATE": {
+      if (!value) return "";
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? undefined : date.toISOString().split("T")[0];
+    }
+
+    case "FILE_UPLOAD":
+      // Files are attached through the upload endpoint, never written as a value
+      return undefined;
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Resolve keys to field ids and coerce values to each field's type. Unknown
+ * fields are dropped with a warning, file fields silently (the upload sets
+ * them); if the definitions can't be loaded the values go out unchanged.
+ */
+export async function resolveCustomFieldValues(fields: GHLCustomFieldValue[]): Promise<ResolvedCustomField[]> {
+  if (!GHL_CONFIG.RESOLVE_CUSTOM_FIELD_IDS) return fields;
+
+  let definitions: GHLFieldDefinitions;
+  try {
+    definitions = await getLocationFieldDefinitions();
+  } catch (error: any) {
+    logger.warn("GHL custom field definitions unavailable - sending keys as-is", { error: error.message });
+    return fields;
+  }
+
+  const resolved: ResolvedCustomField[] = [];
+
+  for (const field of fields) {
+    const target = field.id || field.key || "";
+    const definition = field.id
+      ? definitions.byId.get(field.id)
+      : definitions.byKey.get(normalizeFieldKey(field.key || ""));
+
+    if (!definition) {
+      if (!warnedUnknownKeys.has(target)) {
+        warnedUnknownKeys.add(target);
+        logger.warn("⚠️ GHL custom field not found on location - skipping", { field: target });
+      }
+      continue;
+    }
+
+    // The CV / cover letter went into this field through the upload endpoint
+    if (definition.dataType === "FILE_UPLOAD") continue;
+
+    const value = coerceCustomFieldValue(definition, field.value);
+    if (value === undefined) {
+      logger.warn("⚠️ Value doesn't fit GHL field type - skipping", {
+        field: target,
+        dataType: definition.dataType,
+        options: definition.picklistOptions,
+        value: field.value.slice(0, 100),
+      });
+      continue;
+    }
+
+    resolved.push({ id: definition.id, value });
+  }
+
+  return resolved;
+}
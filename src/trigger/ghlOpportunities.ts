@@ -0,0 +1,312 @@
+// ============================================
+// GHL JOB OPPORTUNITIES
+// ============================================
+// Recruiters work candidates through GHL pipelines. For a batch uploaded
+// against a job, every scored candidate gets an opportunity:
+// - In the job's pipeline / stage (or the configured defaults)
+// - Carrying the 0-10 match score, owned by the batch's colleague
+// - Recorded in job_opportunities, so a re-run updates instead of duplicating
+
+import { logger } from "@trigger.dev/sdk";
+import { ENV, GHL_CONFIG } from "./config";
+import { trackGHLCall } from "./costTracker";
+import { CandidateMatch } from "./candidateMatcher";
+import { StoredJob } from "./jobParser";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface OpportunitySyncResult {
+  created: number;
+  updated: number;
+  failed: number;
+  skipped_reason?: string;
+}
+
+interface GHLPipeline {
+  id: string;
+  name: string;
+  stages: Array<{ id: string; name: string }>;
+}
+
+interface GHLUser {
+  id: string;
+  name?: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+}
+
+// Colleague -> GHL user id, per run
+const userIdCache = new Map<string, string | null>();
+
+// ============================================
+// SYNC
+// ============================================
+
+/**
+ * Create or update one opportunity per scored candidate for the job
+ */
+export async function syncJobOpportunities(args: {
+  job: StoredJob;
+  batchId: string;
+  colleague: string | null;
+  matches: CandidateMatch[];
+  contactIdByCandidate: Map<string, string | null>;
+  accessToken: string;
+}): Promise<OpportunitySyncResult> {
+  const { job, batchId, colleague, matches, contactIdByCandidate, accessToken } = args;
+  const result: OpportunitySyncResult = { created: 0, updated: 0, failed: 0 };
+
+  if (!GHL_CONFIG.ENABLE_JOB_OPPORTUNITIES) {
+    return { ...result, skipped_reason: "disabled" };
+  }
+
+  const pipelineId = job.ghl_pipeline_id || ENV.GHL_OPPORTUNITY_PIPELINE_ID;
+  if (!pipelineId) {
+    logger.warn("⚠️ No GHL pipeline configured for job - skipping opportunities", { batchId, jobRef: job.job_ref });
+    return { ...result, skipped_reason: "no_pipeline" };
+  }
+
+  const stageId = job.ghl_pipeline_stage_id || (await findPipelineStageId(pipelineId, accessToken));
+  if (!stageId) {
+    logger.warn("⚠️ GHL pipeline stage not found - skipping opportunities", {
+      batchId,
+      jobRef: job.job_ref,
+      pipelineId,
+      stageName: GHL_CONFIG.OPPORTUNITY_STAGE_NAME,
+    });
+    return { ...result, skipped_reason: "stage_not_found" };
+  }
+
+  const ownerId = colleague ? await findGHLUserId(colleague, accessToken) : null;
+  if (colleague && !ownerId) {
+    logger.warn("⚠️ Colleague is not a GHL user - opportunities left unassigned", { batchId, colleague });
+  }
+
+  const recorded = await fetchRecordedOpportunities(
+    job.job_ref,
+    matches.map((m) => m.candidate_id)
+  );
+
+  const jobLabel = job.title || job.job_ref;
+
+  for (const match of matches) {
+    const contactId = contactIdByCandidate.get(match.candidate_id);
+    if (!contactId) continue; // GHL sync failed for this candidate
+
+    try {
+      const body = {
+        name: `${match.name || "Candidate"} - ${jobLabel}`,
+        ...(ownerId ? { assignedTo: ownerId } : {}),
+        customFields: [{ key: GHL_CONFIG.OPPORTUNITY_SCORE_FIELD_KEY, field_value: match.overall_score }],
+      };
+
+      let opportunityId =
+        recorded.get(match.candidate_id) ||
+        (await searchOpportunity(pipelineId, contactId, jobLabel, accessToken, batchId));
+
+      if (opportunityId) {
+        // Leave the stage alone - the recruiter may have moved it on
+        await updateOpportunity(opportunityId, body, accessToken);
+        await trackGHLCall("update_opportunity", batchId);
+        result.updated++;
+      } else {
+        opportunityId = await createOpportunity(
+          { ...body, pipelineId, pipelineStageId: stageId, contactId, locationId: ENV.GHL_LOCATION_ID, status: "open" },
+          accessToken
+        );
+        await trackGHLCall("create_opportunity", batchId);
+        result.created++;
+      }
+
+      await recordOpportunity({
+        job_id: job.id,
+        job_ref: job.job_ref,
+        batch_id: batchId,
+        candidate_id: match.candidate_id,
+        ghl_contact_id: contactId,
+        ghl_opportunity_id: opportunityId,
+        ghl_pipeline_id: pipelineId,
+        overall_score: match.overall_score,
+        colleague,
+      });
+    } catch (error: any) {
+      result.failed++;
+      logger.warn("Failed to sync GHL opportunity", {
+        batchId,
+        jobRef: job.job_ref,
+        candidateId: match.candidate_id,
+        error: error.message,
+      });
+    }
+  }
+
+  logger.info("✅ Job opportunities synced to GHL", { batchId, jobRef: job.job_ref, pipelineId, ...result });
+
+  return result;
+}
+
+// ============================================
+// GHL OPERATIONS
+// ============================================
+
+function ghlHeaders(accessToken: string): Record<string, string> {
+  return {
+    Authorization: `Bearer ${accessToken}`,
+    "Content-Type": "application/json",
+    Version: GHL_CONFIG.API_VERSION,
+  };
+}
+
+async function findPipelineStageId(pipelineId: string, accessToken: string): Promise<string | null> {
+  const response = await fetch(`${GHL_CONFIG.BASE_URL}/opportunities/pipelines?locationId=${ENV.GHL_LOCATION_ID}`, {
+    headers: ghlHeaders(accessToken),
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`GHL pipeline list failed: ${response.status} ${t.slice(0, 300)}`);
+  }
+
+  const json = await response.json();
+  const pipeline = ((json?.pipelines || []) as GHLPipeline[]).find((p) => p.id === pipelineId);
+  if (!pipeline) return null;
+
+  const wanted = GHL_CONFIG.OPPORTUNITY_STAGE_NAME.toLowerCase();
+  const stage = pipeline.stages.find((s) => s.name.trim().toLowerCase() === wanted);
+  return stage?.id || null;
+}
+
+/**
+ * GHL user id for a colleague, matched on name or email
+ */
+export async function findGHLUserId(colleague: string, accessToken: string): Promise<string | null> {
+  const wanted = colleague.trim().toLowerCase();
+  if (userIdCache.has(wanted)) return userIdCache.get(wanted)!;
+
+  const response = await fetch(`${GHL_CONFIG.BASE_URL}/users/?locationId=${ENV.GHL_LOCATION_ID}`, {
+    headers: ghlHeaders(accessToken),
+  });
+
+  if (!response.ok) {
+    logger.warn("GHL user list failed", { status: response.status });
+    return null;
+  }
+
+  const json = await response.json();
+  const user = ((json?.users || []) as GHLUser[]).find((u) =>
+    [u.name, [u.firstName, u.lastName].filter(Boolean).join(" "), u.email].some(
+      (candidate) => candidate && candidate.trim().toLowerCase() === wanted
+    )
+  );
+  userIdCache.set(wanted, user?.id || null);
+  return user?.id || null;
+}
+
+/**
+ * Existing opportunity for the contact and this job (covers a run that
+ * created it but died before recording it). Jobs can share a pipeline, so
+ * only one named for this job counts.
+ */
+async function searchOpportunity(
+  pipelineId: string,
+  contactId: string,
+  jobLabel: string,
+  accessToken: string,
+  batchId: string
+): Promise<string | null> {
+  const response = await fetch(
+    `${GHL_CONFIG.BASE_URL}/opportunities/search?location_id=${ENV.GHL_LOCATION_ID}&pipeline_id=${pipelineId}&contact_id=${contactId}`,
+    { headers: ghlHeaders(accessToken) }
+  );
+  await trackGHLCall("search_opportunity", batchId);
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`GHL opportunity search failed: ${response.status} ${t.slice(0, 300)}`);
+  }
+
+  const json = await response.json();
+  const suffix = ` - ${jobLabel}`.toLowerCase();
+  const opportunity = ((json?.opportunities || []) as Array<{ id: string; name?: string }>).find((o) =>
+    (o.name || "").trim().toLowerCase().endsWith(suffix)
+  );
+  return opportunity?.id || null;
+}
+
+async function createOpportunity(body: Record<string, any>, accessToken: string): Promise<string> {
+  const response = await fetch(`${GHL_CONFIG.BASE_URL}/opportunities/`, {
+    method: "POST",
+    headers: ghlHeaders(accessToken),
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`GHL opportunity create failed: ${response.status} ${t.slice(0, 800)}`);
+  }
+
+  const json = await response.json();
+  const id = json?.opportunity?.id || json?.id;
+  if (!id) throw new Error("GHL opportunity created but no id returned");
+  return id;
+}
+
+async function updateOpportunity(opportunityId: string, body: Record<string, any>, accessToken: string): Promise<void> {
+  const response = await fetch(`${GHL_CONFIG.BASE_URL}/opportunities/${opportunityId}`, {
+    method: "PUT",
+    headers: ghlHeaders(accessToken),
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`GHL opportunity update failed: ${response.status} ${t.slice(0, 800)}`);
+  }
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+async function fetchRecordedOpportunities(jobRef: string, candidateIds: string[]): Promise<Map<string, string>> {
+  if (candidateIds.length === 0) return new Map();
+
+  const response = await fetch(
+    `${ENV.SUPABASE_URL}/rest/v1/job_opportunities?job_ref=eq.${encodeURIComponent(jobRef)}&candidate_id=in.(${candidateIds.join(",")})&select=candidate_id,ghl_opportunity_id`,
+    {
+      headers: {
+        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+        apikey: ENV.SUPABASE_SERVICE_KEY,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`Failed to fetch job opportunities: ${response.status} ${t.slice(0, 500)}`);
+  }
+
+  const rows: Array<{ candidate_id: string; ghl_opportunity_id: string }> = await response.json();
+  return new Map(rows.map((r) => [r.candidate_id, r.ghl_opportunity_id]));
+}
+
+async function recordOpportunity(row: Record<string, any>): Promise<void> {
+  const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/job_opportunities?on_conflict=job_ref,candidate_id`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+      apikey: ENV.SUPABASE_SERVICE_KEY,
+      "Content-Type": "application/json",
+      Prefer: "resolution=merge-duplicates,return=minimal",
+    },
+    body: JSON.stringify({ ...row, updated_at: new Date().toISOString() }),
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`Failed to record job opportunity: ${response.status} ${t.slice(0, 800)}`);
+  }
+}
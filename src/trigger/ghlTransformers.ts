@@ -70,6 +70,27 @@ interface ProfessionalMembershipItem {
 // UTILITY FUNCTIONS
 // ============================================
 
+/**
+ * Treat anything that isn't an array as empty - stored rows can predate
+ * parse validation, and a malformed field must never break the GHL sync
+ */
+function asArray<T = any>(value: unknown): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function isObject(value: unknown): boolean {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Same for free-text fields
+ */
+function asText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  return "";
+}
+
 /**
  * Split full name into first and last name
  */
@@ -120,7 +141,7 @@ export function formatWorkHistory(workHistory: WorkHistoryItem[]): string {
 
       let duties = "";
       if (job.duties_responsibilities) {
-        const dutyList = job.duties_responsibilities
+        const dutyList = asText(job.duties_responsibilities)
           .split("\n")
           .filter((d) => d.trim())
           .map((d) => `  - ${d.trim()}`)
@@ -377,188 +398,223 @@ function truncateToLimit(text: string, maxLength: number): string {
 }
 
 // ============================================
-// COMPLETE GHL FIELD MAPPING - WITH 5 PARAMS
+// FIELD MAPPING (ParsedCV -> GHL custom fields)
 // ============================================
 
+export type GHLFieldLengthLimit = keyof typeof GHL_FIELD_MAPPING.MAX_FIELD_LENGTH;
+
 /**
- * Build COMPLETE GHL custom fields object with ALL 51 fields + system fields + file URLs
- * 
- * @param data - Parsed CV data
- * @param candidateId - Supabase candidate ID (for database_record_id)
- * @param cvFileUrl - URL of uploaded CV file (for candidate_provided_cv)
- * @param coverLetterUrl - URL of uploaded cover letter (for cover_letter)
- * @param otherDocsUrl - URL of uploaded other docs (for application__other_documents)
+ * One GHL custom field. The value comes from `value` (a constant - "" clears
+ * the field) or from `source` - a ParsedCV path ("cv_summary",
+ * "work_history[0].job_title") or a sync value ("$candidate_id", "$cv_file_url",
+ * "$cover_letter_url", "$other_docs_url") - run through `formatter`.
+ * Targets a field by key or id.
  */
-export function buildCompleteGHLCustomFields(
-  data: any,
-  candidateId?: string,
-  cvFileUrl?: string | null,
-  coverLetterUrl?: string | null,
-  otherDocsUrl?: string | null
-): Record<string, string> {
-  const fields: Record<string, string> = {};
-  const config = GHL_FIELD_MAPPING.SYNC_FIELDS;
-  const limits = GHL_FIELD_MAPPING.MAX_FIELD_LENGTH;
-
-  // ============================================
-  // 🔥 SYSTEM FIELDS (ALWAYS INCLUDED)
-  // ============================================
-  
-  // Database Record ID - links to Supabase
-  if (candidateId) {
-    fields.database_record_id = candidateId;
-  }
-
-  // Client or Candidate - checkbox, always "true" for CV uploads (FIXED!)
-  fields.client_or_candidate = "true";
-
-  // ============================================
-  // 🔥 FILE UPLOAD FIELDS
-  // ============================================
-  
-  // Candidate Provided CV (the main CV file)
-  if (cvFileUrl) {
-    fields.candidate_provided_cv = cvFileUrl;
-  }
-
-  // Cover Letter
-  if (coverLetterUrl) {
-    fields.cover_letter = coverLetterUrl;
-  }
-
-  // Application / Other Documents (note the double underscore!)
-  if (otherDocsUrl) {
-    fields.application__other_documents = otherDocsUrl;
-  }
-
-  // ============================================
-  // CANDIDATE DATA FIELDS
-  // ============================================
-
-  // Core identity
-  if (config.cv_summary) {
-    fields.cv_summary = truncateToLimit(data.cv_summary || "", limits.textarea);
-  }
-
-  // Current job info
-  const currentJob = data.work_history?.[0] || {};
-
-  if (config.current_job_title) {
-    fields.current_job_title = truncateToLimit(currentJob.job_title || "", limits.text);
-  }
+export interface GHLFieldMappingEntry {
+  ghl_key?: string;
+  ghl_field_id?: string;
+  source?: string;
+  formatter?: string; // Name in GHL_FIELD_FORMATTERS (default "text")
+  value?: string;
+  max_length?: GHLFieldLengthLimit;
+}
 
-  if (config.current_tenure) {
-    fields.current_tenure = calculateTenure(currentJob.start_date);
-  }
+export interface GHLSyncValues {
+  candidate_id?: string;
+  cv_file_url?: string | null;
+  cover_letter_url?: string | null;
+  other_docs_url?: string | null;
+}
 
-  // Work history (formatted)
-  if (config.past_work_experiences) {
-    fields.past_work_experiences = truncateToLimit(
-      formatWorkHistory(data.work_history || []),
-      limits.textarea
-    );
-  }
+export interface GHLCustomFieldValue {
+  key?: string;
+  id?: string;
+  value: string;
+}
 
-  // Skills & qualifications
-  if (config.candidate_skills_summery) {
-    fields.candidate_skills_summery = truncateToLimit(
-      formatSkills(data.skills || []),
-      limits.textarea
-    );
-  }
+/**
+ * Formatters available to mappings: (resolved source value, whole ParsedCV) -> text
+ */
+export const GHL_FIELD_FORMATTERS: Record<string, (value: unknown, data: any) => string> = {
+  text: (value) => asText(value),
+  text_or_none: (value) => asText(value) || "None",
+  tenure: (value) => calculateTenure(asText(value) || null),
+  work_history: (value) => formatWorkHistory(asArray(value).filter(isObject)),
+  skills: (value) => formatSkills(asArray(value).map(asText).filter(Boolean)),
+  education: (value) => formatEducation(asArray(value).filter(isObject)),
+  certifications: (value) => formatCertifications(asArray(value).filter(isObject)),
+  professional_memberships: (value) => formatProfessionalMemberships(asArray(value)),
+  languages: (value) => formatLanguages(asArray(value).filter(isObject)),
+  training_courses: (value) => formatTrainingCourses(asArray(value)),
+  awards: (value) => formatAwardsHonours(asArray(value)),
+  hobbies_and_volunteering: (_value, data) =>
+    formatHobbiesAndVolunteering(asArray(data.volunteering), asArray(data.interests_hobbies)),
+  nationality_visa: (_value, data) =>
+    formatNationalityVisa(asText(data.nationality) || null, asText(data.visa_work_permit) || null),
+  references: (value) => formatReferences(value),
+};
+
+const SYNC_VALUE_SOURCES = ["$candidate_id", "$cv_file_url", "$cover_letter_url", "$other_docs_url"];
 
-  if (config.candidate_education_history) {
-    fields.candidate_education_history = truncateToLimit(
-      formatEducation(data.education || []),
-      limits.textarea
-    );
-  }
+/**
+ * The standard mapping (Hexona's own GHL location), honouring SYNC_FIELDS
+ */
+function buildDefaultFieldMapping(): GHLFieldMappingEntry[] {
+  const config = GHL_FIELD_MAPPING.SYNC_FIELDS;
 
-  if (config.candidate_qualifications) {
-    fields.candidate_qualifications = truncateToLimit(
-      formatCertifications(data.certifications || []),
-      limits.textarea
-    );
-  }
+  const dataFields: Array<[keyof typeof config, GHLFieldMappingEntry]> = [
+    ["cv_summary", { source: "cv_summary", max_length: "textarea" }],
+    ["current_job_title", { source: "work_history[0].job_title", max_length: "text" }],
+    ["current_tenure", { source: "work_history[0].start_date", formatter: "tenure" }],
+    ["past_work_experiences", { source: "work_history", formatter: "work_history", max_length: "textarea" }],
+    ["candidate_skills_summery", { source: "skills", formatter: "skills", max_length: "textarea" }],
+    ["candidate_education_history", { source: "education", formatter: "education", max_length: "textarea" }],
+    ["candidate_qualifications", { source: "certifications", formatter: "certifications", max_length: "textarea" }],
+    [
+      "professional_memberships",
+      { source: "professional_memberships", formatter: "professional_memberships", max_length: "textarea" },
+    ],
+    ["languages_spoken", { source: "languages", formatter: "languages", max_length: "textarea" }],
+    ["candidate_hobbies", { formatter: "hobbies_and_volunteering", max_length: "textarea" }],
+    ["future_job_aspirations", { source: "future_job_aspirations", max_length: "textarea" }],
+    ["candidate_salary_expectation", { source: "salary_expectation", max_length: "text" }],
+    ["current_notice_period", { source: "notice_period", max_length: "text" }],
+    ["nationality_nonbritish_visa_either_cu", { formatter: "nationality_visa", max_length: "text" }],
+    ["references_contact_information", { source: "candidate_references", formatter: "references", max_length: "textarea" }],
+    ["linked_in_url", { source: "linkedin_url", max_length: "url" }],
+    ["military_experience", { source: "military_service", formatter: "text_or_none", max_length: "text" }],
+    ["candidate_provided_cv_text", { source: "cv_raw_text", max_length: "textarea" }],
+  ];
+
+  return [
+    // System fields
+    { ghl_key: "database_record_id", source: "$candidate_id" }, // Links to Supabase
+    { ghl_key: "client_or_candidate", value: "true" }, // Checkbox - always "true" for CV uploads
+
+    // File upload fields
+    { ghl_key: "candidate_provided_cv", source: "$cv_file_url" },
+    { ghl_key: "cover_letter", source: "$cover_letter_url" },
+    { ghl_key: "application__other_documents", source: "$other_docs_url" }, // Note the double underscore!
+
+    // Candidate data fields
+    ...dataFields.filter(([key]) => config[key]).map(([key, entry]) => ({ ghl_key: key, ...entry })),
+  ];
+}
 
-  if (config.professional_memberships) {
-    fields.professional_memberships = truncateToLimit(
-      formatProfessionalMemberships(data.professional_memberships || []),
-      limits.textarea
-    );
-  }
+export const DEFAULT_GHL_FIELD_MAPPING: GHLFieldMappingEntry[] = buildDefaultFieldMapping();
 
-  // Languages & personal
-  if (config.languages_spoken) {
-    fields.languages_spoken = truncateToLimit(
-      formatLanguages(data.languages || []),
-      limits.textarea
-    );
+/**
+ * Read a ParsedCV path like "work_history[0].job_title"
+ */
+export function resolveSourcePath(data: any, path: string): unknown {
+  let current: any = data;
+  for (const part of path.split(".")) {
+    const match = part.match(/^([A-Za-z0-9_]+)((?:\[\d+\])*)$/);
+    if (!match) return undefined;
+
+    current = current?.[match[1]];
+    for (const index of match[2].match(/\d+/g) || []) {
+      current = Array.isArray(current) ? current[Number(index)] : undefined;
+    }
+    if (current === undefined || current === null) return current;
   }
+  return current;
+}
 
-  if (config.candidate_hobbies) {
-    fields.candidate_hobbies = truncateToLimit(
-      formatHobbiesAndVolunteering(
-        data.volunteering || [],
-        data.interests_hobbies || []
-      ),
-      limits.textarea
-    );
-  }
+/**
+ * Build GHL custom field values from a mapping. Empty sync values ($...) and
+ * ParsedCV fields are left out, so a CV that doesn't mention something never
+ * wipes what the contact already has. Only a constant `value` of "" clears a field.
+ */
+export function buildMappedGHLCustomFields(
+  mapping: GHLFieldMappingEntry[],
+  data: any,
+  syncValues: GHLSyncValues = {}
+): GHLCustomFieldValue[] {
+  data = data && typeof data === "object" ? data : {};
+  const limits = GHL_FIELD_MAPPING.MAX_FIELD_LENGTH;
+  const fields: GHLCustomFieldValue[] = [];
+
+  for (const entry of mapping) {
+    if (!entry.ghl_key && !entry.ghl_field_id) continue;
+    const target = entry.ghl_field_id ? { id: entry.ghl_field_id } : { key: entry.ghl_key };
+
+    let value: string;
+    if (entry.value !== undefined) {
+      value = entry.value;
+    } else if (entry.source?.startsWith("$")) {
+      value = asText((syncValues as any)[entry.source.slice(1)]);
+    } else {
+      const formatter = GHL_FIELD_FORMATTERS[entry.formatter || "text"] || GHL_FIELD_FORMATTERS.text;
+      value = formatter(entry.source ? resolveSourcePath(data, entry.source) : undefined, data);
+    }
+    if (!value && entry.value === undefined) continue;
 
-  // Career details
-  if (config.future_job_aspirations) {
-    fields.future_job_aspirations = truncateToLimit(
-      data.future_job_aspirations || "",
-      limits.textarea
-    );
+    fields.push({ ...target, value: entry.max_length ? truncateToLimit(value, limits[entry.max_length]) : value });
   }
 
-  if (config.candidate_salary_expectation) {
-    fields.candidate_salary_expectation = truncateToLimit(
-      data.salary_expectation || "",
-      limits.text
-    );
-  }
+  return fields;
+}
 
-  if (config.current_notice_period) {
-    fields.current_notice_period = truncateToLimit(data.notice_period || "", limits.text);
-  }
+/**
+ * Problems with a mapping that don't need GHL to spot (bad formatter, bad path)
+ */
+export function checkFieldMappingEntries(mapping: GHLFieldMappingEntry[]): string[] {
+  const issues: string[] = [];
+  const limits = GHL_FIELD_MAPPING.MAX_FIELD_LENGTH;
 
-  // Location & authorization
-  if (config.nationality_nonbritish_visa_either_cu) {
-    fields.nationality_nonbritish_visa_either_cu = truncateToLimit(
-      formatNationalityVisa(data.nationality, data.visa_work_permit),
-      limits.text
-    );
-  }
+  mapping.forEach((entry, index) => {
+    const label = entry.ghl_key || entry.ghl_field_id || `entry ${index}`;
+    if (!entry.ghl_key && !entry.ghl_field_id) {
+      issues.push(`${label}: needs ghl_key or ghl_field_id`);
+    }
+    if (entry.formatter && !GHL_FIELD_FORMATTERS[entry.formatter]) {
+      issues.push(`${label}: unknown formatter "${entry.formatter}"`);
+    }
+    if (entry.source?.startsWith("$") && !SYNC_VALUE_SOURCES.includes(entry.source)) {
+      issues.push(`${label}: unknown sync value "${entry.source}"`);
+    }
+    if (entry.source && !entry.source.startsWith("$") && !/^[A-Za-z0-9_]+(\[\d+\])*(\.[A-Za-z0-9_]+(\[\d+\])*)*$/.test(entry.source)) {
+      issues.push(`${label}: invalid source path "${entry.source}"`);
+    }
+    if (entry.max_length && !(entry.max_length in limits)) {
+      issues.push(`${label}: unknown max_length "${entry.max_length}"`);
+    }
+  });
 
-  // References
-  if (config.references_contact_information) {
-    fields.references_contact_information = truncateToLimit(
-      formatReferences(data.candidate_references),
-      limits.textarea
-    );
-  }
+  return issues;
+}
 
-  // Additional info
-  if (config.linked_in_url) {
-    fields.linked_in_url = truncateToLimit(data.linkedin_url || "", limits.url);
-  }
+// ============================================
+// COMPLETE GHL FIELD MAPPING - WITH 5 PARAMS
+// ============================================
 
-  if (config.military_experience) {
-    fields.military_experience = truncateToLimit(
-      data.military_service || "None",
-      limits.text
-    );
-  }
+/**
+ * Build COMPLETE GHL custom fields object with ALL 51 fields + system fields + file URLs
+ * (the default mapping, keyed by field key)
+ * 
+ * @param data - Parsed CV data
+ * @param candidateId - Supabase candidate ID (for database_record_id)
+ * @param cvFileUrl - URL of uploaded CV file (for candidate_provided_cv)
+ * @param coverLetterUrl - URL of uploaded cover letter (for cover_letter)
+ * @param otherDocsUrl - URL of uploaded other docs (for application__other_documents)
+ */
+export function buildCompleteGHLCustomFields(
+  data: any,
+  candidateId?: string,
+  cvFileUrl?: string | null,
+  coverLetterUrl?: string | null,
+  otherDocsUrl?: string | null
+): Record<string, string> {
+  const fields: Record<string, string> = {};
 
-  // Raw CV text (for AI matching later)
-  if (config.candidate_provided_cv_text) {
-    fields.candidate_provided_cv_text = truncateToLimit(
-      data.cv_raw_text || "",
-      limits.textarea
-    );
+  for (const field of buildMappedGHLCustomFields(DEFAULT_GHL_FIELD_MAPPING, data, {
+    candidate_id: candidateId,
+    cv_file_url: cvFileUrl,
+    cover_letter_url: coverLetterUrl,
+    other_docs_url: otherDocsUrl,
+  })) {
+    if (field.key) fields[field.key] = field.value;
   }
 
   return fields;
@@ -0,0 +1,241 @@
+// ============================================
+// JOB DESCRIPTION PARSER
+// ============================================
+// Turns job description text into a typed ParsedJob record
+// and stores it in the jobs table, keyed by the job reference
+// recruiters type into the CV uploader and Role Matcher
+
+import { logger } from "@trigger.dev/sdk";
+import { ENV, MATCHING_CONFIG, truncateForLog } from "./config";
+import { JobRequirements } from "./candidateMatcher";
+import { LLMCallInfo, LLMProvider, getLLMProvider } from "./llmProvider";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type JobSeniority = "entry" | "junior" | "mid" | "senior" | "lead" | "executive";
+
+export interface ParsedJob {
+  title: string | null;
+  location: string | null;
+  town: string | null;
+  country: string | null;
+  must_have_skills: string[];
+  nice_to_have_skills: string[];
+  seniority: JobSeniority | null;
+  min_years_experience: number | null;
+  salary_min: number | null;
+  salary_max: number | null;
+  salary_currency: string | null;
+  salary_period: "annual" | "daily" | "hourly" | null;
+  sector: string | null;
+  required_certifications: string[];
+  keywords: string[];
+  summary: string | null;
+}
+
+export interface StoredJob extends ParsedJob {
+  id: string;
+  job_ref: string;
+  client_id: string | null;
+  jd_file_path: string | null;
+  ghl_pipeline_id?: string | null; // GHL pipeline for this job's opportunities
+  ghl_pipeline_stage_id?: string | null;
+}
+
+const SENIORITY_LEVELS: JobSeniority[] = ["entry", "junior", "mid", "senior", "lead", "executive"];
+
+// ============================================
+// LLM - JOB PARSE
+// ============================================
+
+/**
+ * Parse job description text into a ParsedJob - job is null when the model
+ * output isn't valid JSON, so callers never store an empty job
+ */
+export async function parseJobText(
+  rawText: string,
+  llm: LLMProvider = getLLMProvider()
+): Promise<{ job: ParsedJob | null; call: LLMCallInfo }> {
+  const sampleText = rawText.substring(0, MATCHING_CONFIG.MAX_JD_TEXT_LENGTH);
+
+  const prompt = `Extract ALL structured data from this job description. Return ONLY valid JSON in this exact format:
+
+{
+  "title": "string or null",
+  "location": "string or null (as written in the advert)",
+  "town": "string or null",
+  "country": "string or null",
+  "must_have_skills": ["string"],
+  "nice_to_have_skills": ["string"],
+  "seniority": "entry" | "junior" | "mid" | "senior" | "lead" | "executive" | null,
+  "min_years_experience": "number or null",
+  "salary_min": "number or null",
+  "salary_max": "number or null",
+  "salary_currency": "ISO code (e.g. GBP) or null",
+  "salary_period": "annual" | "daily" | "hourly" | null,
+  "sector": "string or null",
+  "required_certifications": ["string"],
+  "keywords": ["sector or domain terms, e.g. fintech, b2b saas, nhs"],
+  "summary": "2-3 sentence summary of the role or null"
+}
+
+Rules:
+- Keep each skill to 1-4 words as it would appear on a CV (e.g. "Salesforce", "Power BI", "stakeholder management")
+- Only list a skill as must-have if the advert says it is required/essential
+- Salary figures are plain numbers (e.g. 45000, not "45k")
+
+Job description:
+${sampleText}
+
+Return ONLY the JSON object, no other text.`;
+
+  const { text: output, model, usage } = await llm.generateJson({ operation: "job_parse", prompt });
+  const call = { model, usage };
+
+  try {
+    return { job: normalizeParsedJob(JSON.parse(output)), call };
+  } catch {
+    logger.error("Failed to parse job parse output", {
+      model,
+      outputPreview: truncateForLog(output, 1000),
+    });
+    return { job: null, call };
+  }
+}
+
+function toStringOrNull(value: any): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * First number in a model value - "£45,000 - £55,000" is 45000, "45k" is 45000
+ */
+function toNumberOrNull(value: any): number | null {
+  if (typeof value === "number" && isFinite(value)) return value;
+  if (typeof value === "string") {
+    const match = value.match(/(\d[\d,]*(?:\.\d+)?)\s*(k\b)?/i);
+    if (!match) return null;
+    const n = parseFloat(match[1].replace(/,/g, "")) * (match[2] ? 1000 : 1);
+    return isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+function toStringArray(value: any): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((v) => typeof v === "string" && v.trim()).map((v) => v.trim());
+}
+
+/**
+ * Coerce raw model output into a well-typed ParsedJob
+ */
+function normalizeParsedJob(raw: any): ParsedJob {
+  const seniority = typeof raw?.seniority === "string" ? raw.seniority.toLowerCase() : null;
+  const period = typeof raw?.salary_period === "string" ? raw.salary_period.toLowerCase() : null;
+
+  return {
+    title: toStringOrNull(raw?.title),
+    location: toStringOrNull(raw?.location),
+    town: toStringOrNull(raw?.town),
+    country: toStringOrNull(raw?.country),
+    must_have_skills: toStringArray(raw?.must_have_skills),
+    nice_to_have_skills: toStringArray(raw?.nice_to_have_skills),
+    seniority: SENIORITY_LEVELS.includes(seniority) ? seniority : null,
+    min_years_experience: toNumberOrNull(raw?.min_years_experience),
+    salary_min: toNumberOrNull(raw?.salary_min),
+    salary_max: toNumberOrNull(raw?.salary_max),
+    salary_currency: toStringOrNull(raw?.salary_currency)?.toUpperCase() ?? null,
+    salary_period: period === "annual" || period === "daily" || period === "hourly" ? period : null,
+    sector: toStringOrNull(raw?.sector),
+    required_certifications: toStringArray(raw?.required_certifications),
+    keywords: toStringArray(raw?.keywords),
+    summary: toStringOrNull(raw?.summary),
+  };
+}
+
+/**
+ * Reduce a ParsedJob to what the candidate matcher scores against.
+ * Required certifications are treated as must-have skills.
+ */
+export function toJobRequirements(job: ParsedJob): JobRequirements {
+  return {
+    title: job.title,
+    required_skills: [...job.must_have_skills, ...job.required_certifications],
+    preferred_skills: job.nice_to_have_skills,
+    min_years_experience: job.min_years_experience,
+    keywords: [...(job.sector ? [job.sector] : []), ...job.keywords],
+  };
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+/**
+ * Insert or update a parsed job (upsert on job_ref)
+ */
+export async function saveParsedJob(
+  jobRef: string,
+  job: ParsedJob,
+  extra: {
+    client_id?: string | null;
+    jd_file_path?: string | null;
+    jd_raw_text?: string | null;
+    parse_model?: string | null;
+  }
+): Promise<StoredJob> {
+  const record = {
+    job_ref: jobRef,
+    ...job,
+    client_id: extra.client_id || null,
+    jd_file_path: extra.jd_file_path || null,
+    jd_raw_text: extra.jd_raw_text || null,
+    parse_model: extra.parse_model || null,
+    parsed_at: new Date().toISOString(),
+  };
+
+  const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/jobs?on_conflict=job_ref`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+      apikey: ENV.SUPABASE_SERVICE_KEY,
+      "Content-Type": "application/json",
+      Prefer: "resolution=merge-duplicates,return=representation",
+    },
+    body: JSON.stringify(record),
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`Failed to save job: ${response.status} ${t.slice(0, 800)}`);
+  }
+
+  const result = await response.json();
+  if (!result?.[0]?.id) throw new Error("Job upsert succeeded but no id returned");
+  return result[0];
+}
+
+/**
+ * Fetch a stored job by its reference (e.g. "JOB-2025-001")
+ */
+export async function fetchJobByRef(jobRef: string): Promise<StoredJob | null> {
+  const response = await fetch(
+    `${ENV.SUPABASE_URL}/rest/v1/jobs?job_ref=eq.${encodeURIComponent(jobRef)}&select=*&limit=1`,
+    {
+      headers: {
+        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+        apikey: ENV.SUPABASE_SERVICE_KEY,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    logger.warn("Failed to fetch job", { jobRef, status: response.status });
+    return null;
+  }
+
+  const data = await response.json();
+  return data[0] || null;
+}
@@ -0,0 +1,273 @@
+// ============================================
+// JOB SHORTLIST
+// ============================================
+// Scores a batch's new candidates against the job the batch was
+// uploaded for, stores a ranked shortlist in job_shortlists and
+// tags the shortlisted contacts in GHL for the assigned colleague.
+// Every scored candidate also gets a GHL opportunity for the job.
+// Candidates approved from the hold queue later join the same shortlist.
+
+import { logger } from "@trigger.dev/sdk";
+import { ENV, GHL_CONFIG, MATCHING_CONFIG } from "./config";
+import { trackGHLCall } from "./costTracker";
+import { CandidateMatch, MatchableCandidate, rankCandidates } from "./candidateMatcher";
+import { fetchJobByRef, toJobRequirements } from "./jobParser";
+import { OpportunitySyncResult, syncJobOpportunities } from "./ghlOpportunities";
+
+// ============================================
+// TYPES
+// ============================================
+
+interface ShortlistCandidate extends MatchableCandidate {
+  ghl_contact_id: string | null;
+}
+
+export interface ShortlistResult {
+  scored: number;
+  shortlisted: number;
+  tagged: number;
+  opportunities?: OpportunitySyncResult;
+  skipped_reason?: string;
+}
+
+// ============================================
+// SHORTLIST
+// ============================================
+
+/**
+ * Build, store and sync the shortlist for a completed batch - or add
+ * candidates approved later to it
+ */
+export async function createJobShortlist(args: {
+  jobRef: string;
+  batchId: string;
+  colleague: string | null;
+  candidateIds: string[];
+  ghlAccessToken: string;
+}): Promise<ShortlistResult> {
+  const { jobRef, batchId, colleague, candidateIds, ghlAccessToken } = args;
+
+  if (candidateIds.length === 0) {
+    return { scored: 0, shortlisted: 0, tagged: 0, skipped_reason: "no_candidates" };
+  }
+
+  const job = await fetchJobByRef(jobRef);
+  if (!job) {
+    logger.warn("⚠️ Batch job has not been parsed - skipping shortlist", { batchId, jobRef });
+    return { scored: 0, shortlisted: 0, tagged: 0, skipped_reason: "job_not_found" };
+  }
+
+  const candidates = await fetchShortlistCandidates(candidateIds);
+  const ranked = rankCandidates(candidates, toJobRequirements(job));
+
+  const shortlist = ranked
+    .filter((m) => m.overall_score >= MATCHING_CONFIG.SHORTLIST_MIN_SCORE)
+    .slice(0, MATCHING_CONFIG.SHORTLIST_MAX_SIZE);
+
+  logger.info("📋 Shortlist built", {
+    batchId,
+    jobRef,
+    scored: ranked.length,
+    shortlisted: shortlist.length,
+    topScore: ranked[0]?.overall_score ?? null,
+  });
+
+  const contactIdByCandidate = new Map(candidates.map((c) => [c.id, c.ghl_contact_id]));
+
+  // Opportunities for everyone scored, not just the shortlist
+  let opportunities: OpportunitySyncResult | undefined;
+  try {
+    opportunities = await syncJobOpportunities({
+      job,
+      batchId,
+      colleague,
+      matches: ranked,
+      contactIdByCandidate,
+      accessToken: ghlAccessToken,
+    });
+  } catch (opportunityError: any) {
+    logger.error("❌ GHL opportunity sync failed", { batchId, jobRef, error: opportunityError.message });
+  }
+
+  if (shortlist.length === 0) {
+    return { scored: ranked.length, shortlisted: 0, tagged: 0, opportunities };
+  }
+
+  await saveShortlist(job.id, jobRef, batchId, colleague, shortlist, contactIdByCandidate);
+  await rerankShortlist(jobRef, batchId);
+
+  // Tag shortlisted contacts so they surface in GHL smart lists
+  const tags = [`${GHL_CONFIG.SHORTLIST_TAG_PREFIX}${toTagSlug(jobRef)}`];
+  if (colleague) tags.push(`${GHL_CONFIG.COLLEAGUE_TAG_PREFIX}${toTagSlug(colleague)}`);
+
+  let tagged = 0;
+  for (const match of shortlist) {
+    const contactId = contactIdByCandidate.get(match.candidate_id);
+    if (!contactId) continue; // GHL sync failed for this candidate - shortlist row still stored
+
+    if (await addGHLContactTags(contactId, tags, ghlAccessToken)) {
+      tagged++;
+    }
+    await trackGHLCall("add_tags", batchId);
+  }
+
+  logger.info("✅ Shortlist synced to GHL", { batchId, jobRef, tagged, tags });
+
+  return { scored: ranked.length, shortlisted: shortlist.length, tagged, opportunities };
+}
+
+/**
+ * GHL tags are free text, but lowercase-hyphenated keeps smart list filters predictable
+ */
+function toTagSlug(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+// ============================================
+// GHL OPERATIONS
+// ============================================
+
+async function addGHLContactTags(
+  contactId: string,
+  tags: string[],
+  accessToken: string
+): Promise<boolean> {
+  try {
+    const response = await fetch(`${GHL_CONFIG.BASE_URL}/contacts/${contactId}/tags`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+        Version: GHL_CONFIG.API_VERSION,
+      },
+      body: JSON.stringify({ tags }),
+    });
+
+    if (!response.ok) {
+      const t = await response.text();
+      logger.warn("Failed to tag GHL contact", {
+        contactId,
+        status: response.status,
+        error: t.slice(0, 500),
+      });
+      return false;
+    }
+
+    return true;
+  } catch (error: any) {
+    logger.warn("Exception tagging GHL contact", {
+      contactId,
+      error: error.message,
+    });
+    return false;
+  }
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+async function fetchShortlistCandidates(candidateIds: string[]): Promise<ShortlistCandidate[]> {
+  const select =
+    "id,full_name,address,professional_summary,cv_summary,work_history,skills,certifications,ghl_contact_id";
+
+  const response = await fetch(
+    `${ENV.SUPABASE_URL}/rest/v1/candidates?id=in.(${candidateIds.join(",")})&select=${select}`,
+    {
+      headers: {
+        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+        apikey: ENV.SUPABASE_SERVICE_KEY,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`Failed to fetch shortlist candidates: ${response.status} ${t.slice(0, 500)}`);
+  }
+
+  return await response.json();
+}
+
+async function saveShortlist(
+  jobId: string,
+  jobRef: string,
+  batchId: string,
+  colleague: string | null,
+  shortlist: CandidateMatch[],
+  contactIdByCandidate: Map<string, string | null>
+): Promise<void> {
+  const rows = shortlist.map((match, index) => ({
+    job_id: jobId,
+    job_ref: jobRef,
+    batch_id: batchId,
+    candidate_id: match.candidate_id,
+    ghl_contact_id: contactIdByCandidate.get(match.candidate_id) || null,
+    colleague,
+    rank: index + 1,
+    overall_score: match.overall_score,
+    experience_score: match.experience_score,
+    experience_reason: match.experience_reason,
+    skill_score: match.skill_score,
+    skill_reason: match.skill_reason,
+    matched_skills: match.matched_skills,
+    missing_required_skills: match.missing_required_skills,
+    not_met: match.not_met,
+    advice: match.advice,
+  }));
+
+  // Upsert so a batch re-run refreshes scores instead of duplicating rows
+  const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/job_shortlists?on_conflict=job_ref,candidate_id`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+      apikey: ENV.SUPABASE_SERVICE_KEY,
+      "Content-Type": "application/json",
+      Prefer: "resolution=merge-duplicates,return=minimal",
+    },
+    body: JSON.stringify(rows),
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`Failed to save job shortlist: ${response.status} ${t.slice(0, 800)}`);
+  }
+}
+
+/**
+ * Ranks across the whole batch shortlist - candidates added after the batch
+ * ran were ranked on their own
+ */
+async function rerankShortlist(jobRef: string, batchId: string): Promise<void> {
+  const url = `${ENV.SUPABASE_URL}/rest/v1/job_shortlists`;
+  const headers = {
+    Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+    apikey: ENV.SUPABASE_SERVICE_KEY,
+  };
+
+  const response = await fetch(
+    `${url}?job_ref=eq.${encodeURIComponent(jobRef)}&batch_id=eq.${batchId}&select=id,rank&order=overall_score.desc`,
+    { headers }
+  );
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`Failed to fetch job shortlist: ${response.status} ${t.slice(0, 500)}`);
+  }
+
+  const rows: Array<{ id: string; rank: number }> = await response.json();
+  for (const [index, row] of rows.entries()) {
+    if (row.rank === index + 1) continue;
+
+    const patch = await fetch(`${url}?id=eq.${row.id}`, {
+      method: "PATCH",
+      headers: { ...headers, "Content-Type": "application/json", Prefer: "return=minimal" },
+      body: JSON.stringify({ rank: index + 1 }),
+    });
+
+    if (!patch.ok) {
+      const t = await patch.text();
+      throw new Error(`Failed to update shortlist rank: ${patch.status} ${t.slice(0, 500)}`);
+    }
+  }
+}
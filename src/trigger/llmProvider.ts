@@ -0,0 +1,366 @@
+// ============================================
+// LLM PROVIDER
+// ============================================
+// Single entry point for every model call in the pipeline:
+// - Gemini implementation (rate limit, retry, failover to FALLBACK_MODEL)
+// - Deterministic fixture-backed mock for offline runs and tests
+// Select with LLM_PROVIDER=mock and LLM_FIXTURES_PATH=<fixtures.json>
+
+import { logger } from "@trigger.dev/sdk";
+import { Buffer } from "buffer";
+import { readFileSync } from "fs";
+import {
+  ENV,
+  GEMINI_CONFIG,
+  getRetryDelay,
+  isRetryableStatus,
+} from "./config";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type LLMOperation =
+  | "text_extraction"
+  | "quick_parse"
+  | "full_parse"
+  | "classification"
+  | "job_parse"
+  | "cover_letter_parse";
+
+export interface GenerateJsonRequest {
+  operation: LLMOperation;
+  prompt: string;
+  temperature?: number;
+  maxAttempts?: number; // Defaults to GEMINI_CONFIG.MAX_RETRIES
+}
+
+export interface ExtractDocumentTextRequest {
+  data: ArrayBuffer;
+  mimeType: string;
+  fileName?: string;
+}
+
+export interface LLMUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface LLMCallInfo {
+  model: string; // Model that actually answered (primary or fallback)
+  usage: LLMUsage | null; // Null when the provider didn't report token counts
+}
+
+export interface LLMResponse extends LLMCallInfo {
+  text: string;
+}
+
+export interface LLMProvider {
+  name: string;
+
+  /**
+   * Run a JSON-mode prompt. Returns the model's JSON text with any
+   * markdown fences stripped - parsing/normalising stays with the caller.
+   */
+  generateJson(request: GenerateJsonRequest): Promise<LLMResponse>;
+
+  /**
+   * Read the text out of a document the model can see (PDF/DOC/DOCX/images)
+   */
+  extractDocumentText(request: ExtractDocumentTextRequest): Promise<LLMResponse>;
+}
+
+export interface MockLLMFixtures {
+  // JSON output per operation (objects are stringified)
+  json?: Partial<Record<LLMOperation, any>>;
+  // Extracted text per file name, with an optional default
+  documents?: Record<string, string>;
+  defaultDocumentText?: string;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ============================================
+// RATE LIMITER
+// ============================================
+// Token bucket shared by every Gemini request in this process
+// (including retries), sized to GEMINI_CONFIG.REQUESTS_PER_MINUTE
+
+const rateLimiter = {
+  tokens: GEMINI_CONFIG.REQUESTS_PER_MINUTE as number,
+  lastRefill: Date.now(),
+};
+
+/**
+ * Wait until a request slot is free, then take it
+ */
+async function acquireRequestSlot(): Promise<void> {
+  const capacity = GEMINI_CONFIG.REQUESTS_PER_MINUTE;
+  const refillPerMs = capacity / 60_000;
+
+  for (;;) {
+    const now = Date.now();
+    rateLimiter.tokens = Math.min(capacity, rateLimiter.tokens + (now - rateLimiter.lastRefill) * refillPerMs);
+    rateLimiter.lastRefill = now;
+
+    if (rateLimiter.tokens >= 1) {
+      rateLimiter.tokens -= 1;
+      return;
+    }
+
+    const waitMs = Math.ceil((1 - rateLimiter.tokens) / refillPerMs);
+    logger.info("Gemini rate limit reached - waiting", { waitMs });
+    await delay(waitMs);
+  }
+}
+
+export function stripJsonFences(s: string): string {
+  let t = (s || "").trim();
+  if (t.startsWith("```")) {
+    t = t.replace(/^```[a-zA-Z]*\n?/, "").replace(/```$/, "").trim();
+  }
+  return t;
+}
+
+/**
+ * Token counts from a generateContent response (thinking tokens bill as output)
+ */
+function readUsageMetadata(data: any): LLMUsage | null {
+  const meta = data?.usageMetadata;
+  if (!meta || typeof meta.promptTokenCount !== "number") return null;
+
+  return {
+    input_tokens: meta.promptTokenCount,
+    output_tokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0),
+  };
+}
+
+// ============================================
+// GEMINI PROVIDER
+// ============================================
+
+export function createGeminiProvider(): LLMProvider {
+  // Set once the primary model 404s - no point asking again this run
+  let primaryUnavailable = false;
+
+  /**
+   * POST a generateContent request to one model, retrying on retryable statuses.
+   * Errors carry `failover: true` when another model might succeed.
+   */
+  async function callModel(
+    model: string,
+    operation: LLMOperation,
+    body: any,
+    maxAttempts: number
+  ): Promise<{ text: string; usage: LLMUsage | null }> {
+    const url = `${GEMINI_CONFIG.BASE_URL}/models/${model}:generateContent?key=${ENV.GEMINI_API_KEY}`;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        await acquireRequestSlot();
+
+        const response = await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        });
+
+        const bodyText = await response.text();
+
+        if (response.ok) {
+          let data: any;
+          try {
+            data = JSON.parse(bodyText);
+          } catch {
+            throw new Error("Gemini returned non-JSON envelope");
+          }
+
+          const text = data?.candidates?.[0]?.content?.parts?.[0]?.text ?? "";
+          return {
+            text: typeof text === "string" ? text : "",
+            usage: readUsageMetadata(data),
+          };
+        }
+
+        const status = response.status;
+        const retryable = isRetryableStatus(status, GEMINI_CONFIG.RETRYABLE_STATUS_CODES);
+
+        logger.warn("Gemini request failed", {
+          operation,
+          model,
+          attempt,
+          status,
+          retryable,
+          bodyPreview: bodyText.slice(0, 500),
+        });
+
+        if (status === 404 || !retryable || attempt === maxAttempts) {
+          const failure: any = new Error(
+            `Gemini ${operation} failed on ${model} (status ${status}): ${bodyText.slice(0, 500)}`
+          );
+          failure.status = status;
+          failure.failover = status === 404 || retryable;
+          throw failure;
+        }
+
+        const waitMs = getRetryDelay(attempt, GEMINI_CONFIG);
+        logger.info("Retrying Gemini request", { operation, model, attempt, waitMs });
+        await delay(waitMs);
+      } catch (error: any) {
+        if (error.failover !== undefined) {
+          throw error;
+        }
+        if (attempt === maxAttempts) {
+          error.failover = true; // Network errors/timeouts - worth trying the other model
+          throw error;
+        }
+        logger.warn("Gemini request exception", {
+          operation,
+          model,
+          attempt,
+          error: error.message,
+        });
+        await delay(getRetryDelay(attempt, GEMINI_CONFIG));
+      }
+    }
+
+    throw new Error(`Gemini ${operation} failed after retries`);
+  }
+
+  /**
+   * Primary model first; on repeated 5xx/429 or a 404 switch to the fallback
+   */
+  async function generateContent(
+    operation: LLMOperation,
+    body: any,
+    maxAttempts: number = GEMINI_CONFIG.MAX_RETRIES
+  ): Promise<LLMResponse> {
+    const primary = GEMINI_CONFIG.MODEL;
+    const fallback = GEMINI_CONFIG.FALLBACK_MODEL;
+
+    if (!primaryUnavailable) {
+      try {
+        const primaryAttempts = Math.min(maxAttempts, GEMINI_CONFIG.FAILOVER_AFTER_ATTEMPTS);
+        return { ...(await callModel(primary, operation, body, primaryAttempts)), model: primary };
+      } catch (error: any) {
+        if (!error.failover) {
+          throw error;
+        }
+        if (error.status === 404) {
+          primaryUnavailable = true;
+        }
+        logger.warn("⚠️ Primary Gemini model failing - switching to fallback", {
+          operation,
+          primary,
+          fallback,
+          error: error.message,
+        });
+      }
+    }
+
+    return { ...(await callModel(fallback, operation, body, maxAttempts)), model: fallback };
+  }
+
+  return {
+    name: "gemini",
+
+    async generateJson(request: GenerateJsonRequest): Promise<LLMResponse> {
+      const response = await generateContent(
+        request.operation,
+        {
+          contents: [{ parts: [{ text: request.prompt }] }],
+          generationConfig: {
+            temperature: request.temperature ?? 0,
+            responseMimeType: "application/json",
+          },
+        },
+        request.maxAttempts
+      );
+      return { ...response, text: stripJsonFences(response.text) };
+    },
+
+    async extractDocumentText(request: ExtractDocumentTextRequest): Promise<LLMResponse> {
+      return await generateContent("text_extraction", {
+        contents: [
+          {
+            parts: [
+              {
+                inlineData: {
+                  mimeType: request.mimeType,
+                  data: Buffer.from(request.data).toString("base64"),
+                },
+              },
+              {
+                text: "Extract all text from this document. Return only the raw text content, preserving structure and formatting.",
+              },
+            ],
+          },
+        ],
+      });
+    },
+  };
+}
+
+// ============================================
+// MOCK PROVIDER
+// ============================================
+
+/**
+ * Fixture-backed provider - no network, same output for the same input.
+ * Missing fixtures throw so a test can't silently pass on empty data.
+ */
+export function createMockLLMProvider(fixtures: MockLLMFixtures): LLMProvider {
+  return {
+    name: "mock",
+
+    async generateJson(request: GenerateJsonRequest): Promise<LLMResponse> {
+      const fixture = fixtures.json?.[request.operation];
+      if (fixture === undefined) {
+        throw new Error(`Mock LLM has no fixture for operation: ${request.operation}`);
+      }
+      const text = typeof fixture === "string" ? stripJsonFences(fixture) : JSON.stringify(fixture);
+      return { text, model: "mock", usage: { input_tokens: 0, output_tokens: 0 } };
+    },
+
+    async extractDocumentText(request: ExtractDocumentTextRequest): Promise<LLMResponse> {
+      const text =
+        (request.fileName ? fixtures.documents?.[request.fileName] : undefined) ??
+        fixtures.defaultDocumentText;
+      if (text === undefined) {
+        throw new Error(`Mock LLM has no document fixture for: ${request.fileName || request.mimeType}`);
+      }
+      return { text, model: "mock", usage: { input_tokens: 0, output_tokens: 0 } };
+    },
+  };
+}
+
+// ============================================
+// DEFAULT PROVIDER
+// ============================================
+
+let defaultProvider: LLMProvider | null = null;
+
+/**
+ * Provider selected by environment (Gemini unless LLM_PROVIDER=mock)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (defaultProvider) return defaultProvider;
+
+  if (ENV.LLM_PROVIDER === "mock") {
+    const fixtures: MockLLMFixtures = ENV.LLM_FIXTURES_PATH
+      ? JSON.parse(readFileSync(ENV.LLM_FIXTURES_PATH, "utf8"))
+      : {};
+    logger.info("Using mock LLM provider", { fixturesPath: ENV.LLM_FIXTURES_PATH || null });
+    defaultProvider = createMockLLMProvider(fixtures);
+  } else {
+    defaultProvider = createGeminiProvider();
+  }
+
+  return defaultProvider;
+}
@@ -0,0 +1,262 @@
+// ============================================
+// MATCH CANDIDATES TO JOB
+// ============================================
+// Backs the Role Matcher page with real data:
+// - Uses the stored ParsedJob, or parses the job description (Gemini)
+// - Scores stored candidates on experience and skills
+// - Filters by distance from the job location
+// - Returns the candidate card shape the page renders
+
+import { task, logger } from "@trigger.dev/sdk";
+import { ENV, GEOCODING_CONFIG, MATCHING_CONFIG } from "./config";
+import { trackJobParse } from "./costTracker";
+import {
+  MatchableCandidate,
+  extractLocationQuery,
+  haversineKm,
+  rankCandidates,
+} from "./candidateMatcher";
+import { ParsedJob, fetchJobByRef, parseJobText, saveParsedJob, toJobRequirements } from "./jobParser";
+import { getLLMProvider } from "./llmProvider";
+
+// ============================================
+// TYPES
+// ============================================
+
+interface MatchCandidatesPayload {
+  jobDescription?: string; // Optional when jobId refers to an already-parsed job
+  town?: string;
+  country?: string;
+  radiusKm?: number;
+  count?: number;
+  jobId?: string | null;
+  clientId?: string;
+}
+
+// Same shape as the cards rendered by Role_Matcher.html
+interface CandidateCard {
+  candidateId: string;
+  name: string;
+  experienceScore: number;
+  experienceReason: string;
+  skillScore: number;
+  skillReason: string;
+  notMet: string;
+  advice: string;
+  distanceKm: number | null; // null when the job or candidate can't be placed
+  town: string; // Candidate's town / postcode, "—" when unknown
+}
+
+// ============================================
+// HELPER: DELAY
+// ============================================
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ============================================
+// MAIN TASK
+// ============================================
+
+export const matchCandidatesToJob = task({
+  id: "match-candidates-to-job",
+  maxDuration: 300, // 5 minutes
+  run: async (payload: MatchCandidatesPayload) => {
+    const jobId = payload.jobId?.trim() || null;
+    const radiusKm = payload.radiusKm && payload.radiusKm > 0 ? payload.radiusKm : MATCHING_CONFIG.DEFAULT_RADIUS_KM;
+    const count = Math.min(payload.count || MATCHING_CONFIG.MIN_CANDIDATES_RETURNED, MATCHING_CONFIG.MAX_CANDIDATES_RETURNED);
+    const clientId = payload.clientId || ENV.CLIENT_ID;
+    const correlationId = `match_${jobId || Date.now()}`;
+
+    logger.info("🎯 Starting candidate match", { correlationId, jobId, radiusKm, count });
+
+    if (count < MATCHING_CONFIG.MIN_CANDIDATES_RETURNED) {
+      return {
+        success: false,
+        error: `At least ${MATCHING_CONFIG.MIN_CANDIDATES_RETURNED} candidates must be requested`,
+      };
+    }
+
+    // 1) Load the parsed job, or parse the description we were given
+    let job: ParsedJob | null = jobId ? await fetchJobByRef(jobId) : null;
+
+    if (job) {
+      logger.info("Using stored job", { correlationId, jobId, title: job.title });
+    } else {
+      if (!payload.jobDescription || payload.jobDescription.trim().length < 50) {
+        return { success: false, error: "Job description is missing or too short" };
+      }
+
+      const parsed = await parseJobText(payload.jobDescription, getLLMProvider());
+      await trackJobParse(undefined, parsed.call);
+
+      if (!parsed.job) {
+        logger.warn("❌ Job description parse failed - not matching", { correlationId, jobId });
+        return { success: false, error: "Job description could not be parsed" };
+      }
+      job = parsed.job;
+
+      if (jobId) {
+        await saveParsedJob(jobId, job, {
+          client_id: clientId,
+          jd_raw_text: payload.jobDescription,
+          parse_model: parsed.call.model,
+        });
+      }
+    }
+
+    const requirements = toJobRequirements(job);
+    const town = payload.town?.trim() || job.town || "";
+    const country = payload.country?.trim() || job.country || "";
+
+    logger.info("Job requirements", {
+      correlationId,
+      title: requirements.title,
+      requiredSkills: requirements.required_skills.length,
+      preferredSkills: requirements.preferred_skills.length,
+      minYears: requirements.min_years_experience,
+    });
+
+    // 2) Score every stored candidate
+    const candidates = await fetchMatchableCandidates(clientId);
+    const ranked = rankCandidates(candidates, requirements);
+
+    logger.info("Candidates scored", {
+      correlationId,
+      scanned: candidates.length,
+      topScore: ranked[0]?.overall_score ?? null,
+    });
+
+    // 3) Walk the ranking, keeping candidates inside the radius
+    const jobLocation = town ? await geocode([town, country].filter(Boolean).join(", ")) : null;
+    if (town && !jobLocation) {
+      logger.warn("⚠️ Could not geocode job location - distance filter disabled", { correlationId, town, country });
+    }
+
+    const addressById = new Map(candidates.map((c) => [c.id, c.address]));
+    const geocodeCache = new Map<string, { lat: number; lon: number } | null>();
+    const cards: CandidateCard[] = [];
+    let lookups = 0;
+
+    for (const match of ranked) {
+      if (cards.length >= count) break;
+
+      let distanceKm: number | null = null;
+      const query = extractLocationQuery(addressById.get(match.candidate_id) || null);
+
+      if (jobLocation) {
+        if (!query) continue; // Can't place candidate - don't guess
+
+        if (!geocodeCache.has(query)) {
+          if (lookups >= GEOCODING_CONFIG.MAX_LOOKUPS_PER_RUN) {
+            logger.warn("Geocoding lookup limit reached", { correlationId, lookups });
+            break;
+          }
+          lookups++;
+          geocodeCache.set(query, await geocode(country ? `${query}, ${country}` : query));
+          await delay(GEOCODING_CONFIG.DELAY_BETWEEN_REQUESTS_MS);
+        }
+
+        const candidateLocation = geocodeCache.get(query);
+        if (!candidateLocation) continue;
+
+        distanceKm = Math.round(haversineKm(jobLocation, candidateLocation));
+        if (distanceKm > radiusKm) continue;
+      }
+
+      cards.push({
+        candidateId: match.candidate_id,
+        name: match.name,
+        experienceScore: match.experience_score,
+        experienceReason: match.experience_reason,
+        skillScore: match.skill_score,
+        skillReason: match.skill_reason,
+        notMet: match.not_met,
+        advice: match.advice,
+        distanceKm,
+        town: query || "—",
+      });
+    }
+
+    if (cards.length < count) {
+      logger.warn("⚠️ Fewer matching candidates than requested", {
+        correlationId,
+        requested: count,
+        returned: cards.length,
+      });
+    }
+
+    logger.info("✅ Candidate match complete", {
+      correlationId,
+      returned: cards.length,
+      geocodeLookups: lookups,
+    });
+
+    return {
+      success: true,
+      jobId,
+      job,
+      scanned: candidates.length,
+      candidates: cards,
+    };
+  },
+});
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+async function fetchMatchableCandidates(clientId: string | undefined): Promise<MatchableCandidate[]> {
+  const select = "id,full_name,address,professional_summary,cv_summary,work_history,skills,certifications";
+  const clientFilter = clientId ? `&client_id=eq.${clientId}` : "";
+
+  const response = await fetch(
+    `${ENV.SUPABASE_URL}/rest/v1/candidates?select=${select}${clientFilter}&order=updated_at.desc&limit=${MATCHING_CONFIG.MAX_CANDIDATES_SCANNED}`,
+    {
+      headers: {
+        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+        apikey: ENV.SUPABASE_SERVICE_KEY,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`Failed to fetch candidates: ${response.status} ${t.slice(0, 500)}`);
+  }
+
+  return await response.json();
+}
+
+// ============================================
+// GEOCODING
+// ============================================
+
+async function geocode(query: string): Promise<{ lat: number; lon: number } | null> {
+  try {
+    const response = await fetch(
+      `${GEOCODING_CONFIG.BASE_URL}/search?format=json&limit=1&q=${encodeURIComponent(query)}`,
+      {
+        headers: { "User-Agent": GEOCODING_CONFIG.USER_AGENT },
+        signal: AbortSignal.timeout(GEOCODING_CONFIG.TIMEOUT_MS),
+      }
+    );
+
+    if (!response.ok) {
+      logger.warn("Geocoding request failed", { query, status: response.status });
+      return null;
+    }
+
+    const results = await response.json();
+    if (!Array.isArray(results) || results.length === 0) return null;
+
+    return {
+      lat: parseFloat(results[0].lat),
+      lon: parseFloat(results[0].lon),
+    };
+  } catch (error: any) {
+    logger.warn("Geocoding exception", { query, error: error.message });
+    return null;
+  }
+}
@@ -0,0 +1,111 @@
+// ============================================
+// PARSE JOB DESCRIPTION
+// ============================================
+// Turns an uploaded job description (PDF/DOCX/TXT) into a
+// structured ParsedJob and stores it in the jobs table:
+// - Text extraction (shared with CV processing, local first)
+// - Gemini structured parse
+// - Upsert on job reference
+
+import { task, logger } from "@trigger.dev/sdk";
+import { ENV, VALIDATION_RULES } from "./config";
+import { trackJobParse, trackTextExtraction } from "./costTracker";
+import { extractText } from "./textExtraction";
+import { parseJobText, saveParsedJob } from "./jobParser";
+import { getLLMProvider } from "./llmProvider";
+import { downloadStorageFile } from "./candidatePipeline";
+
+// ============================================
+// TYPES
+// ============================================
+
+interface ParseJobPayload {
+  filePath: string; // Path in the cv-uploads bucket
+  fileName?: string;
+  jobId?: string | null; // Recruiter's job reference - generated if omitted
+  clientId?: string;
+}
+
+// ============================================
+// MAIN TASK
+// ============================================
+
+export const parseJobDescription = task({
+  id: "parse-job-description",
+  maxDuration: 120, // 2 minutes
+  run: async (payload: ParseJobPayload) => {
+    const fileName = payload.fileName || payload.filePath.split("/").pop() || "job_description";
+    const jobRef = payload.jobId?.trim() || `job_${Date.now()}`;
+    const clientId = payload.clientId || ENV.CLIENT_ID || null;
+    const correlationId = `job_${jobRef}`;
+    const llm = getLLMProvider();
+
+    logger.info("📄 Parsing job description", { correlationId, jobRef, filePath: payload.filePath });
+
+    if (!VALIDATION_RULES.ALLOWED_EXTENSIONS.some((ext) => fileName.toLowerCase().endsWith(ext))) {
+      return { success: false, error: `Unsupported file type: ${fileName}` };
+    }
+
+    // 1) Download and extract text
+    const fileBuffer = await downloadStorageFile(payload.filePath);
+    if (!fileBuffer) throw new Error("Failed to download job description from storage");
+    if (fileBuffer.byteLength > VALIDATION_RULES.MAX_FILE_SIZE_MB * 1024 * 1024) {
+      return { success: false, error: `File exceeds maximum ${VALIDATION_RULES.MAX_FILE_SIZE_MB}MB` };
+    }
+
+    const {
+      text: rawText,
+      method: extractionMethod,
+      call: extractionCall,
+    } = await extractText(fileBuffer, fileName, llm);
+    if (extractionCall) {
+      await trackTextExtraction(undefined, rawText?.length || 0, extractionCall);
+    }
+
+    logger.info("Text extracted", { correlationId, method: extractionMethod, length: rawText?.length || 0 });
+
+    if (!rawText || rawText.trim().length < 50) {
+      logger.warn("❌ Job description has insufficient text", {
+        correlationId,
+        textLength: rawText?.trim().length || 0,
+      });
+      return { success: false, error: "Insufficient text content" };
+    }
+
+    // 2) Structured parse
+    const { job: parsedJob, call: parseCall } = await parseJobText(rawText, llm);
+    await trackJobParse(undefined, parseCall);
+
+    if (!parsedJob) {
+      // Keep whatever is already stored under this job_ref
+      logger.warn("❌ Job description parse failed - not saving", { correlationId, jobRef });
+      return { success: false, error: "Job description could not be parsed" };
+    }
+
+    logger.info("Job parse complete", {
+      correlationId,
+      title: parsedJob.title,
+      mustHave: parsedJob.must_have_skills.length,
+      niceToHave: parsedJob.nice_to_have_skills.length,
+      seniority: parsedJob.seniority,
+      sector: parsedJob.sector,
+      model: parseCall.model,
+    });
+
+    // 3) Store
+    const stored = await saveParsedJob(jobRef, parsedJob, {
+      client_id: clientId,
+      jd_file_path: payload.filePath,
+      jd_raw_text: rawText,
+      parse_model: parseCall.model,
+    });
+
+    logger.info("✅ Job saved", { correlationId, jobRef, id: stored.id });
+
+    return {
+      success: true,
+      jobId: jobRef,
+      job: parsedJob,
+    };
+  },
+});
@@ -0,0 +1,512 @@
+// ============================================
+// PARSED CV SCHEMA
+// ============================================
+// Runtime schema for the CV parse output:
+// - Coerces recoverable shapes (string skills, single objects, numbers)
+// - Drops values that can't be repaired
+// - Produces a per-field validation report stored on the candidate
+
+import { isValidEmail } from "./config";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface WorkHistoryEntry {
+  job_title: string | null;
+  company_name: string | null;
+  company_location: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  employment_type: string | null;
+  duties_responsibilities: string | null;
+  achievements: string | null;
+  reason_for_leaving: string | null;
+}
+
+export interface EducationEntry {
+  qualification_name: string | null;
+  institution_name: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  grade_classification: string | null;
+  honours_awards: string | null;
+  dissertation_thesis: string | null;
+  extracurricular: string | null;
+}
+
+export interface CertificationEntry {
+  name: string | null;
+  issuing_organisation: string | null;
+  date_obtained: string | null;
+  expiry_date: string | null;
+  certification_id: string | null;
+}
+
+export interface LanguageEntry {
+  language: string | null;
+  proficiency: string | null;
+  reading: string | null;
+  writing: string | null;
+  speaking: string | null;
+  certifications: string | null;
+}
+
+export interface ParsedCV {
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  linkedin_url: string | null;
+  date_of_birth: string | null;
+  nationality: string | null;
+  visa_work_permit: string | null;
+  professional_summary: string | null;
+  future_job_aspirations: string | null;
+  work_history: WorkHistoryEntry[];
+  education: EducationEntry[];
+  skills: string[];
+  certifications: CertificationEntry[];
+  driving_licence: string | null;
+  languages: LanguageEntry[];
+  training_courses: any[];
+  professional_memberships: any[];
+  awards_honours: any[];
+  volunteering: any[];
+  interests_hobbies: any[];
+  candidate_references: any[];
+  military_service: string | null;
+  salary_expectation: string | null;
+  notice_period: string | null;
+  availability_start_date: string | null;
+  relocation_willingness: string | null;
+  remote_work_preference: string | null;
+  cv_summary: string | null;
+  cv_raw_text?: string | null; // Added after parsing, never from the model
+}
+
+export type FieldValidationStatus = "ok" | "missing" | "coerced" | "dropped";
+
+export interface ParseValidationReport {
+  valid: boolean; // false when anything was dropped
+  fields: Record<string, FieldValidationStatus>;
+  issues: string[];
+  unknown_fields: string[];
+}
+
+type FieldKind =
+  | "string"
+  | "email"
+  | "url"
+  | "date"
+  | "string_list" // Array of plain strings (skills)
+  | "loose_list" // Array of strings or objects (transformers accept both)
+  | "entry_list"; // Array of typed objects
+
+interface EntrySchema {
+  keys: string[];
+  // Key a bare string is mapped to (e.g. "AWS Certified" -> { name })
+  fromString?: string;
+  // At least one of these must be present for the entry to be kept
+  requireOneOf: string[];
+  // Keys that identify the same entry across CVs/chunks (de-duplication)
+  identity: string[];
+}
+
+interface FieldResult {
+  value: any;
+  status: FieldValidationStatus;
+  issue?: string;
+}
+
+// ============================================
+// SCHEMA
+// ============================================
+
+const WORK_HISTORY_ENTRY: EntrySchema = {
+  keys: [
+    "job_title",
+    "company_name",
+    "company_location",
+    "start_date",
+    "end_date",
+    "employment_type",
+    "duties_responsibilities",
+    "achievements",
+    "reason_for_leaving",
+  ],
+  requireOneOf: ["job_title", "company_name"],
+  identity: ["company_name", "job_title", "start_date"],
+};
+
+const EDUCATION_ENTRY: EntrySchema = {
+  keys: [
+    "qualification_name",
+    "institution_name",
+    "start_date",
+    "end_date",
+    "grade_classification",
+    "honours_awards",
+    "dissertation_thesis",
+    "extracurricular",
+  ],
+  requireOneOf: ["qualification_name", "institution_name"],
+  identity: ["qualification_name", "institution_name"],
+};
+
+const CERTIFICATION_ENTRY: EntrySchema = {
+  keys: ["name", "issuing_organisation", "date_obtained", "expiry_date", "certification_id"],
+  fromString: "name",
+  requireOneOf: ["name"],
+  identity: ["name"],
+};
+
+const LANGUAGE_ENTRY: EntrySchema = {
+  keys: ["language", "proficiency", "reading", "writing", "speaking", "certifications"],
+  fromString: "language",
+  requireOneOf: ["language"],
+  identity: ["language"],
+};
+
+const PARSED_CV_SCHEMA: Record<Exclude<keyof ParsedCV, "cv_raw_text">, { kind: FieldKind; entry?: EntrySchema }> = {
+  full_name: { kind: "string" },
+  email: { kind: "email" },
+  phone: { kind: "string" },
+  address: { kind: "string" },
+  linkedin_url: { kind: "url" },
+  date_of_birth: { kind: "date" },
+  nationality: { kind: "string" },
+  visa_work_permit: { kind: "string" },
+  professional_summary: { kind: "string" },
+  future_job_aspirations: { kind: "string" },
+  work_history: { kind: "entry_list", entry: WORK_HISTORY_ENTRY },
+  education: { kind: "entry_list", entry: EDUCATION_ENTRY },
+  skills: { kind: "string_list" },
+  certifications: { kind: "entry_list", entry: CERTIFICATION_ENTRY },
+  driving_licence: { kind: "string" },
+  languages: { kind: "entry_list", entry: LANGUAGE_ENTRY },
+  training_courses: { kind: "loose_list" },
+  professional_memberships: { kind: "loose_list" },
+  awards_honours: { kind: "loose_list" },
+  volunteering: { kind: "loose_list" },
+  interests_hobbies: { kind: "loose_list" },
+  candidate_references: { kind: "loose_list" },
+  military_service: { kind: "string" },
+  salary_expectation: { kind: "string" },
+  notice_period: { kind: "string" },
+  availability_start_date: { kind: "date" },
+  relocation_willingness: { kind: "string" },
+  remote_work_preference: { kind: "string" },
+  cv_summary: { kind: "string" },
+};
+
+const LIST_KINDS: FieldKind[] = ["string_list", "loose_list", "entry_list"];
+
+export function getEmptyParsedCV(): ParsedCV {
+  return {
+    full_name: null,
+    email: null,
+    phone: null,
+    address: null,
+    linkedin_url: null,
+    date_of_birth: null,
+    nationality: null,
+    visa_work_permit: null,
+    professional_summary: null,
+    future_job_aspirations: null,
+    work_history: [],
+    education: [],
+    skills: [],
+    certifications: [],
+    driving_licence: null,
+    languages: [],
+    training_courses: [],
+    professional_memberships: [],
+    awards_honours: [],
+    volunteering: [],
+    interests_hobbies: [],
+    candidate_references: [],
+    military_service: null,
+    salary_expectation: null,
+    notice_period: null,
+    availability_start_date: null,
+    relocation_willingness: null,
+    remote_work_preference: null,
+    cv_summary: null,
+  };
+}
+
+function normalizeKey(value: any): string {
+  return String(value ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Identity of a list item for de-duplication - entry lists use their
+ * identity keys (work history = company + title + start), others the text
+ */
+export function getListItemKey(field: keyof ParsedCV, item: any): string {
+  const entry = field === "cv_raw_text" ? undefined : PARSED_CV_SCHEMA[field]?.entry;
+  if (entry && item && typeof item === "object") {
+    return entry.identity.map((k) => normalizeKey(item[k])).join("|");
+  }
+  return typeof item === "string" ? normalizeKey(item) : normalizeKey(JSON.stringify(item));
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Validate and repair raw model output into a ParsedCV
+ */
+export function validateParsedCV(raw: any): { data: ParsedCV; report: ParseValidationReport } {
+  const data = getEmptyParsedCV() as any;
+  const report: ParseValidationReport = { valid: true, fields: {}, issues: [], unknown_fields: [] };
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    report.valid = false;
+    report.issues.push(`Parse output is ${Array.isArray(raw) ? "an array" : typeof raw}, expected an object`);
+    for (const field of Object.keys(PARSED_CV_SCHEMA)) report.fields[field] = "missing";
+    return { data, report };
+  }
+
+  for (const [field, spec] of Object.entries(PARSED_CV_SCHEMA)) {
+    const result = validateField(raw[field], spec.kind, spec.entry);
+
+    report.fields[field] = result.status;
+    if (result.issue) report.issues.push(`${field}: ${result.issue}`);
+    if (result.status === "dropped") report.valid = false;
+
+    if (result.status !== "dropped" && result.status !== "missing") {
+      data[field] = result.value;
+    }
+  }
+
+  report.unknown_fields = Object.keys(raw).filter((k) => !(k in PARSED_CV_SCHEMA) && k !== "cv_raw_text");
+
+  return { data, report };
+}
+
+/**
+ * Report for output that wasn't JSON at all
+ */
+const UNPARSEABLE_ISSUE = "Parse output was not valid JSON";
+
+export function getUnparseableReport(): ParseValidationReport {
+  const fields: Record<string, FieldValidationStatus> = {};
+  for (const field of Object.keys(PARSED_CV_SCHEMA)) fields[field] = "missing";
+  return { valid: false, fields, issues: [UNPARSEABLE_ISSUE], unknown_fields: [] };
+}
+
+/**
+ * True when the parse (or any chunk of it) produced no usable JSON
+ */
+export function isUnparseableReport(report: ParseValidationReport): boolean {
+  return report.issues.some((issue) => issue.endsWith(UNPARSEABLE_ISSUE));
+}
+
+function isEmptyValue(value: any, kind: FieldKind): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === "string" && !value.trim()) return true;
+  return LIST_KINDS.includes(kind) && Array.isArray(value) && value.length === 0;
+}
+
+function validateField(value: any, kind: FieldKind, entry?: EntrySchema): FieldResult {
+  if (isEmptyValue(value, kind)) return { value: null, status: "missing" };
+
+  switch (kind) {
+    case "string":
+      return validateString(value);
+    case "email":
+      return validateEmail(value);
+    case "url":
+      return validateUrl(value);
+    case "date":
+      return validateDate(value);
+    case "string_list":
+      return validateStringList(value);
+    case "loose_list":
+      return validateLooseList(value);
+    case "entry_list":
+      return validateEntryList(value, entry!);
+  }
+}
+
+function validateString(value: any): FieldResult {
+  if (typeof value === "string") return { value: value.trim(), status: "ok" };
+  if (typeof value === "number" || typeof value === "boolean") {
+    return { value: String(value), status: "coerced", issue: `${typeof value} converted to string` };
+  }
+  if (Array.isArray(value) && value.every((v) => typeof v === "string" || typeof v === "number")) {
+    return { value: value.join(", "), status: "coerced", issue: "array joined into string" };
+  }
+  return { value: null, status: "dropped", issue: `expected string, got ${describe(value)}` };
+}
+
+function validateEmail(value: any): FieldResult {
+  const base = validateString(value);
+  if (base.status === "dropped") return base;
+
+  const cleaned = String(base.value).replace(/^mailto:/i, "").trim().toLowerCase();
+  if (!isValidEmail(cleaned)) {
+    return { value: null, status: "dropped", issue: `invalid email "${String(base.value).slice(0, 100)}"` };
+  }
+  return cleaned === base.value && base.status === "ok"
+    ? { value: cleaned, status: "ok" }
+    : { value: cleaned, status: "coerced", issue: base.issue || "email normalised" };
+}
+
+function validateUrl(value: any): FieldResult {
+  const base = validateString(value);
+  if (base.status === "dropped") return base;
+
+  const url = String(base.value);
+  if (/\s/.test(url) || !/\.[a-z]{2,}/i.test(url)) {
+    return { value: null, status: "dropped", issue: `invalid URL "${url.slice(0, 100)}"` };
+  }
+  if (!/^https?:\/\//i.test(url)) {
+    return { value: `https://${url}`, status: "coerced", issue: "added https:// scheme" };
+  }
+  return base;
+}
+
+/**
+ * Dates are stored in date columns, so anything not reducible to YYYY-MM-DD is dropped
+ */
+function validateDate(value: any): FieldResult {
+  const base = validateString(value);
+  if (base.status === "dropped") return base;
+
+  const text = String(base.value);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text) && !isNaN(Date.parse(text))) return base;
+
+  // DD/MM/YYYY (UK order)
+  const uk = text.match(/^(\d{1,2})[\/.\-](\d{1,2})[\/.\-](\d{4})$/);
+  if (uk) {
+    const iso = `${uk[3]}-${uk[2].padStart(2, "0")}-${uk[1].padStart(2, "0")}`;
+    if (!isNaN(Date.parse(iso))) return { value: iso, status: "coerced", issue: `"${text}" read as DD/MM/YYYY` };
+  }
+
+  const parsed = Date.parse(text);
+  if (!isNaN(parsed) && /\d{4}/.test(text) && /[a-z]{3}.*\d{1,2}|\d{1,2}.*[a-z]{3}/i.test(text)) {
+    const iso = new Date(parsed).toISOString().split("T")[0];
+    return { value: iso, status: "coerced", issue: `"${text}" converted to ${iso}` };
+  }
+
+  return { value: null, status: "dropped", issue: `unrecognised date "${text.slice(0, 50)}"` };
+}
+
+function validateStringList(value: any): FieldResult {
+  if (typeof value === "string") {
+    const items = value
+      .split(/[,;\n•]/)
+      .map((s) => s.replace(/^[-*\s]+/, "").trim())
+      .filter(Boolean);
+    return { value: items, status: "coerced", issue: "string split into list" };
+  }
+
+  const list = Array.isArray(value) ? value : [value];
+  let coerced = !Array.isArray(value);
+  const items: string[] = [];
+
+  for (const item of list) {
+    if (typeof item === "string") {
+      if (item.trim()) items.push(item.trim());
+    } else if (typeof item === "number") {
+      items.push(String(item));
+      coerced = true;
+    } else if (item && typeof item === "object" && typeof (item.name ?? item.skill) === "string") {
+      items.push(String(item.name ?? item.skill).trim());
+      coerced = true;
+    } else {
+      coerced = true;
+    }
+  }
+
+  if (items.length === 0) {
+    return { value: null, status: "dropped", issue: `no usable items in ${describe(value)}` };
+  }
+  return coerced
+    ? { value: items, status: "coerced", issue: "list items repaired" }
+    : { value: items, status: "ok" };
+}
+
+function validateLooseList(value: any): FieldResult {
+  if (typeof value === "string") {
+    return { value: [value.trim()], status: "coerced", issue: "string wrapped in list" };
+  }
+
+  const list = Array.isArray(value) ? value : [value];
+  const items = list.filter(
+    (item) =>
+      (typeof item === "string" && item.trim()) ||
+      (item && typeof item === "object" && !Array.isArray(item))
+  );
+
+  if (items.length === 0) {
+    return { value: null, status: "dropped", issue: `no usable items in ${describe(value)}` };
+  }
+  if (!Array.isArray(value) || items.length !== list.length) {
+    return { value: items, status: "coerced", issue: `kept ${items.length} of ${list.length} items` };
+  }
+  return { value: items, status: "ok" };
+}
+
+function validateEntryList(value: any, schema: EntrySchema): FieldResult {
+  // A single object instead of a list is the most common slip
+  const list = Array.isArray(value) ? value : [value];
+  let coerced = !Array.isArray(value);
+  const entries: any[] = [];
+
+  for (const item of list) {
+    let source: any = item;
+
+    if (typeof item === "string" && schema.fromString) {
+      source = { [schema.fromString]: item };
+      coerced = true;
+    } else if (!item || typeof item !== "object" || Array.isArray(item)) {
+      coerced = true;
+      continue;
+    }
+
+    const entry: any = {};
+    for (const key of schema.keys) {
+      // Nullable keys the prompt allows (company_location: null) aren't a repair
+      if (isEmptyValue(source[key], "string")) {
+        entry[key] = null;
+        continue;
+      }
+      const field = validateString(source[key]);
+      entry[key] = field.status === "dropped" ? null : field.value;
+      if (field.status === "coerced" || field.status === "dropped") coerced = true;
+    }
+
+    if (schema.requireOneOf.some((key) => entry[key])) {
+      entries.push(entry);
+    } else {
+      coerced = true;
+    }
+  }
+
+  if (entries.length === 0) {
+    return { value: null, status: "dropped", issue: `no usable entries in ${describe(value)}` };
+  }
+  return coerced
+    ? {
+        value: entries,
+        status: "coerced",
+        issue:
+          entries.length < list.length
+            ? `kept ${entries.length} of ${list.length} entries`
+            : `repaired values in ${entries.length} entries`,
+      }
+    : { value: entries, status: "ok" };
+}
+
+function describe(value: any): string {
+  if (Array.isArray(value)) return `array(${value.length})`;
+  return value === null ? "null" : typeof value;
+}
@@ -8,23 +8,23 @@
 // - Batch recovery support
 // - Comprehensive error handling
 // - Full 51-field GHL sync with file uploads
-// - Duplicate detection (Supabase + GHL)
+// - Document bundles: CV + cover letter / references / other documents
+// - Cover letters classified in the batch paired to their CV
+// - Merged documents split into one virtual file per CV
+// - Duplicate detection (Supabase + GHL, fuzzy scoring)
 // - Hold queue management
+// - Job shortlist for batches uploaded against a job_id
 
 import { task, logger } from "@trigger.dev/sdk";
-import { Buffer } from "buffer";
 import {
+  DOCUMENT_BUNDLE_CONFIG,
+  DUPLICATE_CONFIG,
   ENV,
   PROCESSING_CONFIG,
   SUPABASE_CONFIG,
-  GEMINI_CONFIG,
-  GHL_CONFIG,
   VALIDATION_RULES,
-  getRetryDelay,
-  isRetryableStatus,
   isValidEmail,
   normalizePhone,
-  truncateForLog,
 } from "./config";
 import {
   canProcessBatch,
@@ -32,16 +32,49 @@ import {
   trackQuickParse,
   trackFullParse,
   trackGHLCall,
+  trackCacheHit,
   logDailyUsageSummary,
   logBatchCostSummary,
 } from "./costTracker";
 import {
   classifyDocument,
+  isFallbackClassification,
   logClassificationStats,
   quickHeuristicCheck,
   ClassificationResult,
 } from "./documentClassifier";
-import { buildCompleteGHLCustomFields, splitName } from "./ghlTransformers";
+import { extractText } from "./textExtraction";
+import { createJobShortlist } from "./jobShortlist";
+import { getLLMProvider } from "./llmProvider";
+import { ParsedCV, isUnparseableReport } from "./parsedCVSchema";
+import {
+  encodeStoragePath,
+  findExistingCandidate,
+  findExistingGHLContact,
+  fullParse,
+  quickParse,
+  syncCandidateToGHL,
+  updateCandidateGHL,
+  writeCandidate,
+} from "./candidatePipeline";
+import { prepareGHLFieldSync } from "./ghlFieldMapping";
+import { DuplicateCandidateMatch, findDuplicateCandidates } from "./duplicateMatcher";
+import {
+  BatchCluster,
+  SourceFile,
+  attachFileToCluster,
+  hashFileContent,
+  loadBatchClusterIndex,
+} from "./batchClusters";
+import { getCachedFileResults, saveCachedFileResults } from "./resultCache";
+import { BundleDocument, createUnpairedDocumentPool, loadBatchBundles } from "./documentBundles";
+import {
+  CoverLetterTarget,
+  PendingCoverLetter,
+  pairCoverLetters,
+  storePairedCoverLetter,
+} from "./coverLetterPairing";
+import { parseSegmentStatusPath, segmentFilePath, segmentStatusPath, splitMultiCVText } from "./cvSplitter";
 
 // ============================================
 // TYPES
@@ -52,36 +85,19 @@ interface CVBatchPayload {
   clientId: string;
 }
 
-interface ParsedCV {
-  full_name: string | null;
-  email: string | null;
-  phone: string | null;
-  address: string | null;
-  linkedin_url: string | null;
-  date_of_birth: string | null;
-  nationality: string | null;
-  visa_work_permit: string | null;
-  professional_summary: string | null;
-  future_job_aspirations: string | null;
-  work_history: any[];
-  education: any[];
-  skills: string[];
-  certifications: any[];
-  driving_licence: string | null;
-  languages: any[];
-  training_courses: any[];
-  professional_memberships: any[];
-  awards_honours: any[];
-  volunteering: any[];
-  interests_hobbies: any[];
-  candidate_references: any[];
-  military_service: string | null;
-  salary_expectation: string | null;
-  notice_period: string | null;
-  availability_start_date: string | null;
-  relocation_willingness: string | null;
-  remote_work_preference: string | null;
-  cv_summary: string | null;
+/**
+ * One file to process - or one CV cut out of a merged document, stored as
+ * its own text file and tracked under the document's "#segment-N" status path
+ */
+interface BatchFile {
+  name: string;
+  path: string;
+  segment?: {
+    index: number;
+    count: number;
+    text: string;
+    statusPath: string;
+  };
 }
 
 interface FileProcessingStatus {
@@ -90,6 +106,8 @@ interface FileProcessingStatus {
   status: "pending" | "processing" | "complete" | "failed" | "rejected";
   error_message?: string;
   candidate_id?: string;
+  segment_index?: number | null; // Set on a CV cut out of a merged document
+  segment_count?: number | null; // Set on the merged document itself
   processed_at?: string;
 }
 
@@ -101,6 +119,12 @@ interface BatchStats {
   failed: number;
   held_for_review: number;
   duplicates_found: number;
+  in_batch_duplicates: number; // Extra files attached to a candidate already in this batch
+  cache_hits: number; // Gemini steps answered from file_result_cache
+  shortlisted: number;
+  opportunities: number; // GHL opportunities created or updated for the batch's job
+  cover_letters_paired: number; // Letters stored against a CV instead of rejected
+  split_documents: number; // Merged documents split into one file per CV
 }
 
 // ============================================
@@ -111,6 +135,36 @@ function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+// ============================================
+// HELPER: MERGED DOCUMENT LIMITS
+// ============================================
+
+/**
+ * How many of a merged document's CVs fit under MAX_BATCH_SIZE and the
+ * daily cost limits, checked the same way as the uploaded files were.
+ * CVs already completed by an earlier run don't count towards cost.
+ */
+async function countSegmentsWithinLimits(
+  segmentPaths: string[],
+  otherBatchFiles: number, // CVs in the batch besides this document
+  remainingFiles: number, // Files after this one still to process
+  fileStatusMap: Map<string, { status: string }>
+): Promise<{ count: number; reason: string | null }> {
+  let count = Math.min(segmentPaths.length, Math.max(0, PROCESSING_CONFIG.MAX_BATCH_SIZE - otherBatchFiles));
+  let reason = count < segmentPaths.length
+    ? `Batch size ${otherBatchFiles + segmentPaths.length} exceeds maximum ${PROCESSING_CONFIG.MAX_BATCH_SIZE}`
+    : null;
+
+  for (; count > 0; count--) {
+    const unprocessed = segmentPaths.slice(0, count).filter((path) => fileStatusMap.get(path)?.status !== "complete").length;
+    const costCheck = await canProcessBatch(remainingFiles + unprocessed);
+    if (costCheck.allowed) break;
+    reason = `Cost limit check failed: ${costCheck.reason}`;
+  }
+
+  return { count, reason };
+}
+
 // ============================================
 // MAIN TASK
 // ============================================
@@ -120,8 +174,9 @@ export const processCVBatch = task({
   maxDuration: 600, // 10 minutes
   run: async (payload: CVBatchPayload) => {
     const { batchId, clientId } = payload;
+    const llm = getLLMProvider();
 
-    logger.info("🚀 Starting CV batch processing", { batchId, clientId });
+    logger.info("🚀 Starting CV batch processing", { batchId, clientId, llmProvider: llm.name });
 
     // Log current daily usage
     await logDailyUsageSummary();
@@ -147,8 +202,11 @@ export const processCVBatch = task({
         await markBatchForRecovery(batchId);
       }
 
-      // 2) List all files
-      const files = await listBatchFiles(batchId, clientId);
+      // 2) List all files - one CV per candidate, plus its supporting documents
+      const { bundles, unpaired } = await loadBatchBundles(batchId, clientId);
+      const files: BatchFile[] = bundles.map((b) => b.cv);
+      const bundleDocuments = new Map(bundles.map((b) => [b.cv.path, b.documents]));
+      const unpairedDocuments = createUnpairedDocumentPool(unpaired);
       logger.info(`📁 Found ${files.length} files to process`, { batchId });
 
       if (files.length === 0) {
@@ -193,6 +251,9 @@ export const processCVBatch = task({
       // 5) Mark batch as processing
       await updateBatchStatus(batchId, "processing");
 
+      // GHL custom field ids / types for this client's mapping
+      await prepareGHLFieldSync(clientId);
+
       // Initialize stats
       const stats: BatchStats = {
         total_files: files.length,
@@ -202,8 +263,18 @@ export const processCVBatch = task({
         failed: 0,
         held_for_review: 0,
         duplicates_found: 0,
+        in_batch_duplicates: 0,
+        cache_hits: 0,
+        shortlisted: 0,
+        opportunities: 0,
+        cover_letters_paired: 0,
+        split_documents: 0,
       };
 
+      // Batch metadata from the uploader (job + assigned colleague)
+      const batchDetails = await getBatchDetails(batchId);
+      const batchCandidateIds: string[] = [];
+
       const classificationResults: ClassificationResult[] = [];
       const ghlAccessToken = ENV.GHL_PRIVATE_KEY;
 
@@ -211,21 +282,31 @@ export const processCVBatch = task({
       const fileStatuses = await getFileProcessingStatuses(batchId);
       const fileStatusMap = new Map(fileStatuses.map(f => [f.file_path, f]));
 
+      // In-batch duplicates (same file twice, or two CVs for one person)
+      const clusters = await loadBatchClusterIndex(batchId);
+
+      // Letters are paired to CVs once every file has been read
+      const pendingCoverLetters: PendingCoverLetter[] = [];
+      const coverLetterTargets: CoverLetterTarget[] = [];
+
       // 7) Process each file sequentially
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
-        const correlationId = `${batchId}_${file.name}`;
+        const statusPath = file.segment?.statusPath || file.path;
+        const correlationId = `${batchId}_${file.name}${file.segment ? `#${file.segment.index}` : ""}`;
 
         try {
-          // Check if file already processed (idempotency)
-          const existingStatus = fileStatusMap.get(file.path);
-          if (existingStatus?.status === "complete") {
+          // Check if file already processed (idempotency).
+          // A split document is read again so its unfinished CVs are found.
+          const existingStatus = fileStatusMap.get(statusPath);
+          if (existingStatus?.status === "complete" && !existingStatus.segment_count) {
             logger.info(`⏭️ File already processed - skipping`, {
               correlationId,
               fileName: file.name,
               candidateId: existingStatus.candidate_id,
             });
             stats.processed++;
+            if (existingStatus.candidate_id && !batchCandidateIds.includes(existingStatus.candidate_id)) batchCandidateIds.push(existingStatus.candidate_id);
             continue;
           }
 
@@ -243,13 +324,14 @@ export const processCVBatch = task({
             correlationId,
             name: file.name,
             path: file.path,
+            ...(file.segment ? { segment: `${file.segment.index + 1}/${file.segment.count}` } : {}),
           });
 
           // Mark file as processing
-          await updateFileStatus(batchId, file.path, file.name, "processing");
+          await updateFileStatus(batchId, statusPath, file.name, "processing");
 
-          // Validate file size
-          const fileSize = await getFileSize(file.path);
+          // Validate file size (a segment's document already passed)
+          const fileSize = file.segment ? 0 : await getFileSize(file.path);
           if (fileSize > VALIDATION_RULES.MAX_FILE_SIZE_MB * 1024 * 1024) {
             logger.warn("❌ File too large - rejecting", {
               correlationId,
@@ -260,7 +342,7 @@ export const processCVBatch = task({
 
             await updateFileStatus(
               batchId,
-              file.path,
+              statusPath,
               file.name,
               "failed",
               `File size ${(fileSize / 1024 / 1024).toFixed(2)}MB exceeds maximum ${VALIDATION_RULES.MAX_FILE_SIZE_MB}MB`
@@ -269,20 +351,133 @@ export const processCVBatch = task({
             continue;
           }
 
-          // Download file
-          const fileBuffer = await downloadFile(file.path);
+          // Download file (a segment is its text from the merged document)
+          const fileBuffer = file.segment
+            ? (new TextEncoder().encode(file.segment.text).buffer as ArrayBuffer)
+            : await downloadFile(file.path);
+          const contentHash = hashFileContent(fileBuffer);
+          const sourceFile: SourceFile = { path: statusPath, name: file.name, content_hash: contentHash };
+
+          // Identical file already in this batch - no need to extract or parse it
+          const hashCluster = clusters.findByHash(contentHash);
+          if (hashCluster) {
+            await attachInBatchDuplicate(batchId, hashCluster, sourceFile, "content_hash", correlationId);
+            stats.in_batch_duplicates++;
+            stats.processed++;
+            continue;
+          }
+
+          // Results from an earlier upload of the same bytes
+          const cached = await getCachedFileResults(contentHash);
+          if (cached) {
+            logger.info("💾 File seen before - reusing cached results", {
+              correlationId,
+              fileName: file.name,
+              stages: (["extracted_text", "classification", "quick_parse", "full_parse"] as const).filter((k) => cached[k]),
+            });
+          }
 
           // Extract text
-          const rawText = await extractText(fileBuffer, file.name);
-          await trackTextExtraction(batchId, rawText?.length || 0);
+          let rawText: string;
+          let extractionMethod: string;
+          if (file.segment) {
+            rawText = file.segment.text;
+            extractionMethod = "multi_cv_split";
+          } else if (cached?.extracted_text) {
+            rawText = cached.extracted_text;
+            extractionMethod = cached.extraction_method || "cached";
+            if (extractionMethod === "gemini_ocr") {
+              await trackCacheHit("text_extraction", batchId);
+              stats.cache_hits++;
+            }
+          } else {
+            const extraction = await extractText(fileBuffer, file.name, llm);
+            rawText = extraction.text;
+            extractionMethod = extraction.method;
+            if (extraction.call) {
+              await trackTextExtraction(batchId, rawText?.length || 0, extraction.call);
+            }
+            if (rawText) {
+              await saveCachedFileResults(contentHash, {
+                extracted_text: rawText,
+                extraction_method: extractionMethod,
+              });
+            }
+          }
 
           logger.info("Extracted text stats", {
             correlationId,
             file: file.name,
+            method: extractionMethod,
             length: rawText?.length ?? 0,
             preview: (rawText || "").slice(0, 200),
           });
 
+          // Several CVs merged into one document - each goes through as its own file
+          if (!file.segment) {
+            const segments = splitMultiCVText(rawText || "");
+            if (segments.length > 1) {
+              logger.info("✂️ Merged document split into separate CVs", {
+                correlationId,
+                fileName: file.name,
+                segments: segments.length,
+                pages: segments.map((seg) => (seg.start_page ? `${seg.start_page}-${seg.end_page}` : null)),
+              });
+
+              // Its CVs count against the batch size and cost limits before
+              // they are queued - any over a limit are failed, not processed
+              const limits = await countSegmentsWithinLimits(
+                segments.map((seg) => segmentStatusPath(file.path, seg.index)),
+                files.length - stats.split_documents - 1,
+                files.length - i - 1,
+                fileStatusMap
+              );
+              const overflow = segments.slice(limits.count);
+              if (overflow.length > 0) {
+                logger.warn("⚠️ Merged document exceeds batch limits - not processing the remaining CVs", {
+                  correlationId,
+                  fileName: file.name,
+                  queued: limits.count,
+                  notProcessed: overflow.length,
+                  reason: limits.reason,
+                });
+                for (const seg of overflow) {
+                  await updateFileStatus(
+                    batchId,
+                    segmentStatusPath(file.path, seg.index),
+                    segmentFilePath(clientId, batchId, file.name, seg.index).split("/").pop()!,
+                    "failed",
+                    `Not processed: ${limits.reason}`
+                  );
+                }
+                stats.failed += overflow.length;
+              }
+
+              // Each CV gets its own file - the merged document holds everyone's
+              const segmentFiles: BatchFile[] = [];
+              for (const seg of segments.slice(0, limits.count)) {
+                const path = segmentFilePath(clientId, batchId, file.name, seg.index);
+                await uploadSegmentFile(path, seg.text);
+                segmentFiles.push({
+                  name: path.split("/").pop()!,
+                  path,
+                  segment: {
+                    index: seg.index,
+                    count: segments.length,
+                    text: seg.text,
+                    statusPath: segmentStatusPath(file.path, seg.index),
+                  },
+                });
+              }
+
+              files.splice(i + 1, 0, ...segmentFiles);
+              stats.split_documents++;
+              stats.total_files += segments.length - 1;
+              await recordFileSplit(batchId, file.path, file.name, segments.length);
+              continue;
+            }
+          }
+
           // Validate text length
           if (!rawText || rawText.trim().length < PROCESSING_CONFIG.MIN_TEXT_LENGTH_REQUIRED) {
             logger.warn("❌ File has insufficient text - rejecting", {
@@ -294,7 +489,7 @@ export const processCVBatch = task({
 
             await updateFileStatus(
               batchId,
-              file.path,
+              statusPath,
               file.name,
               "failed",
               "Insufficient text content"
@@ -335,8 +530,16 @@ export const processCVBatch = task({
           let classification: ClassificationResult;
 
           // Only run AI classification if heuristic suggests it might be a CV
-          if (heuristic.likely_cv) {
-            classification = await classifyDocument(rawText, file.name, batchId);
+          if (heuristic.likely_cv && cached?.classification && !isFallbackClassification(cached.classification)) {
+            classification = cached.classification;
+            await trackCacheHit("document_classification", batchId);
+            stats.cache_hits++;
+          } else if (heuristic.likely_cv) {
+            classification = await classifyDocument(rawText, file.name, batchId, llm);
+            // A fail-safe rejection (API error, bad output) gets a fresh try next upload
+            if (!isFallbackClassification(classification)) {
+              await saveCachedFileResults(contentHash, { classification });
+            }
           } else {
             // Heuristic strongly indicates non-CV, save AI cost
             classification = {
@@ -352,6 +555,18 @@ export const processCVBatch = task({
           stats.classified++;
           classificationResults.push(classification);
 
+          // Cover letter - held back to pair with its CV after the loop
+          if (
+            !classification.should_process &&
+            classification.document_type === "letter" &&
+            DOCUMENT_BUNDLE_CONFIG.PAIR_CLASSIFIED_COVER_LETTERS &&
+            !file.segment // Only whole files can be stored as a letter
+          ) {
+            logger.info("✉️ Letter found - pairing with a CV after the batch", { correlationId, file: file.name });
+            pendingCoverLetters.push({ file, rawText, classification, correlationId });
+            continue;
+          }
+
           // Reject if not a CV
           if (!classification.should_process) {
             logger.warn("❌ Document rejected by classification", {
@@ -368,7 +583,7 @@ export const processCVBatch = task({
             await recordRejection(batchId, file.name, file.path, classification);
             await updateFileStatus(
               batchId,
-              file.path,
+              statusPath,
               file.name,
               "rejected",
               classification.rejection_reason
@@ -384,8 +599,19 @@ export const processCVBatch = task({
           });
 
           // Quick parse for contact info
-          const quickData = await quickParse(rawText);
-          await trackQuickParse(batchId);
+          let quickData: Pick<ParsedCV, "full_name" | "email" | "phone">;
+          if (cached?.quick_parse) {
+            quickData = cached.quick_parse;
+            await trackCacheHit("quick_parse", batchId);
+            stats.cache_hits++;
+          } else {
+            const quick = await quickParse(llm, rawText);
+            quickData = quick.data;
+            await trackQuickParse(batchId, quick.call);
+            if (quick.parsed) {
+              await saveCachedFileResults(contentHash, { quick_parse: quickData });
+            }
+          }
 
           logger.info("Quick parse extracted", {
             correlationId,
@@ -394,6 +620,9 @@ export const processCVBatch = task({
             name: quickData.full_name || "none",
           });
 
+          // Supporting documents from the manifest / folders
+          let supportingDocuments: BundleDocument[] = (!file.segment && bundleDocuments.get(file.path)) || [];
+
           // Check for required contact info
           const hasEmail = quickData.email && isValidEmail(quickData.email);
           const hasPhone = quickData.phone && normalizePhone(quickData.phone);
@@ -405,7 +634,7 @@ export const processCVBatch = task({
             });
 
             stats.held_for_review++;
-            await addSingleToHoldQueue(batchId, clientId, {
+            const holdQueueId = await addSingleToHoldQueue(batchId, clientId, {
               file_name: file.name,
               file_path: file.path,
               extracted_name: quickData.full_name,
@@ -414,11 +643,23 @@ export const processCVBatch = task({
                 ...quickData,
                 reason: "missing_contact_info",
               },
+              source_file: sourceFile,
+              supporting_documents: supportingDocuments,
+            });
+            clusters.register({ candidateId: null, holdQueueId, primaryFile: statusPath }, { contentHash });
+            coverLetterTargets.push({
+              candidateId: null,
+              holdQueueId,
+              fullName: quickData.full_name,
+              email: quickData.email,
+              cvFileName: file.name,
+              ghlContactId: null,
+              data: null,
             });
 
             await updateFileStatus(
               batchId,
-              file.path,
+              statusPath,
               file.name,
               "complete",
               undefined,
@@ -429,42 +670,83 @@ export const processCVBatch = task({
             continue;
           }
 
+          // Same person as a CV earlier in this batch
+          const identityCluster = clusters.findByIdentity(quickData);
+          if (identityCluster) {
+            await attachInBatchDuplicate(batchId, identityCluster, sourceFile, "identity", correlationId);
+            clusters.addKeys(identityCluster, { contentHash });
+            stats.in_batch_duplicates++;
+            stats.processed++;
+            continue;
+          }
+
+          // Documents nothing paired that name this candidate
+          const classifierPaired = await unpairedDocuments.claimForCandidate(quickData, llm, batchId);
+          if (classifierPaired.length > 0) {
+            logger.info("📎 Supporting documents paired by content", {
+              correlationId,
+              documents: classifierPaired.map((d) => `${d.type}:${d.name}`),
+            });
+            supportingDocuments = [...supportingDocuments, ...classifierPaired];
+          }
+
           // Duplicate detection
           const existingCandidate = await findExistingCandidate(quickData.email, quickData.phone);
-          const ghlDuplicate = await findExistingGHLContact(
+          const ghlLookup = await findExistingGHLContact(
             quickData.email,
             quickData.phone,
             ghlAccessToken
           );
           await trackGHLCall("search_contact", batchId);
+          const ghlDuplicate = ghlLookup.contactId;
+          const ghlAmbiguous = ghlLookup.status === "ambiguous";
 
-          if (existingCandidate || ghlDuplicate) {
+          if (existingCandidate || ghlDuplicate || ghlAmbiguous) {
             logger.warn("🔍 Duplicate detected", {
               correlationId,
               fileName: file.name,
               supabaseDuplicate: !!existingCandidate,
               ghlDuplicate: !!ghlDuplicate,
+              ghlAmbiguous,
             });
 
             stats.duplicates_found++;
             stats.held_for_review++;
 
-            await addSingleToHoldQueue(batchId, clientId, {
+            const holdQueueId = await addSingleToHoldQueue(batchId, clientId, {
               file_name: file.name,
               file_path: file.path,
               extracted_name: quickData.full_name,
               raw_text: rawText,
               extracted_data: {
                 ...quickData,
-                reason: "duplicate_detected",
+                reason: ghlAmbiguous ? "ghl_ambiguous_match" : "duplicate_detected",
                 supabase_duplicate_id: existingCandidate?.id,
                 ghl_duplicate_contact_id: ghlDuplicate,
+                // Several GHL contacts share this email/phone - reviewer decides
+                ...(ghlAmbiguous ? { ghl_candidate_contacts: ghlLookup.matches } : {}),
               },
+              duplicate_candidates: await findDuplicateCandidates(quickData),
+              source_file: sourceFile,
+              supporting_documents: supportingDocuments,
+            });
+            clusters.register(
+              { candidateId: null, holdQueueId, primaryFile: statusPath },
+              { contentHash, email: quickData.email, phone: quickData.phone }
+            );
+            coverLetterTargets.push({
+              candidateId: null,
+              holdQueueId,
+              fullName: quickData.full_name,
+              email: quickData.email,
+              cvFileName: file.name,
+              ghlContactId: null,
+              data: null,
             });
 
             await updateFileStatus(
               batchId,
-              file.path,
+              statusPath,
               file.name,
               "complete",
               undefined,
@@ -476,9 +758,32 @@ export const processCVBatch = task({
           }
 
           // Full parse
-          const parsedData = await fullParse(rawText);
+          let fullResult = cached?.full_parse || null;
+          if (fullResult) {
+            await trackCacheHit("full_parse", batchId);
+            stats.cache_hits++;
+          } else {
+            const full = await fullParse(llm, rawText);
+            for (const call of full.calls) {
+              await trackFullParse(batchId, call);
+            }
+            fullResult = {
+              data: full.data,
+              validation: full.validation,
+              chunking: full.chunking,
+              model: full.calls[0].model,
+            };
+            if (!isUnparseableReport(full.validation)) {
+              await saveCachedFileResults(contentHash, { full_parse: fullResult });
+            }
+          }
+          const {
+            data: parsedData,
+            validation: parseValidation,
+            chunking: parseChunking,
+            model: parseModel,
+          } = fullResult;
           parsedData.cv_raw_text = rawText;
-          await trackFullParse(batchId);
 
           // Merge quick parse contact info (in case full parse missed it)
           parsedData.email = parsedData.email || quickData.email;
@@ -488,9 +793,67 @@ export const processCVBatch = task({
           logger.info("Full parse complete", {
             correlationId,
             fileName: file.name,
+            model: parseModel,
+            chunks: parseChunking.chunk_count,
             fieldsExtracted: Object.keys(parsedData).filter(k => parsedData[k as keyof ParsedCV]).length,
           });
 
+          // Fuzzy duplicate check (changed email, work vs personal address)
+          const duplicateCandidates = await findDuplicateCandidates(parsedData);
+
+          if (duplicateCandidates.length > 0 && duplicateCandidates[0].score >= DUPLICATE_CONFIG.HOLD_THRESHOLD) {
+            logger.warn("🔍 Possible duplicate detected", {
+              correlationId,
+              fileName: file.name,
+              candidateId: duplicateCandidates[0].candidate_id,
+              score: duplicateCandidates[0].score,
+              matchedFeatures: duplicateCandidates[0].matched_features,
+            });
+
+            stats.duplicates_found++;
+            stats.held_for_review++;
+
+            const holdQueueId = await addSingleToHoldQueue(batchId, clientId, {
+              file_name: file.name,
+              file_path: file.path,
+              extracted_name: parsedData.full_name,
+              raw_text: rawText,
+              extracted_data: {
+                ...quickData,
+                reason: "possible_duplicate",
+                supabase_duplicate_id: duplicateCandidates[0].candidate_id,
+              },
+              duplicate_candidates: duplicateCandidates,
+              source_file: sourceFile,
+              supporting_documents: supportingDocuments,
+            });
+            clusters.register(
+              { candidateId: null, holdQueueId, primaryFile: statusPath },
+              { contentHash, email: parsedData.email, phone: parsedData.phone }
+            );
+            coverLetterTargets.push({
+              candidateId: null,
+              holdQueueId,
+              fullName: parsedData.full_name,
+              email: parsedData.email,
+              cvFileName: file.name,
+              ghlContactId: null,
+              data: null,
+            });
+
+            await updateFileStatus(
+              batchId,
+              statusPath,
+              file.name,
+              "complete",
+              undefined,
+              undefined,
+              "Sent to hold queue - possible duplicate"
+            );
+
+            continue;
+          }
+
           // Write to Supabase (fail-safe: always save here first)
           const candidateId = await writeCandidate({
             ...parsedData,
@@ -498,151 +861,63 @@ export const processCVBatch = task({
             ghl_contact_id: null,
             cv_file_path: file.path,
             batch_id: batchId,
+            parse_model: parseModel,
+            parse_validation: parseValidation,
+            parse_chunking: parseChunking,
+            source_files: [sourceFile],
             status: "pending_ghl_sync",
           });
+          clusters.register(
+            { candidateId, holdQueueId: null, primaryFile: statusPath },
+            { contentHash, email: parsedData.email, phone: parsedData.phone }
+          );
 
           logger.info("✅ Candidate saved to Supabase", {
             correlationId,
             candidateId,
             fileName: file.name,
           });
+          batchCandidateIds.push(candidateId);
+          const coverLetterTarget: CoverLetterTarget = {
+            candidateId,
+            holdQueueId: null,
+            fullName: parsedData.full_name,
+            email: parsedData.email,
+            cvFileName: file.name,
+            ghlContactId: null,
+            data: parsedData,
+          };
+          coverLetterTargets.push(coverLetterTarget);
 
           // Sync to GHL
           try {
-            // Create or update GHL contact
-            const existingGHLContactId = await findExistingGHLContact(
-              parsedData.email,
-              parsedData.phone,
-              ghlAccessToken
-            );
-            await trackGHLCall("search_contact", batchId);
-
-            let ghlContactId: string;
-
-            if (existingGHLContactId) {
-              ghlContactId = existingGHLContactId;
-              logger.info("📝 Updating existing GHL contact", {
-                correlationId,
-                ghlContactId,
-              });
-            } else {
-              ghlContactId = await createGHLContact(parsedData, ghlAccessToken);
-              await trackGHLCall("create_contact", batchId);
-              logger.info("✅ Created new GHL contact", {
-                correlationId,
-                ghlContactId,
-              });
-            }
-
-            // Upload CV file to GHL
-            let cvFileUrl: string | null = null;
-            try {
-              const cvUploadResult = await uploadCVToGHL(
-                ghlContactId,
-                file.path,
-                file.name,
-                ghlAccessToken
-              );
-              await trackGHLCall("upload_file", batchId);
-
-              cvFileUrl = cvUploadResult.fileUrl || null;
-
-              if (!cvUploadResult.success) {
-                logger.warn("⚠️ CV file upload failed", {
-                  correlationId,
-                  ghlContactId,
-                  error: cvUploadResult.error,
-                });
-              } else {
-                logger.info("✅ CV file uploaded to GHL", {
-                  correlationId,
-                  ghlContactId,
-                  fileUrl: cvFileUrl,
-                });
-              }
-            } catch (uploadError: any) {
-              logger.error("❌ CV file upload exception", {
-                correlationId,
-                ghlContactId,
-                error: uploadError.message,
-              });
-            }
-
-            // Upload cover letter (if exists)
-            let coverLetterUrl: string | null = null;
-            try {
-              coverLetterUrl = await uploadCoverLetterToGHL(
-                ghlContactId,
-                file.path,
-                ghlAccessToken
-              );
-              if (coverLetterUrl) {
-                await trackGHLCall("upload_file", batchId);
-                logger.info("✅ Cover letter uploaded", {
-                  correlationId,
-                  ghlContactId,
-                  fileUrl: coverLetterUrl,
-                });
-              }
-            } catch (clError: any) {
-              logger.warn("⚠️ Cover letter upload failed", {
-                correlationId,
-                error: clError.message,
-              });
-            }
-
-            // Upload other documents (if exists)
-            let otherDocsUrl: string | null = null;
-            try {
-              otherDocsUrl = await uploadOtherDocsToGHL(
-                ghlContactId,
-                file.path,
-                ghlAccessToken
-              );
-              if (otherDocsUrl) {
-                await trackGHLCall("upload_file", batchId);
-                logger.info("✅ Other documents uploaded", {
-                  correlationId,
-                  ghlContactId,
-                  fileUrl: otherDocsUrl,
-                });
-              }
-            } catch (odError: any) {
-              logger.warn("⚠️ Other documents upload failed", {
-                correlationId,
-                error: odError.message,
-              });
-            }
-
-            // Update GHL contact with all fields + file URLs
-            await updateGHLContact(
-              ghlContactId,
-              parsedData,
+            const { ghlContactId } = await syncCandidateToGHL({
               candidateId,
-              cvFileUrl,
-              coverLetterUrl,
-              otherDocsUrl,
-              ghlAccessToken
-            );
-            await trackGHLCall("update_contact", batchId);
-
-            logger.info("✅ GHL contact updated with full data", {
+              data: parsedData,
+              cvFilePath: file.path,
+              fileName: file.name,
+              batchId,
+              clientId,
               correlationId,
-              ghlContactId,
-              cvUploaded: !!cvFileUrl,
-              coverLetterUploaded: !!coverLetterUrl,
-              otherDocsUploaded: !!otherDocsUrl,
+              supportingDocuments,
+              importActivity: {
+                classification,
+                parseValidation,
+                parseChunking,
+                colleague: batchDetails?.colleague ?? null,
+              },
             });
 
             // Update candidate with GHL contact ID
             await updateCandidateGHL(candidateId, ghlContactId, "complete");
+            coverLetterTarget.ghlContactId = ghlContactId;
 
             stats.processed++;
 
             // Mark file as complete
             await updateFileStatus(
               batchId,
-              file.path,
+              statusPath,
               file.name,
               "complete",
               undefined,
@@ -668,7 +943,7 @@ export const processCVBatch = task({
             // Mark file as complete with warning
             await updateFileStatus(
               batchId,
-              file.path,
+              statusPath,
               file.name,
               "complete",
               `GHL sync failed: ${ghlError.message}`,
@@ -684,7 +959,11 @@ export const processCVBatch = task({
           }
 
           // Update batch progress
-          await updateBatchProgress(batchId, stats.processed + stats.held_for_review + stats.failed + stats.rejected_by_classification, files.length);
+          await updateBatchProgress(
+            batchId,
+            stats.processed + stats.held_for_review + stats.failed + stats.rejected_by_classification + stats.split_documents,
+            files.length
+          );
         } catch (fileError: any) {
           logger.error("❌ File processing exception", {
             correlationId,
@@ -698,7 +977,7 @@ export const processCVBatch = task({
           // Mark file as failed
           await updateFileStatus(
             batchId,
-            file.path,
+            statusPath,
             file.name,
             "failed",
             fileError.message
@@ -713,14 +992,86 @@ export const processCVBatch = task({
         }
       }
 
+      // Pair held-back letters with this batch's CVs; the rest are rejected as before
+      if (pendingCoverLetters.length > 0) {
+        const { paired, unpaired } = pairCoverLetters(pendingCoverLetters, coverLetterTargets);
+
+        for (const pairing of paired) {
+          const { letter, target } = pairing;
+          try {
+            await storePairedCoverLetter({ pairing, batchId, clientId, llm, accessToken: ghlAccessToken });
+            stats.cover_letters_paired++;
+            await updateFileStatus(
+              batchId,
+              letter.file.path,
+              letter.file.name,
+              "complete",
+              undefined,
+              target.candidateId || undefined,
+              `Cover letter for ${target.cvFileName} (matched on ${pairing.matched_on})`
+            );
+            logger.info("✉️ Cover letter paired", {
+              correlationId: letter.correlationId,
+              cvFile: target.cvFileName,
+              candidateId: target.candidateId,
+              holdQueueId: target.holdQueueId,
+              matchedOn: pairing.matched_on,
+            });
+          } catch (error: any) {
+            logger.warn("⚠️ Failed to store paired cover letter", {
+              correlationId: letter.correlationId,
+              error: error.message,
+            });
+            unpaired.push(letter);
+          }
+        }
+
+        for (const letter of unpaired) {
+          const reason = letter.classification.rejection_reason || "Cover letter with no matching CV in batch";
+          stats.rejected_by_classification++;
+          await recordRejection(batchId, letter.file.name, letter.file.path, letter.classification);
+          await updateFileStatus(batchId, letter.file.path, letter.file.name, "rejected", reason);
+        }
+      }
+
       // Log classification stats
       if (classificationResults.length > 0) {
         logClassificationStats(classificationResults, batchId);
       }
 
+      // Shortlist new candidates against the batch's job (non-critical)
+      if (batchDetails?.job_id) {
+        try {
+          const shortlist = await createJobShortlist({
+            jobRef: batchDetails.job_id,
+            batchId,
+            colleague: batchDetails.colleague,
+            candidateIds: batchCandidateIds,
+            ghlAccessToken,
+          });
+          stats.shortlisted = shortlist.shortlisted;
+          stats.opportunities = (shortlist.opportunities?.created || 0) + (shortlist.opportunities?.updated || 0);
+        } catch (shortlistError: any) {
+          logger.error("❌ Job shortlist failed", {
+            batchId,
+            jobRef: batchDetails.job_id,
+            error: shortlistError.message,
+          });
+        }
+      }
+
       // Final batch status
       const finalStatus = stats.held_for_review > 0 ? "awaiting_input" : "complete";
-      await updateBatchStatus(batchId, finalStatus, stats.processed + stats.failed + stats.held_for_review + stats.rejected_by_classification);
+      await updateBatchStatus(
+        batchId,
+        finalStatus,
+        stats.processed +
+          stats.failed +
+          stats.held_for_review +
+          stats.rejected_by_classification +
+          stats.cover_letters_paired +
+          stats.split_documents
+      );
 
       // Log cost summary
       await logBatchCostSummary(batchId);
@@ -752,904 +1103,55 @@ export const processCVBatch = task({
 });
 
 // ============================================
-// GEMINI API - TEXT EXTRACTION
+// DATABASE OPERATIONS
 // ============================================
 
-async function extractText(fileBuffer: ArrayBuffer, fileName: string): Promise<string> {
-  const base64Data = Buffer.from(fileBuffer).toString("base64");
-
-  const ext = fileName.split(".").pop()?.toLowerCase();
-  let mimeType = "application/pdf";
-
-  if (ext === "docx") {
-    mimeType = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
-  } else if (ext === "doc") {
-    mimeType = "application/msword";
-  }
-
-  const url = `${GEMINI_CONFIG.BASE_URL}/models/${GEMINI_CONFIG.MODEL}:generateContent?key=${ENV.GEMINI_API_KEY}`;
-  const maxAttempts = GEMINI_CONFIG.MAX_RETRIES;
-
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    try {
-      const response = await fetch(url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                {
-                  inlineData: {
-                    mimeType: mimeType,
-                    data: base64Data,
-                  },
-                },
-                {
-                  text: "Extract all text from this document. Return only the raw text content, preserving structure and formatting.",
-                },
-              ],
-            },
-          ],
-        }),
-      });
-
-      const bodyText = await response.text();
-
-      if (response.ok) {
-        let data: any;
-        try {
-          data = JSON.parse(bodyText);
-        } catch {
-          throw new Error("Gemini returned non-JSON envelope");
-        }
-
-        const text = data?.candidates?.[0]?.content?.parts?.[0]?.text ?? "";
-        return typeof text === "string" ? text : "";
-      }
-
-      const status = response.status;
-      const retryable = isRetryableStatus(status, GEMINI_CONFIG.RETRYABLE_STATUS_CODES);
-
-      logger.warn("Gemini text extraction failed", {
-        attempt,
-        status,
-        retryable,
-        bodyPreview: bodyText.slice(0, 500),
-      });
+async function updateBatchStatus(
+  batchId: string,
+  status: string,
+  processedCount?: number
+): Promise<void> {
+  const updateData: any = { status };
+  if (processedCount !== undefined) updateData.processed_count = processedCount;
+  if (status === "complete" || status === "awaiting_input" || status === "failed")
+    updateData.completed_at = new Date().toISOString();
 
-      if (!retryable || attempt === maxAttempts) {
-        throw new Error(`Gemini request failed (status ${status}): ${bodyText.slice(0, 500)}`);
-      }
+  const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/processing_batches?id=eq.${batchId}`, {
+    method: "PATCH",
+    headers: {
+      Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+      apikey: ENV.SUPABASE_SERVICE_KEY,
+      "Content-Type": "application/json",
+      Prefer: "return=minimal",
+    },
+    body: JSON.stringify(updateData),
+  });
 
-      const waitMs = getRetryDelay(attempt, GEMINI_CONFIG);
-      logger.info("Retrying Gemini text extraction", { attempt, waitMs });
-      await delay(waitMs);
-    } catch (error: any) {
-      if (attempt === maxAttempts) {
-        throw error;
-      }
-      logger.warn("Gemini text extraction exception", {
-        attempt,
-        error: error.message,
-      });
-      const waitMs = getRetryDelay(attempt, GEMINI_CONFIG);
-      await delay(waitMs);
-    }
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`Failed to update batch status: ${response.status} ${t.slice(0, 800)}`);
   }
-
-  throw new Error("Gemini text extraction failed after retries");
 }
 
-// ============================================
-// GEMINI API - QUICK PARSE (contact info only)
-// ============================================
+async function updateBatchProgress(
+  batchId: string,
+  processed: number,
+  _total: number
+): Promise<void> {
+  const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/processing_batches?id=eq.${batchId}`, {
+    method: "PATCH",
+    headers: {
+      Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+      apikey: ENV.SUPABASE_SERVICE_KEY,
+      "Content-Type": "application/json",
+      Prefer: "return=minimal",
+    },
+    body: JSON.stringify({ processed_count: processed }),
+  });
 
-function stripJsonFences(s: string): string {
-  let t = (s || "").trim();
-  if (t.startsWith("```")) {
-    t = t.replace(/^```[a-zA-Z]*\n?/, "").replace(/```$/, "").trim();
-  }
-  return t;
-}
-
-async function quickParse(rawText: string): Promise<Partial<ParsedCV>> {
-  const sampleText = rawText.substring(0, PROCESSING_CONFIG.MAX_TEXT_LENGTH_FOR_PARSE);
-
-  const prompt = `Extract ONLY the following fields from this CV/resume. Return ONLY valid JSON in this exact format:
-
-{
-  "full_name": "string or null",
-  "email": "string or null",
-  "phone": "string or null"
-}
-
-CV Text:
-${sampleText}
-
-Return ONLY the JSON object, no other text.`;
-
-  const url = `${GEMINI_CONFIG.BASE_URL}/models/${GEMINI_CONFIG.MODEL}:generateContent?key=${ENV.GEMINI_API_KEY}`;
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      contents: [{ parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0,
-        responseMimeType: "application/json",
-      },
-    }),
-  });
-
-  if (!response.ok) {
-    const txt = await response.text();
-    throw new Error(`Gemini quick parse failed: ${txt.slice(0, 500)}`);
-  }
-
-  const data = await response.json();
-  const rawOutput = data?.candidates?.[0]?.content?.parts?.[0]?.text ?? "{}";
-  const cleaned = stripJsonFences(rawOutput);
-
-  try {
-    return JSON.parse(cleaned);
-  } catch {
-    logger.warn("Failed to parse Gemini quick parse output", {
-      outputPreview: truncateForLog(cleaned, 500),
-    });
-    return { full_name: null, email: null, phone: null };
-  }
-}
-
-// ============================================
-// GEMINI API - FULL PARSE (all 51 fields)
-// ============================================
-
-async function fullParse(rawText: string): Promise<ParsedCV> {
-  const sampleText = rawText.substring(0, PROCESSING_CONFIG.MAX_TEXT_LENGTH_FOR_PARSE);
-
-  const prompt = `Extract ALL structured data from this CV/resume. Return ONLY valid JSON in this exact format:
-
-{
-  "full_name": "string or null",
-  "email": "string or null",
-  "phone": "string or null",
-  "address": "string or null",
-  "linkedin_url": "string or null",
-  "date_of_birth": "YYYY-MM-DD or null",
-  "nationality": "string or null",
-  "visa_work_permit": "string or null",
-  "professional_summary": "string or null",
-  "future_job_aspirations": "string or null",
-  "work_history": [
-    {
-      "job_title": "string",
-      "company_name": "string",
-      "company_location": "string or null",
-      "start_date": "string",
-      "end_date": "string or Present",
-      "employment_type": "string or null",
-      "duties_responsibilities": "string or null",
-      "achievements": "string or null",
-      "reason_for_leaving": "string or null"
-    }
-  ],
-  "education": [
-    {
-      "qualification_name": "string",
-      "institution_name": "string",
-      "start_date": "string or null",
-      "end_date": "string or null",
-      "grade_classification": "string or null",
-      "honours_awards": "string or null",
-      "dissertation_thesis": "string or null",
-      "extracurricular": "string or null"
-    }
-  ],
-  "skills": ["string"],
-  "certifications": [
-    {
-      "name": "string",
-      "issuing_organisation": "string or null",
-      "date_obtained": "string or null",
-      "expiry_date": "string or null",
-      "certification_id": "string or null"
-    }
-  ],
-  "driving_licence": "string or null",
-  "languages": [
-    {
-      "language": "string",
-      "proficiency": "string or null",
-      "reading": "string or null",
-      "writing": "string or null",
-      "speaking": "string or null",
-      "certifications": "string or null"
-    }
-  ],
-  "training_courses": ["string"],
-  "professional_memberships": ["string"],
-  "awards_honours": ["string"],
-  "volunteering": ["string"],
-  "interests_hobbies": ["string"],
-  "candidate_references": ["string"],
-  "military_service": "string or null",
-  "salary_expectation": "string or null",
-  "notice_period": "string or null",
-  "availability_start_date": "YYYY-MM-DD or null",
-  "relocation_willingness": "string or null",
-  "remote_work_preference": "string or null",
-  "cv_summary": "string or null"
-}
-
-CV Text:
-${sampleText}
-
-Return ONLY the JSON object, no other text.`;
-
-  const url = `${GEMINI_CONFIG.BASE_URL}/models/${GEMINI_CONFIG.MODEL}:generateContent?key=${ENV.GEMINI_API_KEY}`;
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      contents: [{ parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0,
-        responseMimeType: "application/json",
-      },
-    }),
-  });
-
-  if (!response.ok) {
-    const txt = await response.text();
-    throw new Error(`Gemini full parse failed: ${txt.slice(0, 500)}`);
-  }
-
-  const data = await response.json();
-  const rawOutput = data?.candidates?.[0]?.content?.parts?.[0]?.text ?? "{}";
-  const cleaned = stripJsonFences(rawOutput);
-
-  try {
-    const parsed = JSON.parse(cleaned);
-    return {
-      ...getEmptyParsedCV(),
-      ...parsed,
-    };
-  } catch {
-    logger.error("Failed to parse Gemini full parse output", {
-      outputPreview: truncateForLog(cleaned, 1000),
-    });
-    return getEmptyParsedCV();
-  }
-}
-
-function getEmptyParsedCV(): ParsedCV {
-  return {
-    full_name: null,
-    email: null,
-    phone: null,
-    address: null,
-    linkedin_url: null,
-    date_of_birth: null,
-    nationality: null,
-    visa_work_permit: null,
-    professional_summary: null,
-    future_job_aspirations: null,
-    work_history: [],
-    education: [],
-    skills: [],
-    certifications: [],
-    driving_licence: null,
-    languages: [],
-    training_courses: [],
-    professional_memberships: [],
-    awards_honours: [],
-    volunteering: [],
-    interests_hobbies: [],
-    candidate_references: [],
-    military_service: null,
-    salary_expectation: null,
-    notice_period: null,
-    availability_start_date: null,
-    relocation_willingness: null,
-    remote_work_preference: null,
-    cv_summary: null,
-  };
-}
-
-// ============================================
-// DUPLICATE DETECTION
-// ============================================
-
-async function findExistingCandidate(
-  email: string | null,
-  phone: string | null
-): Promise<{ id: string; updated_at: string } | null> {
-  if (email && isValidEmail(email)) {
-    const response = await fetch(
-      `${ENV.SUPABASE_URL}/rest/v1/candidates?email=eq.${encodeURIComponent(email)}&select=id,updated_at&order=updated_at.desc&limit=1`,
-      {
-        headers: {
-          Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
-          apikey: ENV.SUPABASE_SERVICE_KEY,
-        },
-      }
-    );
-
-    if (response.ok) {
-      const data = await response.json();
-      if (data.length > 0) {
-        return data[0];
-      }
-    }
-  }
-
-  if (phone) {
-    const normalized = normalizePhone(phone);
-    if (normalized) {
-      const response = await fetch(
-        `${ENV.SUPABASE_URL}/rest/v1/candidates?phone=eq.${encodeURIComponent(normalized)}&select=id,updated_at&order=updated_at.desc&limit=1`,
-        {
-          headers: {
-            Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
-            apikey: ENV.SUPABASE_SERVICE_KEY,
-          },
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.length > 0) {
-          return data[0];
-        }
-      }
-    }
-  }
-
-  return null;
-}
-
-async function findExistingGHLContact(
-  email: string | null,
-  phone: string | null,
-  accessToken: string
-): Promise<string | null> {
-  if (email && isValidEmail(email)) {
-    const emailUrl = `${GHL_CONFIG.BASE_URL}/contacts/?locationId=${ENV.GHL_LOCATION_ID}&query=${encodeURIComponent(email)}`;
-
-    const emailResponse = await fetch(emailUrl, {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        Version: GHL_CONFIG.API_VERSION,
-      },
-    });
-
-    if (emailResponse.ok) {
-      const data = await emailResponse.json();
-      if (data.contacts && data.contacts.length > 0) {
-        return data.contacts[0].id;
-      }
-    }
-  }
-
-  if (phone) {
-    const normalized = normalizePhone(phone);
-    if (normalized) {
-      const phoneUrl = `${GHL_CONFIG.BASE_URL}/contacts/?locationId=${ENV.GHL_LOCATION_ID}&query=${encodeURIComponent(normalized)}`;
-
-      const phoneResponse = await fetch(phoneUrl, {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          Version: GHL_CONFIG.API_VERSION,
-        },
-      });
-
-      if (phoneResponse.ok) {
-        const data = await phoneResponse.json();
-        if (data.contacts && data.contacts.length > 0) {
-          return data.contacts[0].id;
-        }
-      }
-    }
-  }
-
-  return null;
-}
-
-// ============================================
-// GHL OPERATIONS
-// ============================================
-
-async function createGHLContact(data: ParsedCV, accessToken: string): Promise<string> {
-  const { firstName, lastName } = splitName(data.full_name);
-
-  const email = data.email && isValidEmail(data.email) ? data.email.trim() : undefined;
-  const phone = data.phone ? normalizePhone(data.phone) ?? undefined : undefined;
-
-  const basePayload: any = {
-    firstName: firstName || "Unknown",
-    lastName: lastName || "",
-    locationId: ENV.GHL_LOCATION_ID,
-    tags: GHL_CONFIG.DEFAULT_TAGS,
-  };
-
-  const variants: any[] = [
-    { ...basePayload, ...(email ? { email } : {}), ...(phone ? { phone } : {}) },
-    { ...basePayload, ...(email ? { email } : {}) },
-    { ...basePayload, ...(phone ? { phone } : {}) },
-    { ...basePayload },
-  ];
-
-  const url = `${GHL_CONFIG.BASE_URL}/contacts/`;
-  const maxAttempts = GHL_CONFIG.MAX_RETRIES;
-
-  for (const payload of variants) {
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      try {
-        const response = await fetch(url, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            "Content-Type": "application/json",
-            Version: GHL_CONFIG.API_VERSION,
-          },
-          body: JSON.stringify(payload),
-        });
-
-        const bodyText = await response.text();
-
-        if (response.ok) {
-          let result: any;
-          try {
-            result = JSON.parse(bodyText);
-          } catch {
-            throw new Error(`GHL returned non-JSON: ${bodyText.slice(0, 400)}`);
-          }
-
-          const id = result?.contact?.id;
-          if (!id) {
-            throw new Error(`GHL succeeded but missing contact.id: ${bodyText.slice(0, 800)}`);
-          }
-
-          logger.info("GHL contact created successfully", { contactId: id });
-          return id;
-        }
-
-        const status = response.status;
-        const retryable = isRetryableStatus(status, GHL_CONFIG.RETRYABLE_STATUS_CODES);
-
-        if (!retryable) break;
-        if (attempt === maxAttempts) break;
-
-        const waitMs = getRetryDelay(attempt, GHL_CONFIG);
-        await delay(waitMs);
-      } catch (error: any) {
-        if (attempt === maxAttempts) {
-          throw error;
-        }
-        const waitMs = getRetryDelay(attempt, GHL_CONFIG);
-        await delay(waitMs);
-      }
-    }
-  }
-
-  throw new Error("GHL contact creation failed after trying payload variants");
-}
-
-async function updateGHLContact(
-  contactId: string,
-  data: ParsedCV,
-  candidateId: string | undefined,
-  cvFileUrl: string | null | undefined,
-  coverLetterUrl: string | null | undefined,
-  otherDocsUrl: string | null | undefined,
-  accessToken: string
-): Promise<void> {
-  const customFieldsData = buildCompleteGHLCustomFields(
-    data,
-    candidateId,
-    cvFileUrl,
-    coverLetterUrl,
-    otherDocsUrl
-  );
-
-  const customFields = Object.entries(customFieldsData).map(([key, value]) => ({
-    key,
-    value: value || "",
-  }));
-
-  const response = await fetch(`${GHL_CONFIG.BASE_URL}/contacts/${contactId}`, {
-    method: "PUT",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-      Version: GHL_CONFIG.API_VERSION,
-    },
-    body: JSON.stringify({ customFields }),
-  });
-
-  if (!response.ok) {
-    const txt = await response.text();
-    throw new Error(`GHL contact update failed: ${txt.slice(0, 800)}`);
-  }
-}
-
-// ============================================
-// GHL FILE UPLOADS
-// ============================================
-
-function guessUploadMimeType(filename: string): string {
-  const ext = filename.split(".").pop()?.toLowerCase();
-  if (ext === "pdf") return "application/pdf";
-  if (ext === "docx")
-    return "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
-  if (ext === "doc") return "application/msword";
-  if (ext === "txt") return "text/plain";
-  return "application/octet-stream";
-}
-
-function encodeStoragePath(path: string): string {
-  return path.split("/").map(encodeURIComponent).join("/");
-}
-
-/**
- * Upload CV file to GHL and return file URL
- */
-async function uploadCVToGHL(
-  contactId: string,
-  cvFilePath: string,
-  originalFilename: string,
-  accessToken: string
-): Promise<{ success: boolean; fileUrl?: string; error?: string }> {
-  try {
-    const encodedPath = encodeStoragePath(cvFilePath);
-    const downloadUrl = `${ENV.SUPABASE_URL}/storage/v1/object/${SUPABASE_CONFIG.STORAGE_BUCKET}/${encodedPath}`;
-
-    const downloadResponse = await fetch(downloadUrl, {
-      headers: {
-        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
-        apikey: ENV.SUPABASE_SERVICE_KEY,
-      },
-    });
-
-    if (!downloadResponse.ok) {
-      const t = await downloadResponse.text();
-      throw new Error(`Failed to download CV: ${downloadResponse.status} - ${t.slice(0, 300)}`);
-    }
-
-    const fileBuffer = await downloadResponse.arrayBuffer();
-
-    const BlobCtor = (globalThis as any).Blob;
-    const FormDataCtor = (globalThis as any).FormData;
-
-    if (!BlobCtor || !FormDataCtor) {
-      throw new Error("Blob/FormData not available in this runtime");
-    }
-
-    const mimeType = guessUploadMimeType(originalFilename);
-    const blob = new BlobCtor([fileBuffer], { type: mimeType });
-    const formData = new FormDataCtor();
-    formData.append("file", blob, originalFilename);
-    formData.append("name", originalFilename);
-
-    // FIXED: Correct endpoint for media upload
-    const uploadResponse = await fetch(`${GHL_CONFIG.BASE_URL}/medias/upload-file`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        Version: GHL_CONFIG.API_VERSION,
-      },
-      body: formData as any,
-    });
-
-    if (!uploadResponse.ok) {
-      const errorText = await uploadResponse.text();
-      throw new Error(
-        `GHL CV upload failed: ${uploadResponse.status} - ${errorText.slice(0, 800)}`
-      );
-    }
-
-    const uploadResult = await uploadResponse.json();
-    const fileUrl = uploadResult?.url || uploadResult?.fileUrl || uploadResult?.publicUrl || null;
-
-    return {
-      success: true,
-      fileUrl,
-    };
-  } catch (error: any) {
-    logger.error("Failed to upload CV to GHL", {
-      contactId,
-      error: error?.message ?? String(error),
-    });
-
-    return {
-      success: false,
-      error: error?.message ?? String(error),
-    };
-  }
-}
-
-/**
- * Upload cover letter to GHL
- * Tries multiple folder patterns: cover_letters/, cover_letter/, coverletter/
- */
-async function uploadCoverLetterToGHL(
-  contactId: string,
-  cvFilePath: string,
-  accessToken: string
-): Promise<string | null> {
-  try {
-    const pathParts = cvFilePath.split("/");
-    const fileName = pathParts[pathParts.length - 1];
-    const baseName = fileName.replace(/\.(pdf|docx?|txt)$/i, "");
-    const clientId = pathParts[0];
-    const batchId = pathParts[1];
-
-    const possiblePaths = [
-      `${clientId}/${batchId}/cover_letters/${baseName}_cover_letter.pdf`,
-      `${clientId}/${batchId}/cover_letters/${baseName}.pdf`,
-      `${clientId}/${batchId}/cover_letters/cover_letter.pdf`,
-      `${clientId}/${batchId}/cover_letter/${baseName}_cover_letter.pdf`,
-      `${clientId}/${batchId}/coverletter/${baseName}_cover_letter.pdf`,
-    ];
-
-    for (const clPath of possiblePaths) {
-      const encodedPath = encodeStoragePath(clPath);
-      const downloadUrl = `${ENV.SUPABASE_URL}/storage/v1/object/${SUPABASE_CONFIG.STORAGE_BUCKET}/${encodedPath}`;
-
-      const downloadResponse = await fetch(downloadUrl, {
-        headers: {
-          Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
-          apikey: ENV.SUPABASE_SERVICE_KEY,
-        },
-      });
-
-      if (downloadResponse.ok) {
-        const clData = await downloadResponse.arrayBuffer();
-
-        const BlobCtor = (globalThis as any).Blob;
-        const FormDataCtor = (globalThis as any).FormData;
-
-        const blob = new BlobCtor([clData], { type: "application/pdf" });
-        const formData = new FormDataCtor();
-        formData.append("file", blob, "cover_letter.pdf");
-        formData.append("name", "cover_letter.pdf");
-
-        const uploadResponse = await fetch(`${GHL_CONFIG.BASE_URL}/medias/upload-file`, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            Version: GHL_CONFIG.API_VERSION,
-          },
-          body: formData as any,
-        });
-
-        if (uploadResponse.ok) {
-          const uploadResult = await uploadResponse.json();
-          const fileUrl = uploadResult?.url || uploadResult?.fileUrl || uploadResult?.publicUrl || null;
-
-          logger.info("✅ Cover letter uploaded", {
-            contactId,
-            fileUrl,
-          });
-
-          return fileUrl;
-        }
-      }
-    }
-
-    return null;
-  } catch (error: any) {
-    logger.warn("⚠️ Failed to upload cover letter", {
-      contactId,
-      error: error?.message ?? String(error),
-    });
-    return null;
-  }
-}
-
-/**
- * Upload other documents to GHL
- * Tries multiple folder patterns: other_docs/, other_documents/, application/
- */
-async function uploadOtherDocsToGHL(
-  contactId: string,
-  cvFilePath: string,
-  accessToken: string
-): Promise<string | null> {
-  try {
-    const pathParts = cvFilePath.split("/");
-    const fileName = pathParts[pathParts.length - 1];
-    const baseName = fileName.replace(/\.(pdf|docx?|txt)$/i, "");
-    const clientId = pathParts[0];
-    const batchId = pathParts[1];
-
-    const possiblePaths = [
-      `${clientId}/${batchId}/other_docs/${baseName}_application.pdf`,
-      `${clientId}/${batchId}/other_docs/${baseName}.pdf`,
-      `${clientId}/${batchId}/other_docs/application.pdf`,
-      `${clientId}/${batchId}/other_documents/${baseName}_application.pdf`,
-      `${clientId}/${batchId}/application/${baseName}_application.pdf`,
-    ];
-
-    for (const docPath of possiblePaths) {
-      const encodedPath = encodeStoragePath(docPath);
-      const downloadUrl = `${ENV.SUPABASE_URL}/storage/v1/object/${SUPABASE_CONFIG.STORAGE_BUCKET}/${encodedPath}`;
-
-      const downloadResponse = await fetch(downloadUrl, {
-        headers: {
-          Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
-          apikey: ENV.SUPABASE_SERVICE_KEY,
-        },
-      });
-
-      if (downloadResponse.ok) {
-        const docData = await downloadResponse.arrayBuffer();
-
-        const BlobCtor = (globalThis as any).Blob;
-        const FormDataCtor = (globalThis as any).FormData;
-
-        const blob = new BlobCtor([docData], { type: "application/pdf" });
-        const formData = new FormDataCtor();
-        formData.append("file", blob, "application.pdf");
-        formData.append("name", "application.pdf");
-
-        const uploadResponse = await fetch(`${GHL_CONFIG.BASE_URL}/medias/upload-file`, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            Version: GHL_CONFIG.API_VERSION,
-          },
-          body: formData as any,
-        });
-
-        if (uploadResponse.ok) {
-          const uploadResult = await uploadResponse.json();
-          const fileUrl = uploadResult?.url || uploadResult?.fileUrl || uploadResult?.publicUrl || null;
-
-          logger.info("✅ Other documents uploaded", {
-            contactId,
-            fileUrl,
-          });
-
-          return fileUrl;
-        }
-      }
-    }
-
-    return null;
-  } catch (error: any) {
-    logger.warn("⚠️ Failed to upload other documents", {
-      contactId,
-      error: error?.message ?? String(error),
-    });
-    return null;
-  }
-}
-
-// ============================================
-// DATABASE OPERATIONS
-// ============================================
-
-async function writeCandidate(candidateData: any): Promise<string> {
-  const maxAttempts = SUPABASE_CONFIG.MAX_RETRIES;
-
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    try {
-      const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/candidates`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
-          apikey: ENV.SUPABASE_SERVICE_KEY,
-          "Content-Type": "application/json",
-          Prefer: "return=representation",
-        },
-        body: JSON.stringify(candidateData),
-      });
-
-      if (response.ok) {
-        const result = await response.json();
-        const id = result?.[0]?.id;
-        if (!id) throw new Error("Candidate insert succeeded but no id returned");
-        return id;
-      }
-
-      const errorText = await response.text();
-
-      if (attempt === maxAttempts) {
-        throw new Error(`Failed to write candidate: ${errorText.slice(0, 800)}`);
-      }
-
-      logger.warn("Retrying candidate insert", { attempt });
-      await delay(getRetryDelay(attempt, SUPABASE_CONFIG));
-    } catch (error: any) {
-      if (attempt === maxAttempts) {
-        throw error;
-      }
-      logger.warn("Candidate insert exception", {
-        attempt,
-        error: error.message,
-      });
-      await delay(getRetryDelay(attempt, SUPABASE_CONFIG));
-    }
-  }
-
-  throw new Error("Failed to write candidate after retries");
-}
-
-async function updateCandidateGHL(
-  candidateId: string,
-  ghlContactId: string | null,
-  status: string
-): Promise<void> {
-  const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/candidates?id=eq.${candidateId}`, {
-    method: "PATCH",
-    headers: {
-      Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
-      apikey: ENV.SUPABASE_SERVICE_KEY,
-      "Content-Type": "application/json",
-      Prefer: "return=minimal",
-    },
-    body: JSON.stringify({
-      ghl_contact_id: ghlContactId,
-      status: status,
-    }),
-  });
-
-  if (!response.ok) {
-    const t = await response.text();
-    throw new Error(`Failed to update candidate GHL/status: ${t.slice(0, 800)}`);
-  }
-}
-
-async function updateBatchStatus(
-  batchId: string,
-  status: string,
-  processedCount?: number
-): Promise<void> {
-  const updateData: any = { status };
-  if (processedCount !== undefined) updateData.processed_count = processedCount;
-  if (status === "complete" || status === "awaiting_input" || status === "failed")
-    updateData.completed_at = new Date().toISOString();
-
-  const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/processing_batches?id=eq.${batchId}`, {
-    method: "PATCH",
-    headers: {
-      Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
-      apikey: ENV.SUPABASE_SERVICE_KEY,
-      "Content-Type": "application/json",
-      Prefer: "return=minimal",
-    },
-    body: JSON.stringify(updateData),
-  });
-
-  if (!response.ok) {
-    const t = await response.text();
-    throw new Error(`Failed to update batch status: ${response.status} ${t.slice(0, 800)}`);
-  }
-}
-
-async function updateBatchProgress(
-  batchId: string,
-  processed: number,
-  _total: number
-): Promise<void> {
-  const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/processing_batches?id=eq.${batchId}`, {
-    method: "PATCH",
-    headers: {
-      Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
-      apikey: ENV.SUPABASE_SERVICE_KEY,
-      "Content-Type": "application/json",
-      Prefer: "return=minimal",
-    },
-    body: JSON.stringify({ processed_count: processed }),
-  });
-
-  if (!response.ok) {
-    const t = await response.text();
-    throw new Error(`Failed to update batch progress: ${response.status} ${t.slice(0, 800)}`);
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`Failed to update batch progress: ${response.status} ${t.slice(0, 800)}`);
   }
 }
 
@@ -1662,6 +1164,9 @@ async function addSingleToHoldQueue(
     extracted_name: string | null;
     raw_text: string;
     extracted_data?: any;
+    duplicate_candidates?: DuplicateCandidateMatch[]; // Scored fuzzy matches for the reviewer
+    source_file?: SourceFile;
+    supporting_documents?: BundleDocument[];
   }
 ): Promise<string> {
   const record = {
@@ -1672,6 +1177,9 @@ async function addSingleToHoldQueue(
     cv_raw_text: item.raw_text,
     status: "pending",
     extraction_data: item.extracted_data || null,
+    duplicate_candidates: item.duplicate_candidates || [],
+    source_files: item.source_file ? [item.source_file] : [],
+    supporting_documents: item.supporting_documents || [],
     file_name: item.file_name,
   };
 
@@ -1703,6 +1211,40 @@ async function addSingleToHoldQueue(
   return insertedId;
 }
 
+/**
+ * Record a file as another copy of a candidate already handled in this batch
+ */
+async function attachInBatchDuplicate(
+  batchId: string,
+  cluster: BatchCluster,
+  file: SourceFile,
+  matchedOn: "content_hash" | "identity",
+  correlationId: string
+): Promise<void> {
+  await attachFileToCluster(cluster, file);
+
+  logger.info("🧬 In-batch duplicate - attached to existing cluster", {
+    correlationId,
+    fileName: file.name,
+    matchedOn,
+    primaryFile: cluster.primaryFile,
+    candidateId: cluster.candidateId,
+    holdQueueId: cluster.holdQueueId,
+  });
+
+  await updateFileStatus(
+    batchId,
+    file.path,
+    file.name,
+    "complete",
+    undefined,
+    cluster.candidateId || undefined,
+    matchedOn === "content_hash"
+      ? `Identical to ${cluster.primaryFile.split("/").pop()} - attached as source file`
+      : `Same candidate as ${cluster.primaryFile.split("/").pop()} - attached as source file`
+  );
+}
+
 async function recordRejection(
   batchId: string,
   fileName: string,
@@ -1728,6 +1270,7 @@ async function recordRejection(
         classification_data: {
           reasoning: classification.reasoning,
           key_indicators: classification.key_indicators,
+          model: classification.model || null,
         },
       }),
     });
@@ -1765,6 +1308,11 @@ async function updateFileStatus(
     last_updated: new Date().toISOString(),
   };
 
+  const segment = parseSegmentStatusPath(filePath);
+  if (segment) {
+    record.segment_index = segment.index;
+    record.parent_file_path = segment.filePath;
+  }
   if (errorMessage) record.error_message = errorMessage;
   if (candidateId) record.candidate_id = candidateId;
   if (notes) record.notes = notes;
@@ -1794,6 +1342,45 @@ async function updateFileStatus(
   }
 }
 
+/**
+ * Mark a merged document as split - its CVs are tracked as "<path>#segment-N"
+ */
+async function recordFileSplit(
+  batchId: string,
+  filePath: string,
+  fileName: string,
+  segmentCount: number
+): Promise<void> {
+  const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/file_processing_status`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+      apikey: ENV.SUPABASE_SERVICE_KEY,
+      "Content-Type": "application/json",
+      Prefer: "resolution=merge-duplicates",
+    },
+    body: JSON.stringify({
+      batch_id: batchId,
+      file_path: filePath,
+      file_name: fileName,
+      status: "complete",
+      segment_count: segmentCount,
+      notes: `Split into ${segmentCount} CVs`,
+      processed_at: new Date().toISOString(),
+      last_updated: new Date().toISOString(),
+    }),
+  });
+
+  if (!response.ok) {
+    const txt = await response.text();
+    logger.warn("Failed to record file split", {
+      status: response.status,
+      error: txt.slice(0, 500),
+      filePath,
+    });
+  }
+}
+
 async function getFileProcessingStatuses(
   batchId: string
 ): Promise<FileProcessingStatus[]> {
@@ -1837,6 +1424,27 @@ async function getBatchStatus(batchId: string): Promise<string | null> {
   return data[0]?.status || null;
 }
 
+async function getBatchDetails(
+  batchId: string
+): Promise<{ job_id: string | null; colleague: string | null } | null> {
+  const response = await fetch(
+    `${ENV.SUPABASE_URL}/rest/v1/processing_batches?id=eq.${batchId}&select=job_id,colleague&limit=1`,
+    {
+      headers: {
+        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+        apikey: ENV.SUPABASE_SERVICE_KEY,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    return null;
+  }
+
+  const data = await response.json();
+  return data[0] || null;
+}
+
 async function isBatchTimedOut(batchId: string): Promise<boolean> {
   const response = await fetch(
     `${ENV.SUPABASE_URL}/rest/v1/processing_batches?id=eq.${batchId}&select=created_at,file_count&limit=1`,
@@ -1895,58 +1503,46 @@ async function markBatchForRecovery(batchId: string): Promise<void> {
 // STORAGE OPERATIONS
 // ============================================
 
-async function listBatchFiles(
-  batchId: string,
-  clientId: string
-): Promise<Array<{ name: string; path: string }>> {
-  const prefix = `${clientId}/${batchId}/`;
-  const encodedPrefix = encodeURIComponent(prefix);
+async function downloadFile(filePath: string): Promise<ArrayBuffer> {
+  const encodedPath = encodeStoragePath(filePath);
+  const downloadUrl = `${ENV.SUPABASE_URL}/storage/v1/object/${SUPABASE_CONFIG.STORAGE_BUCKET}/${encodedPath}`;
 
-  const response = await fetch(
-    `${ENV.SUPABASE_URL}/storage/v1/object/list/${SUPABASE_CONFIG.STORAGE_BUCKET}?prefix=${encodedPrefix}`,
-    {
-      headers: {
-        Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
-        apikey: ENV.SUPABASE_SERVICE_KEY,
-      },
-    }
-  );
+  const response = await fetch(downloadUrl, {
+    headers: {
+      Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+      apikey: ENV.SUPABASE_SERVICE_KEY,
+    },
+  });
 
   if (!response.ok) {
-    throw new Error(`Failed to list batch files: ${response.status}`);
+    throw new Error(`Failed to download file: ${response.status}`);
   }
 
-  const files = await response.json();
-
-  // Filter out directories and only include CV files (not in subfolders)
-  return files
-    .filter((f: any) => {
-      const relativePath = f.name.replace(prefix, "");
-      const isInSubfolder = relativePath.includes("/");
-      return !isInSubfolder && VALIDATION_RULES.ALLOWED_EXTENSIONS.some(ext => f.name.toLowerCase().endsWith(ext));
-    })
-    .map((f: any) => ({
-      name: f.name.split("/").pop(),
-      path: f.name,
-    }));
+  return await response.arrayBuffer();
 }
 
-async function downloadFile(filePath: string): Promise<ArrayBuffer> {
+/**
+ * Store one CV cut out of a merged document (overwrites on a recovery run)
+ */
+async function uploadSegmentFile(filePath: string, text: string): Promise<void> {
   const encodedPath = encodeStoragePath(filePath);
-  const downloadUrl = `${ENV.SUPABASE_URL}/storage/v1/object/${SUPABASE_CONFIG.STORAGE_BUCKET}/${encodedPath}`;
+  const uploadUrl = `${ENV.SUPABASE_URL}/storage/v1/object/${SUPABASE_CONFIG.STORAGE_BUCKET}/${encodedPath}`;
 
-  const response = await fetch(downloadUrl, {
+  const response = await fetch(uploadUrl, {
+    method: "POST",
     headers: {
       Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
       apikey: ENV.SUPABASE_SERVICE_KEY,
+      "Content-Type": "text/plain; charset=utf-8",
+      "x-upsert": "true",
     },
+    body: text,
   });
 
   if (!response.ok) {
-    throw new Error(`Failed to download file: ${response.status}`);
+    const t = await response.text();
+    throw new Error(`Failed to store split CV: ${response.status} ${t.slice(0, 300)}`);
   }
-
-  return await response.arrayBuffer();
 }
 
 async function getFileSize(filePath: string): Promise<number> {
@@ -1,74 +1,58 @@
 // ============================================
-// PROCESS HOLD QUEUE ITEM - PRODUCTION VERSION
+// PROCESS HOLD QUEUE ITEM
 // ============================================
-// Handles manual review submissions with:
-// - Cost tracking
-// - Complete GHL field sync with file uploads
-// - Comprehensive error handling
-// - Duplicate resolution
-// - Retry logic
+// Handles manual review submissions:
+// - Full parse of the held CV, with manual contact info on top
+// - Duplicate resolution (create new / update existing, field-level merge)
+// - GHL sync through the shared candidatePipeline (contact, custom fields,
+//   CV and supporting documents)
+// - Failed GHL syncs go back to the reviewer for a retry
+// - Shortlist + opportunity for the batch's job, when it has one
 
 import { task, logger } from "@trigger.dev/sdk";
+import { ENV, HoldQueueStatus } from "./config";
+import { createJobShortlist } from "./jobShortlist";
+import { trackFullParse } from "./costTracker";
+import { getLLMProvider } from "./llmProvider";
+import { ChunkingReport } from "./chunkedParse";
+import { ParseValidationReport, ParsedCV, getEmptyParsedCV } from "./parsedCVSchema";
+import type { SourceFile } from "./batchClusters";
+import type { BundleDocument } from "./documentBundles";
 import {
-  ENV,
-  PROCESSING_CONFIG,
-  SUPABASE_CONFIG,
-  GEMINI_CONFIG,
-  GHL_CONFIG,
-  getRetryDelay,
-  isRetryableStatus,
-  isValidEmail,
-  normalizePhone,
-} from "./config";
-import {
-  trackFullParse,
-  trackGHLCall,
-  logBatchCostSummary,
-} from "./costTracker";
-import { buildCompleteGHLCustomFields, splitName } from "./ghlTransformers";
+  CandidateRecord,
+  fetchCandidateById,
+  findCandidateByGHLContactId,
+  findExistingCandidate,
+  fullParse,
+  syncCandidateToGHL,
+  updateCandidate,
+  updateCandidateGHL,
+  writeCandidate,
+} from "./candidatePipeline";
+import { mergeCandidateData, snapshotCandidate, writeCandidateVersion } from "./candidateMerge";
 
 // ============================================
 // TYPES
 // ============================================
 
-interface ParsedCV {
-  full_name: string | null;
-  email: string | null;
-  phone: string | null;
-  address: string | null;
-  linkedin_url: string | null;
-  date_of_birth: string | null;
-  nationality: string | null;
-  visa_work_permit: string | null;
-  professional_summary: string | null;
-  future_job_aspirations: string | null;
-  work_history: any[];
-  education: any[];
-  skills: string[];
-  certifications: any[];
-  driving_licence: string | null;
-  languages: any[];
-  training_courses: any[];
-  professional_memberships: any[];
-  awards_honours: any[];
-  volunteering: any[];
-  interests_hobbies: any[];
-  candidate_references: any[];
-  military_service: string | null;
-  salary_expectation: string | null;
-  notice_period: string | null;
-  availability_start_date: string | null;
-  relocation_willingness: string | null;
-  remote_work_preference: string | null;
-  cv_summary: string | null;
-}
-
-// ============================================
-// HELPER
-// ============================================
-
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+// A hold_queue row (select=*) as the reviewer UI leaves it
+interface HoldQueueItem {
+  id: string;
+  status: HoldQueueStatus;
+  batch_id: string;
+  client_id: string | null;
+  file_name: string | null;
+  cv_file_path: string | null;
+  cv_raw_text: string | null;
+  extracted_name: string | null;
+  extraction_data: Record<string, any> | null; // reason, ghl_duplicate_contact_id...
+  manual_contact_info: Partial<Pick<ParsedCV, "full_name" | "email" | "phone">> | null;
+  duplicate_candidate_id: string | null; // Candidate id - or a GHL contact id for GHL duplicates
+  ghl_duplicate_contact_id: string | null;
+  existing_candidate_id: string | null; // Written by an earlier attempt
+  ignore_duplicate: boolean | null;
+  source_files: SourceFile[] | null;
+  supporting_documents: BundleDocument[] | null;
 }
 
 // ============================================
@@ -81,6 +65,7 @@ export const processHoldQueueItem = task({
   run: async (payload: { holdQueueId: string }) => {
     const { holdQueueId } = payload;
     const correlationId = `hold_${holdQueueId}`;
+    const llm = getLLMProvider();
 
     logger.info("🔄 Processing hold_queue item", { correlationId, holdQueueId });
 
@@ -93,7 +78,7 @@ export const processHoldQueueItem = task({
         return { success: false, error: "Item not found" };
       }
 
-      if (holdItem.status !== "ready_for_processing") {
+      if (holdItem.status !== "ready_for_processing" && holdItem.status !== "update_existing") {
         logger.warn("Hold queue item not ready", {
           correlationId,
           holdQueueId,
@@ -107,16 +92,26 @@ export const processHoldQueueItem = task({
         holdQueueId,
         fileName: holdItem.file_name,
         reason: holdItem.extraction_data?.reason,
+        decision: holdItem.status,
       });
 
       // 2) Parse CV data
       let parsedData: ParsedCV;
+      let parseModel: string | null = null;
+      let parseValidation: ParseValidationReport | null = null;
+      let parseChunking: ChunkingReport | null = null;
 
       if (holdItem.cv_raw_text && holdItem.cv_raw_text.trim().length > 50) {
         logger.info("Running full parse on raw text", { correlationId });
-        parsedData = await fullParse(holdItem.cv_raw_text);
+        const { data, calls, validation, chunking } = await fullParse(llm, holdItem.cv_raw_text);
+        parsedData = data;
+        parseModel = calls[0].model;
+        parseValidation = validation;
+        parseChunking = chunking;
         parsedData.cv_raw_text = holdItem.cv_raw_text;
-        await trackFullParse(holdItem.batch_id);
+        for (const call of calls) {
+          await trackFullParse(holdItem.batch_id, call);
+        }
       } else {
         logger.warn("No raw text available, using empty CV", { correlationId });
         parsedData = getEmptyParsedCV();
@@ -137,29 +132,43 @@ export const processHoldQueueItem = task({
       });
 
       // 4) Determine if updating existing candidate
-      let shouldUpdate = false;
-      let existingCandidateId = null;
+      // Reviewer's GHL choice is a top-level column; batch-detected duplicates sit in extraction_data
+      let ghlContactIdToUpdate: string | null =
+        holdItem.ghl_duplicate_contact_id || holdItem.extraction_data?.ghl_duplicate_contact_id || null;
+      let existingCandidate: CandidateRecord | null = null;
+
+      // Set when an earlier attempt wrote the candidate but GHL sync failed
+      const previousCandidateId: string | null = holdItem.existing_candidate_id || null;
+
+      if (holdItem.status === "update_existing") {
+        // Reviewer clicked "Update existing" - merge into that candidate and GHL contact
+        existingCandidate = await findUpdateTarget(holdItem, ghlContactIdToUpdate, parsedData);
+        if (!existingCandidate && previousCandidateId) {
+          existingCandidate = await fetchCandidateById(previousCandidateId);
+        }
 
-      if (holdItem.duplicate_candidate_id) {
-        shouldUpdate = true;
-        existingCandidateId = holdItem.duplicate_candidate_id;
-        logger.info("Marked to update existing candidate", {
-          correlationId,
-          existingCandidateId,
-        });
+        if (existingCandidate) {
+          ghlContactIdToUpdate = ghlContactIdToUpdate || existingCandidate.ghl_contact_id || null;
+        } else {
+          logger.warn("⚠️ Update target not in Supabase - creating candidate", {
+            correlationId,
+            duplicateCandidateId: holdItem.duplicate_candidate_id,
+            ghlContactId: ghlContactIdToUpdate,
+          });
+        }
+      } else if (previousCandidateId) {
+        existingCandidate = await fetchCandidateById(previousCandidateId);
+      } else if (holdItem.duplicate_candidate_id) {
+        existingCandidate = await fetchCandidateById(holdItem.duplicate_candidate_id);
       } else if (!holdItem.ignore_duplicate) {
         const duplicate = await findExistingCandidate(parsedData.email, parsedData.phone);
         if (duplicate) {
-          shouldUpdate = true;
-          existingCandidateId = duplicate.id;
-          logger.info("Found existing candidate", { correlationId, existingCandidateId });
+          existingCandidate = await fetchCandidateById(duplicate.id);
         }
       }
 
       // 5) Check for GHL duplicate
-      let ghlContactIdToUpdate = null;
-      if (holdItem.extraction_data?.ghl_duplicate_contact_id) {
-        ghlContactIdToUpdate = holdItem.extraction_data.ghl_duplicate_contact_id;
+      if (ghlContactIdToUpdate) {
         logger.info("GHL duplicate detected - will update existing contact", {
           correlationId,
           ghlContactId: ghlContactIdToUpdate,
@@ -168,27 +177,60 @@ export const processHoldQueueItem = task({
 
       // 6) Write/update candidate in Supabase
       let candidateId: string;
+      let candidateData: ParsedCV = parsedData;
 
-      if (shouldUpdate && existingCandidateId) {
-        await updateCandidate(existingCandidateId, {
-          ...parsedData,
+      if (existingCandidate) {
+        // Field-level merge - a thin CV must not wipe out a rich profile
+        const merge = mergeCandidateData(existingCandidate, parsedData);
+        candidateData = merge.data;
+        candidateId = existingCandidate.id;
+
+        logger.info("Merging CV into existing candidate", {
+          correlationId,
+          candidateId,
+          changedFields: merge.changes.map((c) => c.field),
+        });
+
+        const updateData = {
+          ...candidateData,
           cv_file_path: holdItem.cv_file_path,
           batch_id: holdItem.batch_id,
+          ...(parseModel
+            ? { parse_model: parseModel, parse_validation: parseValidation, parse_chunking: parseChunking }
+            : {}),
+        };
+
+        // Snapshot first so nothing is lost if the update goes wrong. Columns the
+        // update leaves alone keep their current value in the new snapshot.
+        await writeCandidateVersion({
+          candidateId,
+          source: "hold_queue_update",
+          previousData: snapshotCandidate(existingCandidate),
+          newData: snapshotCandidate({ ...existingCandidate, ...updateData }),
+          changes: merge.changes,
+          holdQueueId,
+        });
+
+        await updateCandidate(candidateId, {
+          ...updateData,
           status: "pending_ghl_sync",
           is_update: true,
         });
-        candidateId = existingCandidateId;
         logger.info("✅ Updated existing candidate in Supabase", {
           correlationId,
           candidateId,
         });
       } else {
         candidateId = await writeCandidate({
-          ...parsedData,
+          ...candidateData,
           client_id: holdItem.client_id || null,
           ghl_contact_id: null,
           cv_file_path: holdItem.cv_file_path,
           batch_id: holdItem.batch_id,
+          parse_model: parseModel,
+          parse_validation: parseValidation,
+          parse_chunking: parseChunking,
+          source_files: holdItem.source_files || [],
           status: "pending_ghl_sync",
         });
         logger.info("✅ Created new candidate in Supabase", {
@@ -198,135 +240,29 @@ export const processHoldQueueItem = task({
       }
 
       // 7) Sync to GHL
-      const ghlAccessToken = ENV.GHL_PRIVATE_KEY;
       let ghlContactId = null;
 
       try {
-        // If we already have a GHL contact ID from duplicate detection, use it
-        if (ghlContactIdToUpdate) {
-          ghlContactId = ghlContactIdToUpdate;
-        } else {
-          // Otherwise, search for existing contact
-          const existingContactId = await findExistingGHLContact(
-            parsedData.email,
-            parsedData.phone,
-            ghlAccessToken
-          );
-          await trackGHLCall("search_contact", holdItem.batch_id);
-
-          if (existingContactId) {
-            ghlContactId = existingContactId;
-            logger.info("Found existing GHL contact", {
-              correlationId,
-              ghlContactId,
-            });
-          } else {
-            ghlContactId = await createGHLContact(parsedData, ghlAccessToken);
-            await trackGHLCall("create_contact", holdItem.batch_id);
-            logger.info("✅ Created new GHL contact", {
-              correlationId,
-              ghlContactId,
-            });
-          }
-        }
-
-        // Upload CV file to GHL
-        let cvFileUrl: string | null = null;
-        if (ghlContactId && holdItem.cv_file_path) {
-          const cvUploadResult = await uploadCVToGHL(
-            ghlContactId,
-            holdItem.cv_file_path,
-            holdItem.file_name || "cv.pdf",
-            ghlAccessToken
-          );
-          await trackGHLCall("upload_file", holdItem.batch_id);
-
-          cvFileUrl = cvUploadResult.fileUrl || null;
-
-          if (!cvUploadResult.success) {
-            logger.warn("⚠️ CV file upload failed", {
-              correlationId,
-              ghlContactId,
-              error: cvUploadResult.error,
-            });
-          } else {
-            logger.info("✅ CV file uploaded to GHL", {
-              correlationId,
-              ghlContactId,
-              fileUrl: cvFileUrl,
-            });
-          }
-        }
-
-        // Upload cover letter (if exists)
-        let coverLetterUrl: string | null = null;
-        if (ghlContactId && holdItem.cv_file_path) {
-          try {
-            coverLetterUrl = await uploadCoverLetterToGHL(
-              ghlContactId,
-              holdItem.cv_file_path,
-              ghlAccessToken
-            );
-            if (coverLetterUrl) {
-              await trackGHLCall("upload_file", holdItem.batch_id);
-              logger.info("✅ Cover letter uploaded", {
-                correlationId,
-                ghlContactId,
-                fileUrl: coverLetterUrl,
-              });
-            }
-          } catch (clError: any) {
-            logger.warn("⚠️ Cover letter upload failed", {
-              correlationId,
-              error: clError.message,
-            });
-          }
-        }
-
-        // Upload other documents (if exists)
-        let otherDocsUrl: string | null = null;
-        if (ghlContactId && holdItem.cv_file_path) {
-          try {
-            otherDocsUrl = await uploadOtherDocsToGHL(
-              ghlContactId,
-              holdItem.cv_file_path,
-              ghlAccessToken
-            );
-            if (otherDocsUrl) {
-              await trackGHLCall("upload_file", holdItem.batch_id);
-              logger.info("✅ Other documents uploaded", {
-                correlationId,
-                ghlContactId,
-                fileUrl: otherDocsUrl,
-              });
-            }
-          } catch (odError: any) {
-            logger.warn("⚠️ Other documents upload failed", {
-              correlationId,
-              error: odError.message,
-            });
-          }
-        }
-
-        // Update GHL contact with all fields + file URLs
-        await updateGHLContact(
-          ghlContactId,
-          parsedData,
+        // If we already have a GHL contact ID from duplicate detection, it's updated in place
+        const ghlSync = await syncCandidateToGHL({
           candidateId,
-          cvFileUrl,
-          coverLetterUrl,
-          otherDocsUrl,
-          ghlAccessToken
-        );
-        await trackGHLCall("update_contact", holdItem.batch_id);
-
-        logger.info("✅ GHL contact updated with full data", {
+          data: candidateData,
+          cvFilePath: holdItem.cv_file_path || null,
+          fileName: holdItem.file_name || "cv.pdf",
+          batchId: holdItem.batch_id,
+          clientId: holdItem.client_id,
           correlationId,
-          ghlContactId,
-          cvUploaded: !!cvFileUrl,
-          coverLetterUploaded: !!coverLetterUrl,
-          otherDocsUploaded: !!otherDocsUrl,
+          existingContactId: ghlContactIdToUpdate,
+          // "Create new" means a new GHL contact too - searching again would hit the same duplicates
+          createNewContact: !!holdItem.ignore_duplicate && !ghlContactIdToUpdate,
+          supportingDocuments: holdItem.supporting_documents || [],
+          importActivity: {
+            classification: null,
+            parseValidation,
+            parseChunking,
+          },
         });
+        ghlContactId = ghlSync.ghlContactId;
 
         await updateCandidateGHL(candidateId, ghlContactId, "complete");
         logger.info("✅ GHL sync successful", {
@@ -343,11 +279,59 @@ export const processHoldQueueItem = task({
         });
 
         await updateCandidateGHL(candidateId, null, "ghl_sync_failed");
+
+        // Back to the reviewer, pointing at the candidate already written. Several
+        // GHL contacts matching means the reviewer picks one (or creates a new one)
+        await updateHoldQueueStatus(
+          holdQueueId,
+          "pending",
+          candidateId,
+          ghlError.message,
+          ghlError.ghlMatches
+            ? {
+                ...holdItem.extraction_data,
+                reason: "ghl_ambiguous_match",
+                ghl_candidate_contacts: ghlError.ghlMatches,
+              }
+            : undefined
+        );
+
+        return {
+          success: false,
+          candidateId,
+          error: `GHL sync failed: ${ghlError.message}`,
+        };
       }
 
       // 8) Mark hold queue item as complete
       await updateHoldQueueStatus(holdQueueId, "complete", candidateId);
 
+      // 9) Join the shortlist for the batch's job (non-critical)
+      const batch = holdItem.batch_id ? await fetchBatchJob(holdItem.batch_id) : null;
+      if (batch?.job_id) {
+        try {
+          const shortlist = await createJobShortlist({
+            jobRef: batch.job_id,
+            batchId: holdItem.batch_id,
+            colleague: batch.colleague,
+            candidateIds: [candidateId],
+            ghlAccessToken: ENV.GHL_PRIVATE_KEY,
+          });
+          logger.info("📋 Hold queue candidate scored for job", {
+            correlationId,
+            jobRef: batch.job_id,
+            shortlisted: shortlist.shortlisted > 0,
+            skippedReason: shortlist.skipped_reason,
+          });
+        } catch (shortlistError: any) {
+          logger.error("❌ Job shortlist failed", {
+            correlationId,
+            jobRef: batch.job_id,
+            error: shortlistError.message,
+          });
+        }
+      }
+
       logger.info("✅ Hold queue item processing complete", {
         correlationId,
         holdQueueId,
@@ -377,621 +361,33 @@ export const processHoldQueueItem = task({
 });
 
 // ============================================
-// GEMINI API - FULL PARSE
+// DATABASE OPERATIONS
 // ============================================
 
-function stripJsonFences(s: string): string {
-  let t = (s || "").trim();
-  if (t.startsWith("```")) {
-    t = t.replace(/^```[a-zA-Z]*\n?/, "").replace(/```$/, "").trim();
-  }
-  return t;
-}
-
-async function fullParse(rawText: string): Promise<ParsedCV> {
-  const sampleText = rawText.substring(0, PROCESSING_CONFIG.MAX_TEXT_LENGTH_FOR_PARSE);
-
-  const prompt = `Extract ALL structured data from this CV/resume. Return ONLY valid JSON in this exact format:
-
-{
-  "full_name": "string or null",
-  "email": "string or null",
-  "phone": "string or null",
-  "address": "string or null",
-  "linkedin_url": "string or null",
-  "date_of_birth": "YYYY-MM-DD or null",
-  "nationality": "string or null",
-  "visa_work_permit": "string or null",
-  "professional_summary": "string or null",
-  "future_job_aspirations": "string or null",
-  "work_history": [
-    {
-      "job_title": "string",
-      "company_name": "string",
-      "company_location": "string or null",
-      "start_date": "string",
-      "end_date": "string or Present",
-      "employment_type": "string or null",
-      "duties_responsibilities": "string or null",
-      "achievements": "string or null",
-      "reason_for_leaving": "string or null"
-    }
-  ],
-  "education": [
-    {
-      "qualification_name": "string",
-      "institution_name": "string",
-      "start_date": "string or null",
-      "end_date": "string or null",
-      "grade_classification": "string or null",
-      "honours_awards": "string or null",
-      "dissertation_thesis": "string or null",
-      "extracurricular": "string or null"
-    }
-  ],
-  "skills": ["string"],
-  "certifications": [
-    {
-      "name": "string",
-      "issuing_organisation": "string or null",
-      "date_obtained": "string or null",
-      "expiry_date": "string or null",
-      "certification_id": "string or null"
-    }
-  ],
-  "driving_licence": "string or null",
-  "languages": [
+async function fetchHoldQueueItem(holdQueueId: string): Promise<HoldQueueItem | null> {
+  const response = await fetch(
+    `${ENV.SUPABASE_URL}/rest/v1/hold_queue?id=eq.${holdQueueId}&select=*&limit=1`,
     {
-      "language": "string",
-      "proficiency": "string or null",
-      "reading": "string or null",
-      "writing": "string or null",
-      "speaking": "string or null",
-      "certifications": "string or null"
-    }
-  ],
-  "training_courses": ["string"],
-  "professional_memberships": ["string"],
-  "awards_honours": ["string"],
-  "volunteering": ["string"],
-  "interests_hobbies": ["string"],
-  "candidate_references": ["string"],
-  "military_service": "string or null",
-  "salary_expectation": "string or null",
-  "notice_period": "string or null",
-  "availability_start_date": "YYYY-MM-DD or null",
-  "relocation_willingness": "string or null",
-  "remote_work_preference": "string or null",
-  "cv_summary": "string or null"
-}
-
-CV Text:
-${sampleText}
-
-Return ONLY the JSON object, no other text.`;
-
-  const url = `${GEMINI_CONFIG.BASE_URL}/models/${GEMINI_CONFIG.MODEL}:generateContent?key=${ENV.GEMINI_API_KEY}`;
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      contents: [{ parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0,
-        responseMimeType: "application/json",
-      },
-    }),
-  });
-
-  if (!response.ok) {
-    const txt = await response.text();
-    throw new Error(`Gemini full parse failed: ${txt.slice(0, 500)}`);
-  }
-
-  const data = await response.json();
-  const rawOutput = data?.candidates?.[0]?.content?.parts?.[0]?.text ?? "{}";
-  const cleaned = stripJsonFences(rawOutput);
-
-  try {
-    const parsed = JSON.parse(cleaned);
-    return {
-      ...getEmptyParsedCV(),
-      ...parsed,
-    };
-  } catch {
-    logger.error("Failed to parse Gemini full parse output", {
-      outputPreview: cleaned.slice(0, 1000),
-    });
-    return getEmptyParsedCV();
-  }
-}
-
-function getEmptyParsedCV(): ParsedCV {
-  return {
-    full_name: null,
-    email: null,
-    phone: null,
-    address: null,
-    linkedin_url: null,
-    date_of_birth: null,
-    nationality: null,
-    visa_work_permit: null,
-    professional_summary: null,
-    future_job_aspirations: null,
-    work_history: [],
-    education: [],
-    skills: [],
-    certifications: [],
-    driving_licence: null,
-    languages: [],
-    training_courses: [],
-    professional_memberships: [],
-    awards_honours: [],
-    volunteering: [],
-    interests_hobbies: [],
-    candidate_references: [],
-    military_service: null,
-    salary_expectation: null,
-    notice_period: null,
-    availability_start_date: null,
-    relocation_willingness: null,
-    remote_work_preference: null,
-    cv_summary: null,
-  };
-}
-
-// ============================================
-// DUPLICATE DETECTION
-// ============================================
-
-async function findExistingCandidate(
-  email: string | null,
-  phone: string | null
-): Promise<{ id: string } | null> {
-  if (email && isValidEmail(email)) {
-    const response = await fetch(
-      `${ENV.SUPABASE_URL}/rest/v1/candidates?email=eq.${encodeURIComponent(email)}&select=id&limit=1`,
-      {
-        headers: {
-          Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
-          apikey: ENV.SUPABASE_SERVICE_KEY,
-        },
-      }
-    );
-
-    if (response.ok) {
-      const data = await response.json();
-      if (data.length > 0) {
-        return data[0];
-      }
-    }
-  }
-
-  if (phone) {
-    const normalized = normalizePhone(phone);
-    if (normalized) {
-      const response = await fetch(
-        `${ENV.SUPABASE_URL}/rest/v1/candidates?phone=eq.${encodeURIComponent(normalized)}&select=id&limit=1`,
-        {
-          headers: {
-            Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
-            apikey: ENV.SUPABASE_SERVICE_KEY,
-          },
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.length > 0) {
-          return data[0];
-        }
-      }
-    }
-  }
-
-  return null;
-}
-
-// ============================================
-// GHL OPERATIONS
-// ============================================
-
-async function findExistingGHLContact(
-  email: string | null,
-  phone: string | null,
-  accessToken: string
-): Promise<string | null> {
-  if (email && isValidEmail(email)) {
-    const emailUrl = `${GHL_CONFIG.BASE_URL}/contacts/?locationId=${ENV.GHL_LOCATION_ID}&query=${encodeURIComponent(email)}`;
-
-    const emailResponse = await fetch(emailUrl, {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        Version: GHL_CONFIG.API_VERSION,
-      },
-    });
-
-    if (emailResponse.ok) {
-      const data = await emailResponse.json();
-      if (data.contacts && data.contacts.length > 0) {
-        return data.contacts[0].id;
-      }
-    }
-  }
-
-  if (phone) {
-    const normalized = normalizePhone(phone);
-    if (normalized) {
-      const phoneUrl = `${GHL_CONFIG.BASE_URL}/contacts/?locationId=${ENV.GHL_LOCATION_ID}&query=${encodeURIComponent(normalized)}`;
-
-      const phoneResponse = await fetch(phoneUrl, {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          Version: GHL_CONFIG.API_VERSION,
-        },
-      });
-
-      if (phoneResponse.ok) {
-        const data = await phoneResponse.json();
-        if (data.contacts && data.contacts.length > 0) {
-          return data.contacts[0].id;
-        }
-      }
-    }
-  }
-
-  return null;
-}
-
-async function createGHLContact(data: ParsedCV, accessToken: string): Promise<string> {
-  const { firstName, lastName } = splitName(data.full_name);
-
-  const email = data.email && isValidEmail(data.email) ? data.email.trim() : undefined;
-  const phone = data.phone ? normalizePhone(data.phone) ?? undefined : undefined;
-
-  const basePayload: any = {
-    firstName: firstName || "Unknown",
-    lastName: lastName || "",
-    locationId: ENV.GHL_LOCATION_ID,
-    tags: GHL_CONFIG.DEFAULT_TAGS,
-  };
-
-  const variants: any[] = [
-    { ...basePayload, ...(email ? { email } : {}), ...(phone ? { phone } : {}) },
-    { ...basePayload, ...(email ? { email } : {}) },
-    { ...basePayload, ...(phone ? { phone } : {}) },
-    { ...basePayload },
-  ];
-
-  const url = `${GHL_CONFIG.BASE_URL}/contacts/`;
-  const maxAttempts = GHL_CONFIG.MAX_RETRIES;
-
-  for (const payload of variants) {
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      try {
-        const response = await fetch(url, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            "Content-Type": "application/json",
-            Version: GHL_CONFIG.API_VERSION,
-          },
-          body: JSON.stringify(payload),
-        });
-
-        const bodyText = await response.text();
-
-        if (response.ok) {
-          let result: any;
-          try {
-            result = JSON.parse(bodyText);
-          } catch {
-            throw new Error(`GHL returned non-JSON: ${bodyText.slice(0, 400)}`);
-          }
-
-          const id = result?.contact?.id;
-          if (!id) {
-            throw new Error(`GHL succeeded but missing contact.id: ${bodyText.slice(0, 800)}`);
-          }
-
-          logger.info("GHL contact created successfully", { contactId: id });
-          return id;
-        }
-
-        const status = response.status;
-        const retryable = isRetryableStatus(status, GHL_CONFIG.RETRYABLE_STATUS_CODES);
-
-        if (!retryable) break;
-        if (attempt === maxAttempts) break;
-
-        const waitMs = getRetryDelay(attempt, GHL_CONFIG);
-        await delay(waitMs);
-      } catch (error: any) {
-        if (attempt === maxAttempts) {
-          throw error;
-        }
-        const waitMs = getRetryDelay(attempt, GHL_CONFIG);
-        await delay(waitMs);
-      }
-    }
-  }
-
-  throw new Error("GHL contact creation failed after trying payload variants");
-}
-
-async function updateGHLContact(
-  contactId: string,
-  data: ParsedCV,
-  candidateId: string,
-  cvFileUrl: string | null,
-  coverLetterUrl: string | null,
-  otherDocsUrl: string | null,
-  accessToken: string
-): Promise<void> {
-  const customFieldsData = buildCompleteGHLCustomFields(
-    data,
-    candidateId,
-    cvFileUrl,
-    coverLetterUrl,
-    otherDocsUrl
-  );
-
-  const customFields = Object.entries(customFieldsData).map(([key, value]) => ({
-    key,
-    value: value || "",
-  }));
-
-  const response = await fetch(`${GHL_CONFIG.BASE_URL}/contacts/${contactId}`, {
-    method: "PUT",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-      Version: GHL_CONFIG.API_VERSION,
-    },
-    body: JSON.stringify({ customFields }),
-  });
-
-  if (!response.ok) {
-    const txt = await response.text();
-    throw new Error(`GHL contact update failed: ${txt.slice(0, 800)}`);
-  }
-}
-
-// ============================================
-// GHL FILE UPLOADS
-// ============================================
-
-function guessUploadMimeType(filename: string): string {
-  const ext = filename.split(".").pop()?.toLowerCase();
-  if (ext === "pdf") return "application/pdf";
-  if (ext === "docx")
-    return "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
-  if (ext === "doc") return "application/msword";
-  if (ext === "txt") return "text/plain";
-  return "application/octet-stream";
-}
-
-function encodeStoragePath(path: string): string {
-  return path.split("/").map(encodeURIComponent).join("/");
-}
-
-async function uploadCVToGHL(
-  contactId: string,
-  cvFilePath: string,
-  originalFilename: string,
-  accessToken: string
-): Promise<{ success: boolean; fileUrl?: string; error?: string }> {
-  try {
-    const encodedPath = encodeStoragePath(cvFilePath);
-    const downloadUrl = `${ENV.SUPABASE_URL}/storage/v1/object/${SUPABASE_CONFIG.STORAGE_BUCKET}/${encodedPath}`;
-
-    const downloadResponse = await fetch(downloadUrl, {
       headers: {
         Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
         apikey: ENV.SUPABASE_SERVICE_KEY,
       },
-    });
-
-    if (!downloadResponse.ok) {
-      const t = await downloadResponse.text();
-      throw new Error(`Failed to download CV: ${downloadResponse.status} - ${t.slice(0, 300)}`);
-    }
-
-    const fileBuffer = await downloadResponse.arrayBuffer();
-
-    const BlobCtor = (globalThis as any).Blob;
-    const FormDataCtor = (globalThis as any).FormData;
-
-    if (!BlobCtor || !FormDataCtor) {
-      throw new Error("Blob/FormData not available in this runtime");
-    }
-
-    const mimeType = guessUploadMimeType(originalFilename);
-    const blob = new BlobCtor([fileBuffer], { type: mimeType });
-    const formData = new FormDataCtor();
-    formData.append("file", blob, originalFilename);
-    formData.append("name", originalFilename);
-
-    const uploadResponse = await fetch(`${GHL_CONFIG.BASE_URL}/medias/upload-file`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        Version: GHL_CONFIG.API_VERSION,
-      },
-      body: formData as any,
-    });
-
-    if (!uploadResponse.ok) {
-      const errorText = await uploadResponse.text();
-      throw new Error(
-        `GHL upload failed: ${uploadResponse.status} - ${errorText.slice(0, 800)}`
-      );
-    }
-
-    const uploadResult = await uploadResponse.json();
-    const fileUrl = uploadResult?.url || uploadResult?.fileUrl || uploadResult?.publicUrl || null;
-
-    return {
-      success: true,
-      fileUrl,
-    };
-  } catch (error: any) {
-    logger.error("Failed to upload CV to GHL", {
-      contactId,
-      error: error?.message ?? String(error),
-    });
-
-    return {
-      success: false,
-      error: error?.message ?? String(error),
-    };
-  }
-}
-
-async function uploadCoverLetterToGHL(
-  contactId: string,
-  cvFilePath: string,
-  accessToken: string
-): Promise<string | null> {
-  try {
-    const pathParts = cvFilePath.split("/");
-    const fileName = pathParts[pathParts.length - 1];
-    const baseName = fileName.replace(/\.(pdf|docx?|txt)$/i, "");
-    const clientId = pathParts[0];
-    const batchId = pathParts[1];
-
-    const possiblePaths = [
-      `${clientId}/${batchId}/cover_letters/${baseName}_cover_letter.pdf`,
-      `${clientId}/${batchId}/cover_letters/${baseName}.pdf`,
-      `${clientId}/${batchId}/cover_letters/cover_letter.pdf`,
-      `${clientId}/${batchId}/cover_letter/${baseName}_cover_letter.pdf`,
-      `${clientId}/${batchId}/coverletter/${baseName}_cover_letter.pdf`,
-    ];
-
-    for (const clPath of possiblePaths) {
-      const encodedPath = encodeStoragePath(clPath);
-      const downloadUrl = `${ENV.SUPABASE_URL}/storage/v1/object/${SUPABASE_CONFIG.STORAGE_BUCKET}/${encodedPath}`;
-
-      const downloadResponse = await fetch(downloadUrl, {
-        headers: {
-          Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
-          apikey: ENV.SUPABASE_SERVICE_KEY,
-        },
-      });
-
-      if (downloadResponse.ok) {
-        const clData = await downloadResponse.arrayBuffer();
-
-        const BlobCtor = (globalThis as any).Blob;
-        const FormDataCtor = (globalThis as any).FormData;
-
-        const blob = new BlobCtor([clData], { type: "application/pdf" });
-        const formData = new FormDataCtor();
-        formData.append("file", blob, "cover_letter.pdf");
-        formData.append("name", "cover_letter.pdf");
-
-        const uploadResponse = await fetch(`${GHL_CONFIG.BASE_URL}/medias/upload-file`, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            Version: GHL_CONFIG.API_VERSION,
-          },
-          body: formData as any,
-        });
-
-        if (uploadResponse.ok) {
-          const uploadResult = await uploadResponse.json();
-          return uploadResult?.url || uploadResult?.fileUrl || uploadResult?.publicUrl || null;
-        }
-      }
     }
+  );
 
-    return null;
-  } catch (error: any) {
-    logger.warn("⚠️ Failed to upload cover letter", {
-      contactId,
-      error: error?.message ?? String(error),
-    });
-    return null;
+  if (!response.ok) {
+    throw new Error(`Failed to fetch hold queue item: ${response.status}`);
   }
-}
 
-async function uploadOtherDocsToGHL(
-  contactId: string,
-  cvFilePath: string,
-  accessToken: string
-): Promise<string | null> {
-  try {
-    const pathParts = cvFilePath.split("/");
-    const fileName = pathParts[pathParts.length - 1];
-    const baseName = fileName.replace(/\.(pdf|docx?|txt)$/i, "");
-    const clientId = pathParts[0];
-    const batchId = pathParts[1];
-
-    const possiblePaths = [
-      `${clientId}/${batchId}/other_docs/${baseName}_application.pdf`,
-      `${clientId}/${batchId}/other_docs/${baseName}.pdf`,
-      `${clientId}/${batchId}/other_docs/application.pdf`,
-      `${clientId}/${batchId}/other_documents/${baseName}_application.pdf`,
-      `${clientId}/${batchId}/application/${baseName}_application.pdf`,
-    ];
-
-    for (const docPath of possiblePaths) {
-      const encodedPath = encodeStoragePath(docPath);
-      const downloadUrl = `${ENV.SUPABASE_URL}/storage/v1/object/${SUPABASE_CONFIG.STORAGE_BUCKET}/${encodedPath}`;
-
-      const downloadResponse = await fetch(downloadUrl, {
-        headers: {
-          Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
-          apikey: ENV.SUPABASE_SERVICE_KEY,
-        },
-      });
-
-      if (downloadResponse.ok) {
-        const docData = await downloadResponse.arrayBuffer();
-
-        const BlobCtor = (globalThis as any).Blob;
-        const FormDataCtor = (globalThis as any).FormData;
-
-        const blob = new BlobCtor([docData], { type: "application/pdf" });
-        const formData = new FormDataCtor();
-        formData.append("file", blob, "application.pdf");
-        formData.append("name", "application.pdf");
-
-        const uploadResponse = await fetch(`${GHL_CONFIG.BASE_URL}/medias/upload-file`, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            Version: GHL_CONFIG.API_VERSION,
-          },
-          body: formData as any,
-        });
-
-        if (uploadResponse.ok) {
-          const uploadResult = await uploadResponse.json();
-          return uploadResult?.url || uploadResult?.fileUrl || uploadResult?.publicUrl || null;
-        }
-      }
-    }
-
-    return null;
-  } catch (error: any) {
-    logger.warn("⚠️ Failed to upload other documents", {
-      contactId,
-      error: error?.message ?? String(error),
-    });
-    return null;
-  }
+  const data = await response.json();
+  return data[0] || null;
 }
 
-// ============================================
-// DATABASE OPERATIONS
-// ============================================
-
-async function fetchHoldQueueItem(holdQueueId: string): Promise<any> {
+async function fetchBatchJob(
+  batchId: string
+): Promise<{ job_id: string | null; colleague: string | null } | null> {
   const response = await fetch(
-    `${ENV.SUPABASE_URL}/rest/v1/hold_queue?id=eq.${holdQueueId}&select=*&limit=1`,
+    `${ENV.SUPABASE_URL}/rest/v1/processing_batches?id=eq.${batchId}&select=job_id,colleague&limit=1`,
     {
       headers: {
         Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
@@ -1001,107 +397,43 @@ async function fetchHoldQueueItem(holdQueueId: string): Promise<any> {
   );
 
   if (!response.ok) {
-    throw new Error(`Failed to fetch hold queue item: ${response.status}`);
+    return null;
   }
 
   const data = await response.json();
   return data[0] || null;
 }
 
-async function writeCandidate(candidateData: any): Promise<string> {
-  const maxAttempts = SUPABASE_CONFIG.MAX_RETRIES;
-
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    try {
-      const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/candidates`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
-          apikey: ENV.SUPABASE_SERVICE_KEY,
-          "Content-Type": "application/json",
-          Prefer: "return=representation",
-        },
-        body: JSON.stringify(candidateData),
-      });
-
-      if (response.ok) {
-        const result = await response.json();
-        const id = result?.[0]?.id;
-        if (!id) throw new Error("Candidate insert succeeded but no id returned");
-        return id;
-      }
-
-      const errorText = await response.text();
-
-      if (attempt === maxAttempts) {
-        throw new Error(`Failed to write candidate: ${errorText.slice(0, 800)}`);
-      }
-
-      logger.warn("Retrying candidate insert", { attempt });
-      await delay(getRetryDelay(attempt, SUPABASE_CONFIG));
-    } catch (error: any) {
-      if (attempt === maxAttempts) {
-        throw error;
-      }
-      logger.warn("Candidate insert exception", {
-        attempt,
-        error: error.message,
-      });
-      await delay(getRetryDelay(attempt, SUPABASE_CONFIG));
-    }
+/**
+ * Candidate row an "update_existing" decision points at. The reviewer UI
+ * stores a GHL contact id in duplicate_candidate_id when the duplicate came
+ * from GHL, so fall back to ghl_contact_id, then email/phone.
+ */
+async function findUpdateTarget(
+  holdItem: HoldQueueItem,
+  ghlContactId: string | null,
+  parsedData: ParsedCV
+): Promise<CandidateRecord | null> {
+  if (holdItem.duplicate_candidate_id && holdItem.duplicate_candidate_id !== ghlContactId) {
+    const candidate = await fetchCandidateById(holdItem.duplicate_candidate_id);
+    if (candidate) return candidate;
   }
 
-  throw new Error("Failed to write candidate after retries");
-}
-
-async function updateCandidate(candidateId: string, updateData: any): Promise<void> {
-  const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/candidates?id=eq.${candidateId}`, {
-    method: "PATCH",
-    headers: {
-      Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
-      apikey: ENV.SUPABASE_SERVICE_KEY,
-      "Content-Type": "application/json",
-      Prefer: "return=minimal",
-    },
-    body: JSON.stringify(updateData),
-  });
-
-  if (!response.ok) {
-    const t = await response.text();
-    throw new Error(`Failed to update candidate: ${t.slice(0, 800)}`);
+  if (ghlContactId) {
+    const candidate = await findCandidateByGHLContactId(ghlContactId);
+    if (candidate) return candidate;
   }
-}
 
-async function updateCandidateGHL(
-  candidateId: string,
-  ghlContactId: string | null,
-  status: string
-): Promise<void> {
-  const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/candidates?id=eq.${candidateId}`, {
-    method: "PATCH",
-    headers: {
-      Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
-      apikey: ENV.SUPABASE_SERVICE_KEY,
-      "Content-Type": "application/json",
-      Prefer: "return=minimal",
-    },
-    body: JSON.stringify({
-      ghl_contact_id: ghlContactId,
-      status: status,
-    }),
-  });
-
-  if (!response.ok) {
-    const t = await response.text();
-    throw new Error(`Failed to update candidate GHL/status: ${t.slice(0, 800)}`);
-  }
+  const duplicate = await findExistingCandidate(parsedData.email, parsedData.phone);
+  return duplicate ? await fetchCandidateById(duplicate.id) : null;
 }
 
 async function updateHoldQueueStatus(
   holdQueueId: string,
   status: string,
   candidateId: string | null,
-  errorMessage?: string
+  errorMessage?: string,
+  extractionData?: Record<string, any>
 ): Promise<void> {
   const updateData: any = {
     status,
@@ -1112,8 +444,11 @@ async function updateHoldQueueStatus(
     updateData.existing_candidate_id = candidateId;
   }
 
-  if (errorMessage) {
-    updateData.processing_error = errorMessage;
+  // A successful retry clears the last attempt's error
+  updateData.processing_error = errorMessage || null;
+
+  if (extractionData) {
+    updateData.extraction_data = extractionData;
   }
 
   const response = await fetch(`${ENV.SUPABASE_URL}/rest/v1/hold_queue?id=eq.${holdQueueId}`, {
@@ -0,0 +1,110 @@
+// ============================================
+// FILE RESULT CACHE
+// ============================================
+// Recruiters re-upload the same CV files in new batches. Results of the
+// paid steps are stored against the SHA-256 of the file bytes:
+// - extracted text (+ method)
+// - AI classification
+// - quick parse and full parse
+// Identical bytes reuse them instead of calling Gemini again.
+
+import { logger } from "@trigger.dev/sdk";
+import { ENV, RESULT_CACHE_CONFIG } from "./config";
+import { ClassificationResult } from "./documentClassifier";
+import { ChunkingReport } from "./chunkedParse";
+import { ParseValidationReport, ParsedCV } from "./parsedCVSchema";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CachedFullParse {
+  data: ParsedCV;
+  validation: ParseValidationReport;
+  chunking: ChunkingReport;
+  model: string;
+}
+
+export interface FileResultCacheEntry {
+  content_hash: string;
+  cache_version: number;
+  extracted_text: string | null;
+  extraction_method: string | null;
+  classification: ClassificationResult | null;
+  quick_parse: Pick<ParsedCV, "full_name" | "email" | "phone"> | null;
+  full_parse: CachedFullParse | null;
+}
+
+// ============================================
+// READ / WRITE
+// ============================================
+
+/**
+ * Cached results for a file, or null when nothing (current) is stored
+ */
+export async function getCachedFileResults(contentHash: string): Promise<FileResultCacheEntry | null> {
+  if (!RESULT_CACHE_CONFIG.ENABLE_RESULT_CACHE) return null;
+
+  try {
+    const response = await fetch(
+      `${ENV.SUPABASE_URL}/rest/v1/file_result_cache?content_hash=eq.${contentHash}&cache_version=eq.${RESULT_CACHE_CONFIG.CACHE_VERSION}&select=*&limit=1`,
+      {
+        headers: {
+          Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+          apikey: ENV.SUPABASE_SERVICE_KEY,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      logger.warn("Result cache lookup failed", { status: response.status });
+      return null;
+    }
+
+    const rows = await response.json();
+    return rows[0] || null;
+  } catch (error: any) {
+    logger.warn("Exception reading result cache", { error: error.message });
+    return null;
+  }
+}
+
+/**
+ * Store one or more stage results for a file. Merged into any existing
+ * entry, so stages can be saved as they complete.
+ */
+export async function saveCachedFileResults(
+  contentHash: string,
+  results: Partial<Omit<FileResultCacheEntry, "content_hash" | "cache_version">>
+): Promise<void> {
+  if (!RESULT_CACHE_CONFIG.ENABLE_RESULT_CACHE) return;
+
+  try {
+    const response = await fetch(
+      `${ENV.SUPABASE_URL}/rest/v1/file_result_cache?on_conflict=content_hash,cache_version`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${ENV.SUPABASE_SERVICE_KEY}`,
+          apikey: ENV.SUPABASE_SERVICE_KEY,
+          "Content-Type": "application/json",
+          Prefer: "resolution=merge-duplicates,return=minimal",
+        },
+        body: JSON.stringify({
+          content_hash: contentHash,
+          cache_version: RESULT_CACHE_CONFIG.CACHE_VERSION,
+          ...results,
+          updated_at: new Date().toISOString(),
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const t = await response.text();
+      logger.warn("Failed to save result cache", { status: response.status, error: t.slice(0, 300) });
+    }
+    // Don't throw - the cache is an optimisation
+  } catch (error: any) {
+    logger.warn("Exception saving result cache", { error: error.message });
+  }
+}
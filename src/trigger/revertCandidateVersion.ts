@@ -0,0 +1,119 @@
+// ============================================
+// REVERT CANDIDATE VERSION
+// ============================================
+// Undo a merge recorded in candidate_versions:
+// - Only the latest version, unless the caller confirms discarding later ones
+// - Restore the version's previous_data onto the candidate
+// - Record the revert itself as a new version (so it can be undone too)
+// - Re-sync the GHL contact with the restored data (re-uploading the CV
+//   only when the restored file differs)
+
+import { task, logger } from "@trigger.dev/sdk";
+import { fetchCandidateById, syncCandidateToGHL, updateCandidate, updateCandidateGHL } from "./candidatePipeline";
+import {
+  fetchCandidateVersion,
+  fetchLatestCandidateVersion,
+  snapshotCandidate,
+  writeCandidateVersion,
+} from "./candidateMerge";
+import { getEmptyParsedCV } from "./parsedCVSchema";
+
+// ============================================
+// MAIN TASK
+// ============================================
+
+export const revertCandidateVersion = task({
+  id: "revert-candidate-version",
+  maxDuration: 120, // 2 minutes
+  // discardLaterVersions: restore an older version even though later merges are lost
+  run: async (payload: { versionId: string; discardLaterVersions?: boolean }) => {
+    const { versionId } = payload;
+    const correlationId = `revert_${versionId}`;
+
+    logger.info("⏪ Reverting candidate version", { correlationId, versionId });
+
+    // 1) Load the version and the candidate as it is now
+    const version = await fetchCandidateVersion(versionId);
+    if (!version) {
+      return { success: false, error: "Version not found" };
+    }
+
+    const candidate = await fetchCandidateById(version.candidate_id);
+    if (!candidate) {
+      return { success: false, error: "Candidate not found" };
+    }
+
+    // previous_data predates every later merge - restoring it silently undoes them too
+    const latest = await fetchLatestCandidateVersion(candidate.id);
+    if (latest && latest.id !== versionId && !payload.discardLaterVersions) {
+      logger.warn("⚠️ Not the latest version - revert needs confirmation", {
+        correlationId,
+        candidateId: candidate.id,
+        latestVersionId: latest.id,
+      });
+      return {
+        success: false,
+        error: "Later versions exist - reverting this one discards them. Re-run with discardLaterVersions to confirm.",
+        latestVersionId: latest.id,
+      };
+    }
+
+    // Columns missing from older snapshots keep their current value
+    const current = snapshotCandidate(candidate);
+    const restored = { ...current, ...(version.previous_data || {}) };
+    const changes = Object.keys(restored)
+      .filter((field) => JSON.stringify(restored[field]) !== JSON.stringify(current[field]))
+      .map((field) => ({ field, strategy: "newest_non_null" as const }));
+
+    // 2) Record the revert, then restore
+    const revertVersionId = await writeCandidateVersion({
+      candidateId: candidate.id,
+      source: "revert",
+      previousData: current,
+      newData: restored,
+      changes,
+      revertedVersionId: versionId,
+    });
+
+    await updateCandidate(candidate.id, { ...restored, status: "pending_ghl_sync" });
+
+    logger.info("✅ Candidate restored", {
+      correlationId,
+      candidateId: candidate.id,
+      revertVersionId,
+      changedFields: changes.map((c) => c.field),
+    });
+
+    // 3) Push the restored data to GHL - the contact already has the current CV
+    const cvChanged = restored.cv_file_path !== current.cv_file_path;
+    let ghlContactId: string | null = null;
+    try {
+      const ghlSync = await syncCandidateToGHL({
+        candidateId: candidate.id,
+        data: { ...getEmptyParsedCV(), ...restored },
+        cvFilePath: cvChanged ? restored.cv_file_path : null,
+        fileName: restored.cv_file_path?.split("/").pop() || "cv.pdf",
+        batchId: candidate.batch_id || undefined,
+        clientId: candidate.client_id,
+        correlationId,
+        existingContactId: candidate.ghl_contact_id,
+      });
+      ghlContactId = ghlSync.ghlContactId;
+      await updateCandidateGHL(candidate.id, ghlContactId, "complete");
+    } catch (ghlError: any) {
+      logger.error("❌ GHL sync failed after revert", {
+        correlationId,
+        candidateId: candidate.id,
+        error: ghlError.message,
+      });
+      await updateCandidateGHL(candidate.id, candidate.ghl_contact_id || null, "ghl_sync_failed");
+    }
+
+    return {
+      success: true,
+      candidateId: candidate.id,
+      revertVersionId,
+      ghlContactId,
+    };
+  },
+});
@@ -0,0 +1,707 @@
+// ============================================
+// TEXT EXTRACTION
+// ============================================
+// Turns uploaded documents (CVs, job descriptions) into raw text:
+// - TXT: local decoding (UTF-8 / UTF-16 / Windows-1252)
+// - DOCX: local unzip of the Word XML
+// - PDF: local text-layer parser
+// - Gemini OCR only as a fallback for scanned/image-only documents
+//   and legacy .doc files
+
+import { logger } from "@trigger.dev/sdk";
+import { Buffer } from "buffer";
+import { inflateRawSync, inflateSync } from "zlib";
+import { EXTRACTION_CONFIG } from "./config";
+import { LLMCallInfo, LLMProvider, getLLMProvider } from "./llmProvider";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ExtractionMethod = "plain_text" | "docx_xml" | "pdf_text_layer" | "gemini_ocr";
+
+export interface ExtractionResult {
+  text: string;
+  method: ExtractionMethod;
+  call: LLMCallInfo | null; // Set when the LLM did the extraction (for cost tracking)
+}
+
+// ============================================
+// MAIN ENTRY POINT
+// ============================================
+
+/**
+ * Extract raw text from a PDF/DOCX/DOC/TXT file.
+ * Local extraction first; Gemini only when the local result is unusable.
+ */
+export async function extractText(
+  fileBuffer: ArrayBuffer,
+  fileName: string,
+  llm: LLMProvider = getLLMProvider()
+): Promise<ExtractionResult> {
+  const ext = fileName.split(".").pop()?.toLowerCase();
+  const buffer = Buffer.from(fileBuffer);
+
+  if (ext === "txt") {
+    return { text: decodePlainText(buffer), method: "plain_text", call: null };
+  }
+
+  if (EXTRACTION_CONFIG.ENABLE_LOCAL_EXTRACTION && (ext === "docx" || ext === "pdf")) {
+    let localText = "";
+    try {
+      localText = ext === "docx" ? extractDocxText(buffer) : extractPdfText(buffer);
+    } catch (error: any) {
+      logger.warn("Local text extraction failed - falling back to Gemini", {
+        fileName,
+        error: error.message,
+      });
+    }
+
+    if (isUsableText(localText)) {
+      return { text: localText, method: ext === "docx" ? "docx_xml" : "pdf_text_layer", call: null };
+    }
+
+    logger.info("Local text layer unusable - falling back to Gemini OCR", {
+      fileName,
+      localLength: localText.length,
+    });
+  }
+
+  let mimeType = "application/pdf";
+  if (ext === "docx") {
+    mimeType = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+  } else if (ext === "doc") {
+    mimeType = "application/msword";
+  }
+
+  // OCR / document understanding for scans and formats we can't read locally (legacy .doc)
+  const { text, model, usage } = await llm.extractDocumentText({ data: fileBuffer, mimeType, fileName });
+  return { text, method: "gemini_ocr", call: { model, usage } };
+}
+
+/**
+ * Decide whether locally extracted text is real text rather than an empty
+ * layer (scans) or undecodable glyph ids (subset fonts without ToUnicode)
+ */
+function isUsableText(text: string): boolean {
+  const compact = text.replace(/\s+/g, "");
+  if (compact.length < EXTRACTION_CONFIG.MIN_LOCAL_TEXT_LENGTH) return false;
+
+  const printable = compact.replace(/[\u0000-\u001f\u007f-\u009f\ufffd]/g, "").length;
+  const letters = (compact.match(/\p{L}/gu) || []).length;
+
+  return (
+    printable / compact.length >= EXTRACTION_CONFIG.MIN_PRINTABLE_RATIO &&
+    letters / compact.length >= EXTRACTION_CONFIG.MIN_LETTER_RATIO
+  );
+}
+
+function tidyExtractedText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// ============================================
+// PLAIN TEXT
+// ============================================
+
+function decodePlainText(buffer: Buffer): string {
+  // UTF-16 with BOM
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return tidyExtractedText(buffer.subarray(2).toString("utf16le"));
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    const swapped = Buffer.from(buffer.subarray(2));
+    swapped.swap16();
+    return tidyExtractedText(swapped.toString("utf16le"));
+  }
+
+  const utf8 = buffer.toString("utf8").replace(/^\ufeff/, "");
+
+  // Not valid UTF-8 - most likely a Windows-1252 export from Word/Notepad
+  if (utf8.includes("\ufffd")) {
+    return tidyExtractedText(decodeWinAnsi(buffer));
+  }
+
+  return tidyExtractedText(utf8);
+}
+
+// Windows-1252 code points 0x80-0x9F (the rest matches Latin-1)
+const WIN_ANSI_HIGH: Record<number, string> = {
+  0x80: "€", 0x82: "‚", 0x83: "ƒ", 0x84: "„", 0x85: "…", 0x86: "†", 0x87: "‡",
+  0x88: "ˆ", 0x89: "‰", 0x8a: "Š", 0x8b: "‹", 0x8c: "Œ", 0x8e: "Ž",
+  0x91: "‘", 0x92: "’", 0x93: "“", 0x94: "”", 0x95: "•", 0x96: "–", 0x97: "—",
+  0x98: "˜", 0x99: "™", 0x9a: "š", 0x9b: "›", 0x9c: "œ", 0x9e: "ž", 0x9f: "Ÿ",
+};
+
+function decodeWinAnsi(bytes: Uint8Array): string {
+  let out = "";
+  for (const b of bytes) {
+    out += WIN_ANSI_HIGH[b] ?? String.fromCharCode(b);
+  }
+  return out;
+}
+
+// ============================================
+// DOCX (ZIP + WordprocessingML)
+// ============================================
+
+/**
+ * Read the entries we need straight from the zip central directory
+ */
+function readZipEntries(buffer: Buffer, wanted: (name: string) => boolean): Map<string, Buffer> {
+  // End of central directory record (scan back over a possible comment)
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error("Not a zip archive (no end of central directory)");
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = new Map<string, Buffer>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) break;
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    if (wanted(name)) {
+      const localNameLength = buffer.readUInt16LE(localHeaderOffset + 26);
+      const localExtraLength = buffer.readUInt16LE(localHeaderOffset + 28);
+      const dataStart = localHeaderOffset + 30 + localNameLength + localExtraLength;
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+      if (method === 0) entries.set(name, data);
+      else if (method === 8) entries.set(name, inflateRawSync(data));
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function wordXmlToText(xml: string): string {
+  return decodeXmlEntities(
+    xml
+      .replace(/<w:tab\/>/g, "\t")
+      .replace(/<w:(br|cr)\b[^>]*\/>/g, "\n")
+      .replace(/<\/w:p>/g, "\n")
+      .replace(/<\/w:tc>/g, "\t")
+      .replace(/<[^>]+>/g, "")
+  );
+}
+
+/**
+ * Extract DOCX text. Headers come first because CVs often put the
+ * candidate's name and contact details there.
+ */
+function extractDocxText(buffer: Buffer): string {
+  const entries = readZipEntries(buffer, (name) => /^word\/(document|header\d*|footer\d*)\.xml$/.test(name));
+
+  const document = entries.get("word/document.xml");
+  if (!document) throw new Error("DOCX has no word/document.xml");
+
+  const sortedParts = (prefix: string) =>
+    [...entries.keys()].filter((n) => n.startsWith(`word/${prefix}`)).sort();
+
+  const parts = [
+    ...sortedParts("header").map((n) => wordXmlToText(entries.get(n)!.toString("utf8"))),
+    wordXmlToText(document.toString("utf8")),
+    ...sortedParts("footer").map((n) => wordXmlToText(entries.get(n)!.toString("utf8"))),
+  ];
+
+  return tidyExtractedText(parts.filter((p) => p.trim()).join("\n"));
+}
+
+// ============================================
+// PDF TEXT LAYER
+// ============================================
+// Minimal reader for text-based PDFs: walks the page tree, inflates
+// content streams and interprets the text operators, following the
+// Form XObjects a page draws. Fonts with a ToUnicode CMap are decoded
+// through it; everything else as WinAnsi.
+// Pages are separated with a form feed (\f).
+
+interface PdfObject {
+  dict: string;
+  stream: Buffer | null;
+}
+
+interface ToUnicodeMap {
+  codeBytes: number;
+  map: Map<number, string>;
+}
+
+/**
+ * Index every object, including those packed inside object streams
+ */
+function readPdfObjects(buffer: Buffer): Map<number, PdfObject> {
+  const raw = buffer.toString("latin1");
+  const objects = new Map<number, PdfObject>();
+  const objRegex = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = objRegex.exec(raw))) {
+    const num = parseInt(match[1]);
+    const bodyStart = match.index + match[0].length;
+    const end = raw.indexOf("endobj", bodyStart);
+    if (end === -1) break;
+
+    const body = raw.slice(bodyStart, end);
+    const streamIdx = body.search(/\bstream\r?\n/);
+    if (streamIdx === -1) {
+      objects.set(num, { dict: body.trim(), stream: null });
+    } else {
+      const dict = body.slice(0, streamIdx);
+      const dataStart = bodyStart + body.indexOf("\n", streamIdx) + 1;
+      const dataEnd = raw.lastIndexOf("endstream", end);
+      const data = buffer.subarray(dataStart, Math.max(dataStart, dataEnd));
+      objects.set(num, { dict: dict.trim(), stream: decodePdfStream(dict, data) });
+    }
+
+    objRegex.lastIndex = end;
+  }
+
+  // Expand compressed object streams (PDF 1.5+)
+  for (const obj of [...objects.values()]) {
+    if (!/\/Type\s*\/ObjStm\b/.test(obj.dict) || !obj.stream) continue;
+
+    const n = parseInt(obj.dict.match(/\/N\s+(\d+)/)?.[1] || "0");
+    const first = parseInt(obj.dict.match(/\/First\s+(\d+)/)?.[1] || "0");
+    const content = obj.stream.toString("latin1");
+    const header = content.slice(0, first).trim().split(/\s+/).map((v) => parseInt(v));
+
+    for (let i = 0; i < n; i++) {
+      const num = header[i * 2];
+      const start = first + header[i * 2 + 1];
+      const end = i + 1 < n ? first + header[(i + 1) * 2 + 1] : content.length;
+      if (!objects.has(num)) {
+        objects.set(num, { dict: content.slice(start, end).trim(), stream: null });
+      }
+    }
+  }
+
+  return objects;
+}
+
+function decodePdfStream(dict: string, data: Buffer): Buffer | null {
+  // Only Flate (or unfiltered) streams can hold text we can read
+  const filter = dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] || "";
+  if (!filter) return data;
+  if (!/^\[?\s*\/FlateDecode\s*\]?$/.test(filter)) return null;
+
+  try {
+    return inflateSync(data);
+  } catch {
+    try {
+      // Some producers write a truncated/raw deflate body
+      return inflateRawSync(data.subarray(2));
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Return the raw value text for a dictionary key, handling nested << >> and [ ]
+ */
+function getDictValue(dict: string, key: string): string | null {
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const keyMatch = new RegExp(`/${escaped}(?![A-Za-z0-9])\\s*`).exec(dict);
+  if (!keyMatch) return null;
+
+  let i = keyMatch.index + keyMatch[0].length;
+  if (dict.startsWith("<<", i)) {
+    let depth = 0;
+    for (let j = i; j < dict.length; j++) {
+      if (dict.startsWith("<<", j)) { depth++; j++; }
+      else if (dict.startsWith(">>", j)) { depth--; j++; if (depth === 0) return dict.slice(i, j + 1); }
+    }
+    return dict.slice(i);
+  }
+  if (dict[i] === "[") {
+    const close = dict.indexOf("]", i);
+    return dict.slice(i, close === -1 ? undefined : close + 1);
+  }
+
+  const ref = /^(\d+)\s+\d+\s+R/.exec(dict.slice(i));
+  if (ref) return ref[0];
+
+  return dict.slice(i).match(/^[^\s/<>\[\]]+|^\/[^\s/<>\[\]]+/)?.[0] ?? null;
+}
+
+function refNumbers(value: string | null): number[] {
+  if (!value) return [];
+  return [...value.matchAll(/(\d+)\s+\d+\s+R/g)].map((m) => parseInt(m[1]));
+}
+
+/**
+ * Resolve a value that may be an indirect reference to a dictionary
+ */
+function resolveDict(objects: Map<number, PdfObject>, value: string | null): string | null {
+  if (!value) return null;
+  if (value.startsWith("<<")) return value;
+  const [num] = refNumbers(value);
+  return num !== undefined ? objects.get(num)?.dict ?? null : null;
+}
+
+/**
+ * Page dictionaries in reading order (walks /Pages /Kids)
+ */
+function collectPages(objects: Map<number, PdfObject>): PdfObject[] {
+  const pages: PdfObject[] = [];
+  const visited = new Set<number>();
+
+  const walk = (num: number) => {
+    if (visited.has(num)) return;
+    visited.add(num);
+    const obj = objects.get(num);
+    if (!obj) return;
+
+    if (/\/Type\s*\/Pages\b/.test(obj.dict)) {
+      refNumbers(getDictValue(obj.dict, "Kids")).forEach(walk);
+    } else if (/\/Type\s*\/Page\b/.test(obj.dict)) {
+      pages.push(obj);
+    }
+  };
+
+  // Root page tree = the /Pages node without a /Parent
+  for (const [num, obj] of objects) {
+    if (/\/Type\s*\/Pages\b/.test(obj.dict) && !/\/Parent\b/.test(obj.dict)) {
+      walk(num);
+    }
+  }
+
+  return pages;
+}
+
+function parseToUnicode(cmap: string): ToUnicodeMap {
+  const map = new Map<number, string>();
+  const codespace = cmap.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+  const codeBytes = codespace ? Math.max(1, codespace[1].length / 2) : 1;
+
+  const hexToString = (hex: string) => {
+    let out = "";
+    for (let i = 0; i + 4 <= hex.length; i += 4) out += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+    return out;
+  };
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const m of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g)) {
+      map.set(parseInt(m[1], 16), hexToString(m[2]));
+    }
+  }
+
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const m of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]+>|\[[^\]]*\])/g)) {
+      const start = parseInt(m[1], 16);
+      const end = parseInt(m[2], 16);
+      if (m[3].startsWith("[")) {
+        const targets = [...m[3].matchAll(/<([0-9a-fA-F]+)>/g)].map((t) => hexToString(t[1]));
+        targets.forEach((t, i) => map.set(start + i, t));
+      } else {
+        const base = m[3].slice(1, -1);
+        const baseCode = parseInt(base.slice(-4), 16);
+        const prefix = hexToString(base.slice(0, -4));
+        for (let code = start; code <= end && code - start < 65536; code++) {
+          map.set(code, prefix + String.fromCharCode(baseCode + (code - start)));
+        }
+      }
+    }
+  }
+
+  return { codeBytes, map };
+}
+
+/**
+ * A page's /Resources dictionary - it can be inherited from an ancestor /Pages node
+ */
+function loadPageResources(objects: Map<number, PdfObject>, page: PdfObject): string | null {
+  let resources: string | null = null;
+  let node: PdfObject | undefined = page;
+  for (let depth = 0; node && !resources && depth < 20; depth++) {
+    resources = resolveDict(objects, getDictValue(node.dict, "Resources"));
+    const [parent] = refNumbers(getDictValue(node.dict, "Parent"));
+    node = parent !== undefined ? objects.get(parent) : undefined;
+  }
+  return resources;
+}
+
+/**
+ * Font resource name -> ToUnicode map for a /Resources dictionary
+ */
+function loadFonts(objects: Map<number, PdfObject>, resources: string | null): Map<string, ToUnicodeMap> {
+  const fonts = new Map<string, ToUnicodeMap>();
+
+  const fontDict = resolveDict(objects, resources ? getDictValue(resources, "Font") : null);
+  if (!fontDict) return fonts;
+
+  for (const m of fontDict.matchAll(/\/([^\s/<>\[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+    const font = objects.get(parseInt(m[2]));
+    const [cmapNum] = refNumbers(font ? getDictValue(font.dict, "ToUnicode") : null);
+    const cmap = cmapNum !== undefined ? objects.get(cmapNum)?.stream : null;
+    if (cmap) fonts.set(m[1], parseToUnicode(cmap.toString("latin1")));
+  }
+
+  return fonts;
+}
+
+function decodePdfString(bytes: number[], font: ToUnicodeMap | undefined): string {
+  if (!font) return decodeWinAnsi(Uint8Array.from(bytes));
+
+  let out = "";
+  for (let i = 0; i + font.codeBytes <= bytes.length; i += font.codeBytes) {
+    let code = 0;
+    for (let b = 0; b < font.codeBytes; b++) code = (code << 8) | bytes[i + b];
+    out += font.map.get(code) ?? "\ufffd";
+  }
+  return out;
+}
+
+/**
+ * Text of a content stream plus the Form XObjects it draws (producers wrap
+ * headers, text boxes or whole pages in forms). A form uses its own
+ * /Resources, else its caller's; `drawing` guards against forms drawing themselves.
+ */
+function extractStreamText(
+  objects: Map<number, PdfObject>,
+  content: string,
+  resources: string | null,
+  drawing: Set<number> = new Set()
+): string {
+  const xobjects = resolveDict(objects, resources ? getDictValue(resources, "XObject") : null);
+
+  const drawForm = (name: string): string => {
+    const [num] = refNumbers(xobjects ? getDictValue(xobjects, name) : null);
+    const form = num !== undefined ? objects.get(num) : undefined;
+    if (!form?.stream || !/\/Subtype\s*\/Form\b/.test(form.dict)) return "";
+    if (drawing.has(num) || drawing.size >= EXTRACTION_CONFIG.MAX_PDF_FORM_DEPTH) return "";
+
+    drawing.add(num);
+    const formResources = resolveDict(objects, getDictValue(form.dict, "Resources")) || resources;
+    const text = extractStreamText(objects, form.stream.toString("latin1"), formResources, drawing);
+    drawing.delete(num);
+    return text;
+  };
+
+  return extractContentText(content, loadFonts(objects, resources), drawForm);
+}
+
+/**
+ * Interpret the text operators of a content stream
+ */
+function extractContentText(
+  content: string,
+  fonts: Map<string, ToUnicodeMap>,
+  drawForm: (name: string) => string = () => ""
+): string {
+  let out = "";
+  let operands: any[] = [];
+  let font: ToUnicodeMap | undefined;
+  let lastY: number | null = null;
+  let i = 0;
+
+  const newline = () => {
+    if (out && !out.endsWith("\n")) out += "\n";
+  };
+  const show = (bytes: number[]) => {
+    out += decodePdfString(bytes, font);
+  };
+
+  while (i < content.length) {
+    const ch = content[i];
+
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if (ch === "%") {
+      while (i < content.length && content[i] !== "\n" && content[i] !== "\r") i++;
+      continue;
+    }
+
+    // Literal string
+    if (ch === "(") {
+      const bytes: number[] = [];
+      let depth = 1;
+      i++;
+      while (i < content.length && depth > 0) {
+        const c = content[i];
+        if (c === "\\") {
+          const next = content[i + 1];
+          const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12, "(": 40, ")": 41, "\\": 92 };
+          if (next in escapes) { bytes.push(escapes[next]); i += 2; continue; }
+          if (/[0-7]/.test(next)) {
+            const oct = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+            bytes.push(parseInt(oct, 8) & 0xff);
+            i += 1 + oct.length;
+            continue;
+          }
+          if (next === "\r" || next === "\n") { i += content[i + 2] === "\n" && next === "\r" ? 3 : 2; continue; }
+          i++;
+          continue;
+        }
+        if (c === "(") depth++;
+        if (c === ")") { depth--; if (depth === 0) { i++; break; } }
+        bytes.push(c.charCodeAt(0) & 0xff);
+        i++;
+      }
+      operands.push({ bytes });
+      continue;
+    }
+
+    // Hex string (but not a << dictionary)
+    if (ch === "<" && content[i + 1] !== "<") {
+      const close = content.indexOf(">", i);
+      const hex = content.slice(i + 1, close === -1 ? undefined : close).replace(/[^0-9a-fA-F]/g, "");
+      const padded = hex.length % 2 ? hex + "0" : hex;
+      const bytes: number[] = [];
+      for (let h = 0; h < padded.length; h += 2) bytes.push(parseInt(padded.slice(h, h + 2), 16));
+      operands.push({ bytes });
+      i = close === -1 ? content.length : close + 1;
+      continue;
+    }
+
+    // Array (TJ operand)
+    if (ch === "[") {
+      operands.push({ arrayStart: true });
+      i++;
+      continue;
+    }
+    if (ch === "]") {
+      const start = operands.map((o) => o?.arrayStart).lastIndexOf(true);
+      const items = operands.slice(start + 1);
+      operands = operands.slice(0, Math.max(0, start));
+      operands.push({ array: items });
+      i++;
+      continue;
+    }
+
+    // Skip inline dictionaries (marked content properties)
+    if (ch === "<" && content[i + 1] === "<") {
+      const close = content.indexOf(">>", i);
+      i = close === -1 ? content.length : close + 2;
+      continue;
+    }
+
+    // Name
+    if (ch === "/") {
+      const m = content.slice(i).match(/^\/[^\s/<>\[\]()]*/)![0];
+      operands.push({ name: m.slice(1) });
+      i += m.length;
+      continue;
+    }
+
+    // Number
+    const num = content.slice(i).match(/^[+-]?(\d+\.?\d*|\.\d+)/);
+    if (num) {
+      operands.push(parseFloat(num[0]));
+      i += num[0].length;
+      continue;
+    }
+
+    // Operator
+    const op = content.slice(i).match(/^[A-Za-z'"*]+/)?.[0];
+    if (!op) { i++; continue; }
+    i += op.length;
+
+    switch (op) {
+      case "Tf": {
+        const name = operands.find((o) => o?.name !== undefined)?.name;
+        font = name ? fonts.get(name) : undefined;
+        break;
+      }
+      case "Tj":
+        if (operands[operands.length - 1]?.bytes) show(operands[operands.length - 1].bytes);
+        break;
+      case "'":
+      case '"':
+        newline();
+        if (operands[operands.length - 1]?.bytes) show(operands[operands.length - 1].bytes);
+        break;
+      case "TJ": {
+        const array = operands[operands.length - 1]?.array || [];
+        for (const item of array) {
+          if (item?.bytes) show(item.bytes);
+          // Large negative kerning is how many producers encode a word gap
+          else if (typeof item === "number" && item < -200 && !out.endsWith(" ")) out += " ";
+        }
+        break;
+      }
+      case "Td":
+      case "TD": {
+        const ty = operands[operands.length - 1];
+        if (typeof ty === "number" && Math.abs(ty) > 0.01) newline();
+        else if (!out.endsWith(" ") && !out.endsWith("\n")) out += " ";
+        break;
+      }
+      case "Tm": {
+        const y = operands[operands.length - 1];
+        if (typeof y === "number") {
+          if (lastY !== null && Math.abs(y - lastY) > 0.5) newline();
+          else if (lastY !== null && !out.endsWith(" ")) out += " ";
+          lastY = y;
+        }
+        break;
+      }
+      case "T*":
+        newline();
+        break;
+      case "Do": {
+        const name = operands.find((o) => o?.name !== undefined)?.name;
+        const formText = name ? drawForm(name).trim() : "";
+        if (formText) {
+          newline();
+          out += `${formText}\n`;
+        }
+        break;
+      }
+    }
+
+    operands = [];
+  }
+
+  return out;
+}
+
+function extractPdfText(buffer: Buffer): string {
+  if (buffer.toString("latin1", 0, 5) !== "%PDF-") throw new Error("Not a PDF file");
+  if (/\/Encrypt\b/.test(buffer.toString("latin1", Math.max(0, buffer.length - 4096)))) {
+    throw new Error("PDF is encrypted");
+  }
+
+  const objects = readPdfObjects(buffer);
+  const pages = collectPages(objects);
+
+  const pageTexts = pages.map((page) => {
+    const content = refNumbers(getDictValue(page.dict, "Contents"))
+      .map((num) => objects.get(num)?.stream?.toString("latin1") || "")
+      .join("\n");
+    return tidyExtractedText(extractStreamText(objects, content, loadPageResources(objects, page)));
+  });
+
+  return pageTexts.join("\n\f\n").trim();
+}
@@ -0,0 +1,41 @@
+// ============================================
+// VALIDATE GHL FIELD MAPPING
+// ============================================
+// Run after saving a client's mapping in ghl_field_mappings (onboarding):
+// checks every target against the GHL location's custom fields and stores
+// the result on the mapping row.
+
+import { task, logger } from "@trigger.dev/sdk";
+import { validateClientFieldMapping } from "./ghlFieldMapping";
+
+// ============================================
+// MAIN TASK
+// ============================================
+
+export const validateGHLFieldMapping = task({
+  id: "validate-ghl-field-mapping",
+  maxDuration: 60, // 1 minute
+  run: async (payload: { clientId: string }) => {
+    const { clientId } = payload;
+
+    logger.info("🧭 Validating GHL field mapping", { clientId });
+
+    const validation = await validateClientFieldMapping(clientId);
+
+    if (validation.valid) {
+      logger.info("✅ GHL field mapping valid", {
+        clientId,
+        locationId: validation.location_id,
+        locationFields: validation.location_field_count,
+      });
+    } else {
+      logger.warn("⚠️ GHL field mapping has problems", {
+        clientId,
+        locationId: validation.location_id,
+        issues: validation.issues,
+      });
+    }
+
+    return { success: validation.valid, validation };
+  },
+});
@@ -0,0 +1,32 @@
+-- ============================================
+-- JOBS
+-- ============================================
+-- Parsed job descriptions, keyed by the job reference recruiters type
+-- into the CV uploader and Role Matcher ("JOB-2025-001").
+-- processing_batches.job_id holds the job_ref.
+
+create table if not exists jobs (
+  id uuid primary key default gen_random_uuid(),
+  job_ref text not null unique,
+  client_id uuid,
+  title text,
+  location text,
+  town text,
+  country text,
+  must_have_skills jsonb not null default '[]',
+  nice_to_have_skills jsonb not null default '[]',
+  seniority text check (seniority in ('entry', 'junior', 'mid', 'senior', 'lead', 'executive')),
+  min_years_experience numeric,
+  salary_min numeric,
+  salary_max numeric,
+  salary_currency text,
+  salary_period text check (salary_period in ('annual', 'daily', 'hourly')),
+  sector text,
+  required_certifications jsonb not null default '[]',
+  keywords jsonb not null default '[]',
+  summary text,
+  jd_file_path text,
+  jd_raw_text text,
+  parsed_at timestamptz,
+  created_at timestamptz not null default now()
+);
@@ -0,0 +1,29 @@
+-- ============================================
+-- JOB SHORTLISTS
+-- ============================================
+-- Ranked shortlist of a batch's candidates against the batch job.
+-- One row per job + candidate, so a re-run updates the score.
+
+create table if not exists job_shortlists (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references jobs(id) on delete cascade,
+  job_ref text not null,
+  batch_id text,
+  candidate_id uuid not null references candidates(id) on delete cascade,
+  ghl_contact_id text,
+  colleague text,
+  rank integer not null,
+  overall_score numeric not null,
+  experience_score numeric,
+  experience_reason text,
+  skill_score numeric,
+  skill_reason text,
+  matched_skills jsonb not null default '[]',
+  missing_required_skills jsonb not null default '[]',
+  not_met text,
+  advice text,
+  created_at timestamptz not null default now(),
+  unique (job_ref, candidate_id)
+);
+
+create index if not exists job_shortlists_batch_idx on job_shortlists (job_ref, batch_id, overall_score desc);
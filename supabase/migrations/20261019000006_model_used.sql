@@ -0,0 +1,13 @@
+-- ============================================
+-- MODEL USED
+-- ============================================
+-- Gemini model that served each call (primary or fallback)
+
+alter table api_usage
+  add column if not exists model text;
+
+alter table candidates
+  add column if not exists parse_model text;
+
+alter table jobs
+  add column if not exists parse_model text;
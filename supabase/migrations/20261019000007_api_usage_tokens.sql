@@ -0,0 +1,10 @@
+-- ============================================
+-- API USAGE - TOKEN COUNTS
+-- ============================================
+-- Real Gemini token counts from usageMetadata. tokens_estimated is set
+-- when a response had no usageMetadata and the counts are estimates.
+
+alter table api_usage
+  add column if not exists input_tokens integer,
+  add column if not exists output_tokens integer,
+  add column if not exists tokens_estimated boolean not null default false;
@@ -0,0 +1,6 @@
+-- ============================================
+-- PARSE VALIDATION
+-- ============================================
+
+alter table candidates
+  add column if not exists parse_validation jsonb; -- ParseValidationReport
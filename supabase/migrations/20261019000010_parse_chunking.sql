@@ -0,0 +1,6 @@
+-- ============================================
+-- CHUNKED PARSE
+-- ============================================
+
+alter table candidates
+  add column if not exists parse_chunking jsonb; -- ChunkingReport, for CVs parsed in sections
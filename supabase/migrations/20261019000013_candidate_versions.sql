@@ -0,0 +1,18 @@
+-- ============================================
+-- CANDIDATE VERSIONS
+-- ============================================
+-- Snapshot before every merge into an existing candidate, so it can be reverted
+
+create table if not exists candidate_versions (
+  id uuid primary key default gen_random_uuid(),
+  candidate_id uuid not null references candidates(id) on delete cascade,
+  source text not null check (source in ('hold_queue_update', 'revert')),
+  previous_data jsonb,
+  new_data jsonb,
+  changed_fields jsonb not null default '[]', -- [{ field, strategy }]
+  hold_queue_id uuid,
+  reverted_version_id uuid references candidate_versions(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists candidate_versions_candidate_idx on candidate_versions (candidate_id, created_at desc);
@@ -0,0 +1,6 @@
+-- ============================================
+-- DUPLICATE CANDIDATES
+-- ============================================
+
+alter table hold_queue
+  add column if not exists duplicate_candidates jsonb not null default '[]'; -- Scored fuzzy matches for the reviewer
@@ -0,0 +1,17 @@
+-- ============================================
+-- DUPLICATE CANDIDATES - NORMALISED PHONE
+-- ============================================
+-- Phones are stored as parsed ("07700 900123", "+44 (7700) 900-123").
+-- Mirrors normalizePhone() in config.ts so lookups can match on digits:
+-- strip spaces/dashes/brackets/dots and a leading +, UK 0XXXXXXXXXX -> 44XXXXXXXXXX
+
+alter table candidates
+  add column if not exists phone_normalized text generated always as (
+    case
+      when regexp_replace(regexp_replace(btrim(phone), '[\s\-\(\)\.]', '', 'g'), '^\+', '') ~ '^0.{10}$'
+        then '44' || substr(regexp_replace(regexp_replace(btrim(phone), '[\s\-\(\)\.]', '', 'g'), '^\+', ''), 2)
+      else nullif(regexp_replace(regexp_replace(btrim(phone), '[\s\-\(\)\.]', '', 'g'), '^\+', ''), '')
+    end
+  ) stored;
+
+create index if not exists candidates_phone_normalized_idx on candidates (phone_normalized);
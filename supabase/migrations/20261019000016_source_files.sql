@@ -0,0 +1,10 @@
+-- ============================================
+-- BATCH CLUSTERS - SOURCE FILES
+-- ============================================
+-- Every file clustered into one candidate: [{ path, name, content_hash }]
+
+alter table candidates
+  add column if not exists source_files jsonb not null default '[]';
+
+alter table hold_queue
+  add column if not exists source_files jsonb not null default '[]';
@@ -0,0 +1,22 @@
+-- ============================================
+-- RESULT CACHE
+-- ============================================
+-- Extraction / classification / parse results per file content, so re-uploads
+-- and recovery runs skip the Gemini calls. Bump RESULT_CACHE_CONFIG.CACHE_VERSION
+-- to invalidate
+
+create table if not exists file_result_cache (
+  content_hash text not null,
+  cache_version integer not null,
+  extracted_text text,
+  extraction_method text,
+  classification jsonb,
+  quick_parse jsonb,
+  full_parse jsonb, -- { data, validation, chunking, model }
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (content_hash, cache_version)
+);
+
+alter table api_usage
+  add column if not exists cache_hit boolean not null default false; -- Reused from file_result_cache, no call made
@@ -0,0 +1,14 @@
+-- ============================================
+-- GHL FIELD MAPPINGS
+-- ============================================
+-- Per-client ParsedCV -> GHL custom field mapping (DEFAULT_GHL_FIELD_MAPPING when absent).
+-- location_id must match GHL_LOCATION_ID, or validation marks the mapping invalid
+
+create table if not exists ghl_field_mappings (
+  client_id uuid primary key,
+  location_id text,
+  mappings jsonb not null default '[]',
+  validation jsonb, -- FieldMappingValidation from validate-ghl-field-mapping
+  validated_at timestamptz,
+  updated_at timestamptz not null default now()
+);
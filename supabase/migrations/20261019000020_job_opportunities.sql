@@ -0,0 +1,25 @@
+-- ============================================
+-- JOB OPPORTUNITIES
+-- ============================================
+-- GHL opportunity created for each scored candidate of a job batch, so a
+-- re-run updates the opportunity instead of duplicating it
+
+alter table jobs
+  add column if not exists ghl_pipeline_id text, -- Else GHL_OPPORTUNITY_PIPELINE_ID
+  add column if not exists ghl_pipeline_stage_id text; -- Else the stage named GHL_CONFIG.OPPORTUNITY_STAGE_NAME
+
+create table if not exists job_opportunities (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references jobs(id) on delete cascade,
+  job_ref text not null,
+  batch_id text,
+  candidate_id uuid not null references candidates(id) on delete cascade,
+  ghl_contact_id text not null,
+  ghl_opportunity_id text not null,
+  ghl_pipeline_id text not null,
+  overall_score numeric,
+  colleague text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (job_ref, candidate_id)
+);
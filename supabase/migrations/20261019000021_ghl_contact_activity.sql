@@ -0,0 +1,16 @@
+-- ============================================
+-- GHL CONTACT ACTIVITY
+-- ============================================
+-- Import note / follow-up task posted to a contact, so re-runs don't post twice
+
+create table if not exists ghl_contact_activity (
+  id uuid primary key default gen_random_uuid(),
+  candidate_id uuid not null references candidates(id) on delete cascade,
+  batch_id text,
+  ghl_contact_id text not null,
+  kind text not null check (kind in ('import_note', 'follow_up_task')),
+  ghl_id text, -- GHL note / task id
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ghl_contact_activity_candidate_idx on ghl_contact_activity (candidate_id, batch_id);
@@ -0,0 +1,18 @@
+-- ============================================
+-- CANDIDATE DOCUMENTS
+-- ============================================
+-- One row per file attached to a candidate's GHL contact (CV, cover letter, other docs)
+
+create table if not exists candidate_documents (
+  id uuid primary key default gen_random_uuid(),
+  candidate_id uuid not null references candidates(id) on delete cascade,
+  kind text not null, -- CandidateDocumentKind
+  storage_path text not null,
+  file_name text,
+  ghl_contact_id text,
+  ghl_custom_field_id text, -- Set when uploaded into a FILE_UPLOAD field
+  ghl_file_url text,
+  upload_method text check (upload_method in ('custom_field', 'media_library')),
+  uploaded_at timestamptz not null default now(),
+  unique (candidate_id, storage_path)
+);
@@ -0,0 +1,14 @@
+-- ============================================
+-- SUPPORTING DOCUMENTS
+-- ============================================
+-- Documents bundled with a CV carry a type and mime type, so candidate_documents
+-- records "cv" or a SupportingDocumentType instead of the fixed upload kinds
+
+alter table candidate_documents rename column kind to document_type;
+alter table candidate_documents rename column file_name to original_name;
+
+alter table candidate_documents
+  add column if not exists mime_type text;
+
+alter table hold_queue
+  add column if not exists supporting_documents jsonb not null default '[]'; -- [{ path, name, type, mime_type }]
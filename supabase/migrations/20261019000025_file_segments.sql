@@ -0,0 +1,10 @@
+-- ============================================
+-- MERGED DOCUMENT SEGMENTS
+-- ============================================
+-- The parent row of a merged document has segment_count, each CV in it is
+-- tracked as "<file_path>#segment-N"
+
+alter table file_processing_status
+  add column if not exists segment_index integer,
+  add column if not exists segment_count integer,
+  add column if not exists parent_file_path text;
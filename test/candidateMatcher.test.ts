@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  JobRequirements,
+  MatchableCandidate,
+  calculateYearsExperience,
+  scoreCandidateAgainstJob,
+} from "../src/trigger/candidateMatcher";
+
+function candidate(overrides: Partial<MatchableCandidate> = {}): MatchableCandidate {
+  return {
+    id: "cand-1",
+    full_name: "Jane Smith",
+    address: null,
+    professional_summary: null,
+    cv_summary: null,
+    work_history: [],
+    skills: [],
+    certifications: [],
+    ...overrides,
+  };
+}
+
+function requirements(overrides: Partial<JobRequirements> = {}): JobRequirements {
+  return {
+    title: "Data Analyst",
+    required_skills: [],
+    preferred_skills: [],
+    min_years_experience: null,
+    keywords: [],
+    ...overrides,
+  };
+}
+
+describe("scoreCandidateAgainstJob", () => {
+  it("matches skills at the end of a sentence", () => {
+    const match = scoreCandidateAgainstJob(
+      candidate({ professional_summary: "Experienced with SQL. Built reports in Power BI." }),
+      requirements({ required_skills: ["SQL", "Power BI"] })
+    );
+
+    assert.deepEqual(match.matched_skills, ["SQL", "Power BI"]);
+    assert.deepEqual(match.missing_required_skills, []);
+  });
+
+  it("keeps dotted and symbol skill names intact", () => {
+    const match = scoreCandidateAgainstJob(
+      candidate({ skills: ["Node.js", "C++", "C#", ".NET"] }),
+      requirements({ required_skills: ["node.js", "C++", "C#", ".net", "Java"] })
+    );
+
+    assert.deepEqual(match.matched_skills, ["node.js", "C++", "C#", ".net"]);
+    assert.deepEqual(match.missing_required_skills, ["Java"]);
+  });
+
+  it("does not match a skill inside a longer word", () => {
+    const match = scoreCandidateAgainstJob(
+      candidate({ professional_summary: "Wrote JavaScript." }),
+      requirements({ required_skills: ["Java"] })
+    );
+
+    assert.deepEqual(match.matched_skills, []);
+  });
+
+  it("tolerates legacy rows with non-array and non-string values", () => {
+    const legacy = candidate({
+      full_name: 42 as any,
+      skills: "SQL, Excel" as any,
+      certifications: { name: "PRINCE2" } as any,
+      work_history: [
+        { job_title: "Analyst", start_date: 2018, end_date: { year: 2020 }, duties_responsibilities: ["Ran SQL reports"] },
+        "Analyst at Acme",
+      ] as any,
+      professional_summary: ["not", "a", "string"] as any,
+    });
+
+    const match = scoreCandidateAgainstJob(legacy, requirements({ required_skills: ["SQL"] }));
+
+    assert.deepEqual(match.matched_skills, ["SQL"]);
+    assert.equal(scoreCandidateAgainstJob(candidate({ work_history: "10 years" as any }), requirements()).years_experience, 0);
+  });
+});
+
+describe("calculateYearsExperience", () => {
+  it("counts overlapping roles once", () => {
+    const years = calculateYearsExperience([
+      { start_date: "01/2015", end_date: "12/2018" },
+      { start_date: "2017", end_date: "2019" },
+    ]);
+
+    assert.equal(years, 4.9);
+  });
+});
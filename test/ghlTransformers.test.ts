@@ -0,0 +1,35 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { GHLFieldMappingEntry, buildMappedGHLCustomFields } from "../src/trigger/ghlTransformers";
+
+describe("buildMappedGHLCustomFields", () => {
+  const mapping: GHLFieldMappingEntry[] = [
+    { ghl_key: "contact.professional_summary", source: "professional_summary" },
+    { ghl_key: "contact.notice_period", source: "notice_period" },
+    { ghl_key: "contact.current_job_title", source: "work_history[0].job_title" },
+    { ghl_key: "contact.database_record_id", source: "$candidate_id" },
+    { ghl_key: "contact.candidate_provided_cv", source: "$cv_file_url" },
+  ];
+
+  it("leaves out fields the CV has no value for", () => {
+    const fields = buildMappedGHLCustomFields(
+      mapping,
+      { professional_summary: "Data analyst", notice_period: null, work_history: [] },
+      { candidate_id: "cand-1", cv_file_url: null }
+    );
+
+    assert.deepEqual(fields, [
+      { key: "contact.professional_summary", value: "Data analyst" },
+      { key: "contact.database_record_id", value: "cand-1" },
+    ]);
+  });
+
+  it("clears a field only when the mapping sets an empty value", () => {
+    const fields = buildMappedGHLCustomFields(
+      [...mapping, { ghl_key: "contact.legacy_score", value: "" }],
+      {}
+    );
+
+    assert.deepEqual(fields, [{ key: "contact.legacy_score", value: "" }]);
+  });
+});
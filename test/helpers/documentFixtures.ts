@@ -0,0 +1,186 @@
+// ============================================
+// DOCUMENT FIXTURES
+// ============================================
+// Small PDFs and DOCX files built in memory, so each extraction case
+// is readable in the test instead of hidden in a binary file
+
+import { Buffer } from "node:buffer";
+import { crc32, deflateRawSync, deflateSync } from "node:zlib";
+
+// ============================================
+// PDF
+// ============================================
+
+export interface PdfFixtureObject {
+  num: number;
+  dict: string; // "<< ... >>" without /Length or /Filter for streams
+  stream?: string;
+  compress?: boolean; // FlateDecode the stream
+}
+
+/**
+ * Assemble a PDF. Objects listed in `objectStream` (dictionaries only) are
+ * packed into a compressed /ObjStm instead of written at the top level.
+ */
+export function buildPdf(objects: PdfFixtureObject[], options: { objectStream?: number[] } = {}): Buffer {
+  const packed = objects.filter((o) => options.objectStream?.includes(o.num));
+  const direct = objects.filter((o) => !options.objectStream?.includes(o.num));
+
+  if (packed.length > 0) {
+    let header = "";
+    let body = "";
+    for (const obj of packed) {
+      header += `${obj.num} ${body.length} `;
+      body += `${obj.dict}\n`;
+    }
+    direct.push({
+      num: Math.max(...objects.map((o) => o.num)) + 1,
+      dict: `<< /Type /ObjStm /N ${packed.length} /First ${header.length} >>`,
+      stream: header + body,
+      compress: true,
+    });
+  }
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.5\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  const offsets: Array<[number, number]> = [];
+  let length = chunks[0].length;
+  const push = (chunk: Buffer) => {
+    chunks.push(chunk);
+    length += chunk.length;
+  };
+
+  for (const obj of direct) {
+    offsets.push([obj.num, length]);
+    if (obj.stream === undefined) {
+      push(Buffer.from(`${obj.num} 0 obj\n${obj.dict}\nendobj\n`, "latin1"));
+      continue;
+    }
+
+    const raw = Buffer.from(obj.stream, "latin1");
+    const data = obj.compress ? deflateSync(raw) : raw;
+    const extra = `${obj.compress ? " /Filter /FlateDecode" : ""} /Length ${data.length}`;
+    const dict = obj.dict.replace(/>>\s*$/, `${extra} >>`);
+    push(Buffer.from(`${obj.num} 0 obj\n${dict}\nstream\n`, "latin1"));
+    push(data);
+    push(Buffer.from("\nendstream\nendobj\n", "latin1"));
+  }
+
+  const xrefOffset = length;
+  const size = Math.max(...direct.map((o) => o.num)) + 1;
+  const rows = Array.from({ length: size }, (_, num) => {
+    const offset = offsets.find(([n]) => n === num)?.[1];
+    return offset === undefined ? "0000000000 65535 f \n" : `${String(offset).padStart(10, "0")} 00000 n \n`;
+  });
+  push(Buffer.from(`xref\n0 ${size}\n${rows.join("")}trailer\n<< /Size ${size} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`, "latin1"));
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Catalog (1), page tree (2) and one page (3) drawing content stream 4
+ */
+export function singlePageObjects(resources: string, content: string, compress = false): PdfFixtureObject[] {
+  return [
+    { num: 1, dict: "<< /Type /Catalog /Pages 2 0 R >>" },
+    { num: 2, dict: "<< /Type /Pages /Kids [3 0 R] /Count 1 >>" },
+    { num: 3, dict: `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources ${resources} /Contents 4 0 R >>` },
+    { num: 4, dict: "<< >>", stream: content, compress },
+  ];
+}
+
+export const HELVETICA = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>";
+
+/**
+ * Text as a 2-byte-per-glyph hex string plus the ToUnicode CMap that
+ * decodes it. a-z go through a bfrange, everything else through bfchar.
+ */
+export function encodeWithToUnicode(text: string): { hex: string; cmap: string } {
+  const codes = new Map<string, number>();
+  let next = 0x0100;
+  const codeFor = (ch: string) => {
+    if (/[a-z]/.test(ch)) return ch.charCodeAt(0);
+    if (!codes.has(ch)) codes.set(ch, next++);
+    return codes.get(ch)!;
+  };
+
+  const hex4 = (n: number) => n.toString(16).padStart(4, "0").toUpperCase();
+  const hex = [...text].map((ch) => hex4(codeFor(ch))).join("");
+  const bfchar = [...codes].map(([ch, code]) => `<${hex4(code)}> <${hex4(ch.charCodeAt(0))}>`).join("\n");
+
+  const cmap = `/CIDInit /ProcSet findresource begin
+12 dict begin
+begincmap
+1 begincodespacerange
+<0000> <FFFF>
+endcodespacerange
+${codes.size} beginbfchar
+${bfchar}
+endbfchar
+1 beginbfrange
+<0061> <007A> <0061>
+endbfrange
+endcmap
+end
+end`;
+
+  return { hex, cmap };
+}
+
+// ============================================
+// DOCX
+// ============================================
+
+/**
+ * Zip the given parts (name -> XML) into a DOCX, deflated like Word does
+ */
+export function buildDocx(parts: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, xml] of Object.entries(parts)) {
+    const nameBytes = Buffer.from(name, "utf8");
+    const raw = Buffer.from(xml, "utf8");
+    const data = deflateRawSync(raw);
+    const crc = crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(parts).length, 8);
+  eocd.writeUInt16LE(Object.keys(parts).length, 10);
+  eocd.writeUInt32LE(centralDirectory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDirectory, eocd]);
+}
+
+export function wordXml(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`;
+}
@@ -0,0 +1,27 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseJobText } from "../src/trigger/jobParser";
+import { createMockLLMProvider } from "../src/trigger/llmProvider";
+
+function parseWith(output: Record<string, unknown>) {
+  const llm = createMockLLMProvider({ json: { job_parse: output } });
+  return parseJobText("Senior Data Analyst, Leeds. ".repeat(5), llm);
+}
+
+describe("parseJobText", () => {
+  it("takes the first number of a salary range", async () => {
+    const { job } = await parseWith({ salary_min: "£45,000 - £55,000", salary_max: "55,000.50", min_years_experience: "3-5 years" });
+
+    assert.equal(job?.salary_min, 45000);
+    assert.equal(job?.salary_max, 55000.5);
+    assert.equal(job?.min_years_experience, 3);
+  });
+
+  it("reads thousands shorthand and leaves non-numbers empty", async () => {
+    const { job } = await parseWith({ salary_min: "£45k", salary_max: "competitive", min_years_experience: 4 });
+
+    assert.equal(job?.salary_min, 45000);
+    assert.equal(job?.salary_max, null);
+    assert.equal(job?.min_years_experience, 4);
+  });
+});
@@ -0,0 +1,87 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { join } from "node:path";
+
+// The mock provider is picked from the environment when the modules load
+process.env.LLM_PROVIDER = "mock";
+process.env.LLM_FIXTURES_PATH = join(__dirname, "..", "fixtures", "llm.json");
+
+const CV_TEXT = `Jane Smith
+jane.smith@example.com | 07700 900123 | Newcastle upon Tyne
+
+Professional summary
+Data analyst with six years' experience building reporting in SQL and Power BI.
+
+Work history
+Senior Data Analyst, Northwind Retail, 03/2021 - Present
+Data Analyst, Tyne Energy, 09/2018 - 02/2021
+
+Education
+BSc Mathematics, Newcastle University, 2015 - 2018
+
+Skills
+SQL, Power BI, Python, stakeholder management`;
+
+describe("CV pipeline with the mock LLM provider", () => {
+  let pipeline: typeof import("../src/trigger/candidatePipeline");
+  let classifier: typeof import("../src/trigger/documentClassifier");
+  let extraction: typeof import("../src/trigger/textExtraction");
+  let jobParser: typeof import("../src/trigger/jobParser");
+  let matcher: typeof import("../src/trigger/candidateMatcher");
+  let llm: import("../src/trigger/llmProvider").LLMProvider;
+
+  before(async () => {
+    pipeline = await import("../src/trigger/candidatePipeline");
+    classifier = await import("../src/trigger/documentClassifier");
+    extraction = await import("../src/trigger/textExtraction");
+    jobParser = await import("../src/trigger/jobParser");
+    matcher = await import("../src/trigger/candidateMatcher");
+    llm = (await import("../src/trigger/llmProvider")).getLLMProvider();
+  });
+
+  it("uses the fixtures file named in the environment", () => {
+    assert.equal(llm.name, "mock");
+  });
+
+  it("extracts, classifies, parses and scores a CV without network calls", async () => {
+    const file = new TextEncoder().encode(CV_TEXT).buffer as ArrayBuffer;
+
+    const extracted = await extraction.extractText(file, "jane_smith_cv.txt", llm);
+    assert.equal(extracted.method, "plain_text");
+    assert.equal(extracted.call, null);
+
+    const classification = await classifier.classifyDocument(extracted.text, "jane_smith_cv.txt", undefined, llm);
+    assert.equal(classification.should_process, true);
+    assert.equal(classification.model, "mock");
+
+    const quick = await pipeline.quickParse(llm, extracted.text);
+    assert.equal(quick.parsed, true);
+    assert.deepEqual(quick.data, { full_name: "Jane Smith", email: "jane.smith@example.com", phone: "07700 900123" });
+
+    const full = await pipeline.fullParse(llm, extracted.text);
+    assert.equal(full.validation.valid, true);
+    assert.equal(full.chunking.chunk_count, 1);
+    assert.equal(full.calls.length, 1);
+    assert.equal(full.data.work_history.length, 2);
+
+    const { job } = await jobParser.parseJobText("Senior Data Analyst, Newcastle. SQL and Power BI essential. ".repeat(3), llm);
+    assert.ok(job);
+
+    const match = matcher.scoreCandidateAgainstJob(
+      { id: "cand-1", ...full.data },
+      jobParser.toJobRequirements(job)
+    );
+    assert.deepEqual(match.missing_required_skills, []);
+    assert.ok(match.overall_score >= 7, `expected a strong match, got ${match.overall_score}`);
+  });
+
+  it("falls back to the document fixture for files that need OCR", async () => {
+    const file = new Uint8Array([0xd0, 0xcf, 0x11, 0xe0]).buffer as ArrayBuffer; // Legacy .doc header
+
+    const extracted = await extraction.extractText(file, "scan.doc", llm);
+
+    assert.equal(extracted.method, "gemini_ocr");
+    assert.deepEqual(extracted.call, { model: "mock", usage: { input_tokens: 0, output_tokens: 0 } });
+    assert.match(extracted.text, /Jane Smith/);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Buffer } from "node:buffer";
+import { extractText } from "../src/trigger/textExtraction";
+import { createMockLLMProvider } from "../src/trigger/llmProvider";
+import {
+  HELVETICA,
+  buildDocx,
+  buildPdf,
+  encodeWithToUnicode,
+  singlePageObjects,
+  wordXml,
+} from "./helpers/documentFixtures";
+
+const OCR_TEXT = "Jane Smith - scanned CV read by the OCR fallback, Senior Data Analyst";
+const llm = createMockLLMProvider({ defaultDocumentText: OCR_TEXT });
+
+function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+async function extract(buffer: Buffer, fileName = "cv.pdf") {
+  return extractText(toArrayBuffer(buffer), fileName, llm);
+}
+
+describe("extractText - PDF text layer", () => {
+  it("reads simple text operators line by line", async () => {
+    const pdf = buildPdf(
+      singlePageObjects(
+        `<< /Font << /F1 ${HELVETICA} >> >>`,
+        "BT /F1 12 Tf 72 770 Td (Jane Smith) Tj 0 -16 Td (Senior Data Analyst, London) Tj T* (jane.smith@example.com) Tj ET"
+      )
+    );
+
+    const result = await extract(pdf);
+
+    assert.equal(result.method, "pdf_text_layer");
+    assert.equal(result.call, null);
+    assert.equal(result.text, "Jane Smith\nSenior Data Analyst, London\njane.smith@example.com");
+  });
+
+  it("decodes 2-byte hex strings through a ToUnicode CMap", async () => {
+    const { hex, cmap } = encodeWithToUnicode("Jane Smith - Senior Data Analyst: SQL, Power BI & Python (8 years)");
+    const pdf = buildPdf([
+      ...singlePageObjects(
+        "<< /Font << /F1 5 0 R >> >>",
+        `BT /F1 11 Tf 72 770 Td <${hex}> Tj ET`,
+        true
+      ),
+      { num: 5, dict: "<< /Type /Font /Subtype /Type0 /BaseFont /ABCDEF+Calibri /Encoding /Identity-H /ToUnicode 6 0 R >>" },
+      { num: 6, dict: "<< >>", stream: cmap, compress: true },
+    ]);
+
+    const result = await extract(pdf);
+
+    assert.equal(result.method, "pdf_text_layer");
+    assert.equal(result.text, "Jane Smith - Senior Data Analyst: SQL, Power BI & Python (8 years)");
+  });
+
+  it("turns wide TJ kerning gaps into spaces but joins tight ones", async () => {
+    const pdf = buildPdf(
+      singlePageObjects(
+        `<< /Font << /F1 ${HELVETICA} >> >>`,
+        "BT /F1 12 Tf 72 770 Td [(Sen) 20 (ior) -250 (Data) -300 (Ana) -15 (lyst)] TJ " +
+          "0 -16 Td [(Based in) -400 (Manchester,) -400 (United) -400 (Kingdom)] TJ " +
+          "T* [(Open to) -250 (hybrid) 30 (roles)] TJ ET"
+      )
+    );
+
+    const result = await extract(pdf);
+
+    assert.equal(result.text, "Senior Data Analyst\nBased in Manchester, United Kingdom\nOpen to hybridroles");
+  });
+
+  it("finds pages and fonts packed inside compressed object streams", async () => {
+    const { hex, cmap } = encodeWithToUnicode("Object stream CV: Jane Smith, Data Engineer");
+    const objects = [
+      ...singlePageObjects(
+        `<< /Font << /F1 5 0 R /F2 ${HELVETICA} >> >>`,
+        `BT /F1 11 Tf 72 770 Td <${hex}> Tj /F2 11 Tf 0 -14 Td (Skills: Spark, Airflow, dbt) Tj ET`,
+        true
+      ),
+      { num: 5, dict: "<< /Type /Font /Subtype /Type0 /BaseFont /Calibri /Encoding /Identity-H /ToUnicode 6 0 R >>" },
+      { num: 6, dict: "<< >>", stream: cmap, compress: true },
+    ];
+
+    const pdf = buildPdf(objects, { objectStream: [1, 2, 3, 5] });
+
+    // The page tree is only reachable through the object stream
+    assert.ok(!pdf.toString("latin1").includes("/Type /Page "));
+
+    const result = await extract(pdf);
+
+    assert.equal(result.method, "pdf_text_layer");
+    assert.equal(result.text, "Object stream CV: Jane Smith, Data Engineer\nSkills: Spark, Airflow, dbt");
+  });
+
+  it("reads text drawn inside Form XObjects, including nested forms with their own resources", async () => {
+    const { hex, cmap } = encodeWithToUnicode("Nested form: jane.smith@example.com");
+    const pdf = buildPdf([
+      ...singlePageObjects(
+        `<< /Font << /F1 ${HELVETICA} >> /XObject << /Fm1 5 0 R >> >>`,
+        "q /Fm1 Do Q BT /F1 12 Tf 72 700 Td (Page body: Senior Data Analyst) Tj ET",
+        true
+      ),
+      {
+        num: 5,
+        dict: `<< /Type /XObject /Subtype /Form /BBox [0 0 595 100] /Resources << /Font << /F2 ${HELVETICA} >> /XObject << /Fm2 6 0 R /Fm1 5 0 R >> >> >>`,
+        stream: "BT /F2 10 Tf 72 800 Td (Header form: Jane Smith) Tj ET /Fm2 Do /Fm1 Do",
+        compress: true,
+      },
+      {
+        num: 6,
+        dict: "<< /Type /XObject /Subtype /Form /BBox [0 0 595 100] /Resources << /Font << /F3 7 0 R >> >> >>",
+        stream: `BT /F3 10 Tf 72 780 Td <${hex}> Tj ET`,
+      },
+      { num: 7, dict: "<< /Type /Font /Subtype /Type0 /BaseFont /Calibri /Encoding /Identity-H /ToUnicode 8 0 R >>" },
+      { num: 8, dict: "<< >>", stream: cmap },
+    ]);
+
+    const result = await extract(pdf);
+
+    // Fm1 draws itself as well - the cycle is skipped instead of recursing forever
+    assert.equal(result.method, "pdf_text_layer");
+    assert.equal(
+      result.text,
+      "Header form: Jane Smith\nNested form: jane.smith@example.com\nPage body: Senior Data Analyst"
+    );
+  });
+
+  it("ignores image XObjects", async () => {
+    const pdf = buildPdf([
+      ...singlePageObjects(
+        `<< /Font << /F1 ${HELVETICA} >> /XObject << /Im1 5 0 R >> >>`,
+        "q 100 0 0 100 72 600 cm /Im1 Do Q BT /F1 12 Tf 72 770 Td (Photo CV: Jane Smith, Senior Data Analyst based in Manchester) Tj ET"
+      ),
+      { num: 5, dict: "<< /Type /XObject /Subtype /Image /Width 1 /Height 1 /ColorSpace /DeviceGray /BitsPerComponent 8 >>", stream: "\x80" },
+    ]);
+
+    const result = await extract(pdf);
+
+    assert.equal(result.text, "Photo CV: Jane Smith, Senior Data Analyst based in Manchester");
+  });
+});
+
+describe("extractText - OCR fallback", () => {
+  it("sends scanned PDFs without a text layer to the LLM", async () => {
+    const pdf = buildPdf([
+      ...singlePageObjects(
+        "<< /XObject << /Im1 5 0 R >> >>",
+        "q 595 0 0 842 0 0 cm /Im1 Do Q"
+      ),
+      { num: 5, dict: "<< /Type /XObject /Subtype /Image /Width 1 /Height 1 /ColorSpace /DeviceGray /BitsPerComponent 8 >>", stream: "\x80" },
+    ]);
+
+    const result = await extract(pdf);
+
+    assert.equal(result.method, "gemini_ocr");
+    assert.equal(result.text, OCR_TEXT);
+    assert.deepEqual(result.call, { model: "mock", usage: { input_tokens: 0, output_tokens: 0 } });
+  });
+
+  it("falls back when the text layer only holds undecodable glyph ids", async () => {
+    const glyphs = Array.from({ length: 40 }, (_, i) => (i + 3).toString(16).padStart(4, "0")).join("");
+    const pdf = buildPdf(
+      singlePageObjects(
+        `<< /Font << /F1 << /Type /Font /Subtype /Type0 /BaseFont /ABCDEF+Subset /Encoding /Identity-H >> >> >>`,
+        `BT /F1 11 Tf 72 770 Td <${glyphs}> Tj ET`
+      )
+    );
+
+    const result = await extract(pdf);
+
+    assert.equal(result.method, "gemini_ocr");
+  });
+
+  it("falls back when the file is not really a PDF", async () => {
+    const result = await extract(Buffer.from("<html><body>Not a PDF</body></html>"));
+
+    assert.equal(result.method, "gemini_ocr");
+    assert.equal(result.text, OCR_TEXT);
+  });
+
+  it("always uses the LLM for legacy .doc files", async () => {
+    const result = await extract(Buffer.from([0xd0, 0xcf, 0x11, 0xe0]), "cv.doc");
+
+    assert.equal(result.method, "gemini_ocr");
+  });
+});
+
+describe("extractText - DOCX and plain text", () => {
+  it("reads headers before the body and keeps table cells apart", async () => {
+    const docx = buildDocx({
+      "[Content_Types].xml": "<Types/>",
+      "word/header1.xml": `<w:hdr xmlns:w="urn:w"><w:p><w:r><w:t>Jane Smith | jane.smith@example.com</w:t></w:r></w:p></w:hdr>`,
+      "word/document.xml": wordXml(
+        "<w:p><w:r><w:t>Senior Data Analyst</w:t></w:r></w:p>" +
+          "<w:tbl><w:tr><w:tc><w:p><w:r><w:t>SQL</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Power BI &amp; Python</w:t></w:r></w:p></w:tc></w:tr></w:tbl>"
+      ),
+    });
+
+    const result = await extract(docx, "cv.docx");
+
+    assert.equal(result.method, "docx_xml");
+    assert.equal(result.text, "Jane Smith | jane.smith@example.com\n\nSenior Data Analyst\nSQL\n\tPower BI & Python");
+  });
+
+  it("decodes Windows-1252 text files", async () => {
+    const result = await extract(Buffer.from([0x43, 0x61, 0x66, 0xe9, 0x20, 0x96, 0x20, 0x92, 0x4f, 0x4b, 0x92]), "cv.txt");
+
+    assert.deepEqual(result, { text: "Café – ’OK’", method: "plain_text", call: null });
+  });
+});